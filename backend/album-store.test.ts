@@ -0,0 +1,70 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import photoIndex from './photo-index.js';
+import albumStore from './album-store.js';
+import { PhotoMetadata, PhotoReference } from './types.js';
+
+process.env.PHOTO_INDEX_PATH = ':memory:';
+
+const photo = (filePath: string, day: number): PhotoMetadata => ({
+  id: `id:${filePath}`,
+  name: filePath.slice(1),
+  path: filePath,
+  date_taken: new Date(2021, 0, day),
+  size: 100,
+  providerType: 'local',
+  instanceIndex: 0,
+  mediaType: 'image'
+});
+
+const reference = (filePath: string): PhotoReference => ({ providerType: 'local', instanceIndex: 0, path: filePath });
+
+const paths = (albumId: number) => albumStore.getPhotos(albumId, 0, 10)!.map(found => found.path);
+
+photoIndex.upsertPhotos([photo('/a.jpg', 3), photo('/b.jpg', 1), photo('/c.jpg', 2), photo('/d.jpg', 4)]);
+
+test('addPhotos appends new, indexed photos only', () => {
+  const album = albumStore.createAlbum('Trip', 'manual');
+
+  assert.equal(albumStore.addPhotos(album.id, [reference('/c.jpg'), reference('/a.jpg')]), 2);
+  // Photos already in the album or missing from the index are skipped
+  assert.equal(albumStore.addPhotos(album.id, [reference('/a.jpg'), reference('/missing.jpg'), reference('/b.jpg')]), 1);
+  assert.deepEqual(paths(album.id), ['/c.jpg', '/a.jpg', '/b.jpg']);
+
+  assert.equal(albumStore.addPhotos(album.id + 1000, [reference('/d.jpg')]), null);
+  assert.equal(albumStore.getPhotos(album.id + 1000, 0, 10), null);
+});
+
+test('albums list their photos in their sort order', () => {
+  const album = albumStore.createAlbum('Sorted');
+  albumStore.addPhotos(album.id, [reference('/c.jpg'), reference('/a.jpg'), reference('/b.jpg')]);
+
+  assert.deepEqual(paths(album.id), ['/a.jpg', '/c.jpg', '/b.jpg']);
+  albumStore.updateAlbum(album.id, { sortOrder: 'date_asc' });
+  assert.deepEqual(paths(album.id), ['/b.jpg', '/c.jpg', '/a.jpg']);
+  albumStore.updateAlbum(album.id, { sortOrder: 'manual' });
+  assert.deepEqual(paths(album.id), ['/c.jpg', '/a.jpg', '/b.jpg']);
+
+  assert.deepEqual(albumStore.getPhotos(album.id, 1, 1)!.map(found => found.path), ['/a.jpg']);
+  // Without a chosen cover the first photo in the album's order is shown
+  assert.equal(albumStore.getAlbum(album.id)?.cover?.path, '/c.jpg');
+});
+
+test('reorderPhotos puts the listed photos first and keeps the rest in order', () => {
+  const album = albumStore.createAlbum('Reordered', 'manual');
+  albumStore.addPhotos(album.id, ['/a.jpg', '/b.jpg', '/c.jpg', '/d.jpg'].map(reference));
+
+  // Moving one photo to the front
+  assert.equal(albumStore.reorderPhotos(album.id, [reference('/c.jpg')]), true);
+  assert.deepEqual(paths(album.id), ['/c.jpg', '/a.jpg', '/b.jpg', '/d.jpg']);
+
+  assert.equal(albumStore.reorderPhotos(album.id, [reference('/d.jpg'), reference('/b.jpg')]), true);
+  assert.deepEqual(paths(album.id), ['/d.jpg', '/b.jpg', '/c.jpg', '/a.jpg']);
+
+  // Photos added later go after the reordered ones
+  albumStore.removePhotos(album.id, [reference('/b.jpg')]);
+  albumStore.addPhotos(album.id, [reference('/b.jpg')]);
+  assert.deepEqual(paths(album.id), ['/d.jpg', '/c.jpg', '/a.jpg', '/b.jpg']);
+
+  assert.equal(albumStore.reorderPhotos(album.id + 1000, [reference('/a.jpg')]), false);
+});
@@ -0,0 +1,253 @@
+import photoIndex from './photo-index.js';
+import { Album, AlbumRow, AlbumSortOrder, PhotoMetadata, PhotoReference, PhotoRow } from './types.js';
+
+export const ALBUM_SORT_ORDERS: AlbumSortOrder[] = ['date_desc', 'date_asc', 'manual'];
+
+const ORDER_BY: { [order in AlbumSortOrder]: string } = {
+  date_desc: 'p.date_taken DESC, p.provider_type, p.instance_index, p.path',
+  date_asc: 'p.date_taken ASC, p.provider_type, p.instance_index, p.path',
+  manual: 'ap.position, p.provider_type, p.instance_index, p.path'
+};
+
+const ALBUM_SELECT = `
+  SELECT a.*, (SELECT COUNT(*) FROM album_photos WHERE album_id = a.id) AS photo_count
+  FROM albums AS a
+`;
+
+/**
+ * Albums live in the photo index database rather than on any provider, so one album can
+ * hold photos from every connected instance
+ */
+class AlbumStore {
+  private static instance: AlbumStore;
+
+  constructor() {
+    if (AlbumStore.instance) {
+      return AlbumStore.instance;
+    }
+
+    AlbumStore.instance = this;
+  }
+
+  /**
+   * Get every album, newest first
+   * @returns The albums
+   */
+  getAlbums(): Album[] {
+    const rows = photoIndex.getDatabase()
+      .prepare(`${ALBUM_SELECT} ORDER BY a.created_at DESC, a.id DESC`)
+      .all() as AlbumRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Look up a single album
+   * @param albumId - The album's id
+   * @returns The album, or null if it does not exist
+   */
+  getAlbum(albumId: number): Album | null {
+    const row = photoIndex.getDatabase()
+      .prepare(`${ALBUM_SELECT} WHERE a.id = ?`)
+      .get(albumId) as AlbumRow | undefined;
+    return row ? this.fromRow(row) : null;
+  }
+
+  /**
+   * Create an empty album
+   * @param name - The album's name
+   * @param sortOrder - How the album's photos are ordered
+   * @returns The new album
+   */
+  createAlbum(name: string, sortOrder: AlbumSortOrder = 'date_desc'): Album {
+    const result = photoIndex.getDatabase()
+      .prepare('INSERT INTO albums (name, sort_order, created_at) VALUES (?, ?, ?)')
+      .run(name, sortOrder, Date.now());
+    return this.getAlbum(Number(result.lastInsertRowid))!;
+  }
+
+  /**
+   * Change an album's name, ordering or cover
+   * @param albumId - The album's id
+   * @param changes - The fields to change; a null cover goes back to the first photo
+   * @returns The updated album, or null if it does not exist
+   * @throws Error if the cover photo is not in the album
+   */
+  updateAlbum(albumId: number, changes: { name?: string; sortOrder?: AlbumSortOrder; cover?: PhotoReference | null }): Album | null {
+    const db = photoIndex.getDatabase();
+    if (!this.getAlbum(albumId)) {
+      return null;
+    }
+
+    db.transaction(() => {
+      if (changes.name !== undefined) {
+        db.prepare('UPDATE albums SET name = ? WHERE id = ?').run(changes.name, albumId);
+      }
+      if (changes.sortOrder !== undefined) {
+        db.prepare('UPDATE albums SET sort_order = ? WHERE id = ?').run(changes.sortOrder, albumId);
+      }
+      if (changes.cover !== undefined) {
+        const cover = changes.cover;
+        if (cover && !this.hasPhoto(albumId, cover)) {
+          throw new Error('The cover photo must be in the album');
+        }
+        db.prepare('UPDATE albums SET cover_provider_type = ?, cover_instance_index = ?, cover_path = ? WHERE id = ?')
+          .run(cover?.providerType ?? null, cover?.instanceIndex ?? null, cover?.path ?? null, albumId);
+      }
+    })();
+
+    return this.getAlbum(albumId);
+  }
+
+  /**
+   * Delete an album. The photos themselves are left alone.
+   * @param albumId - The album's id
+   * @returns True if the album existed
+   */
+  deleteAlbum(albumId: number): boolean {
+    return photoIndex.getDatabase().prepare('DELETE FROM albums WHERE id = ?').run(albumId).changes > 0;
+  }
+
+  /**
+   * Get a page of an album's photos in the album's order
+   * @param albumId - The album's id
+   * @param offset - Number of photos to skip
+   * @param limit - Maximum number of photos to return
+   * @returns The photos, or null if the album does not exist
+   */
+  getPhotos(albumId: number, offset: number, limit: number): PhotoMetadata[] | null {
+    const album = this.getAlbum(albumId);
+    return album ? this.queryPhotos(albumId, album.sortOrder, offset, limit) : null;
+  }
+
+  /**
+   * Add photos to the end of an album. Photos already in it, or not in the index, are skipped.
+   * @param albumId - The album's id
+   * @param photos - The photos to add
+   * @returns The number of photos added, or null if the album does not exist
+   */
+  addPhotos(albumId: number, photos: PhotoReference[]): number | null {
+    const db = photoIndex.getDatabase();
+    if (!this.getAlbum(albumId)) {
+      return null;
+    }
+
+    // Selecting from photos skips anything that is not indexed
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO album_photos (album_id, provider_type, instance_index, path, position)
+      SELECT @albumId, provider_type, instance_index, path,
+        (SELECT COALESCE(MAX(position), -1) + 1 FROM album_photos WHERE album_id = @albumId)
+      FROM photos WHERE provider_type = @providerType AND instance_index = @instanceIndex AND path = @path
+    `);
+
+    let added = 0;
+    db.transaction(() => {
+      for (const photo of photos) {
+        added += insert.run({ albumId, ...photo }).changes;
+      }
+    })();
+    return added;
+  }
+
+  /**
+   * Take photos out of an album
+   * @param albumId - The album's id
+   * @param photos - The photos to remove
+   * @returns The number of photos removed, or null if the album does not exist
+   */
+  removePhotos(albumId: number, photos: PhotoReference[]): number | null {
+    const db = photoIndex.getDatabase();
+    if (!this.getAlbum(albumId)) {
+      return null;
+    }
+
+    const remove = db.prepare(`
+      DELETE FROM album_photos
+      WHERE album_id = @albumId AND provider_type = @providerType AND instance_index = @instanceIndex AND path = @path
+    `);
+    // Removing the chosen cover goes back to the first photo
+    const clearCover = db.prepare(`
+      UPDATE albums SET cover_provider_type = NULL, cover_instance_index = NULL, cover_path = NULL
+      WHERE id = @albumId AND cover_provider_type = @providerType AND cover_instance_index = @instanceIndex AND cover_path = @path
+    `);
+
+    let removed = 0;
+    db.transaction(() => {
+      for (const photo of photos) {
+        removed += remove.run({ albumId, ...photo }).changes;
+        clearCover.run({ albumId, ...photo });
+      }
+    })();
+    return removed;
+  }
+
+  /**
+   * Set the manual order of an album. Listed photos come first in the given order,
+   * followed by the rest in their previous order.
+   * @param albumId - The album's id
+   * @param photos - The photos in their new order
+   * @returns False if the album does not exist
+   */
+  reorderPhotos(albumId: number, photos: PhotoReference[]): boolean {
+    const db = photoIndex.getDatabase();
+    if (!this.getAlbum(albumId)) {
+      return false;
+    }
+
+    const current = db.prepare(`
+      SELECT provider_type, instance_index, path FROM album_photos WHERE album_id = ? ORDER BY position
+    `).all(albumId) as { provider_type: string; instance_index: number; path: string }[];
+
+    const key = (photo: PhotoReference) => `${photo.providerType}\0${photo.instanceIndex}\0${photo.path}`;
+    const listed = new Set(photos.map(key));
+    const ordered = photos.concat(current
+      .map(row => ({ providerType: row.provider_type, instanceIndex: row.instance_index, path: row.path }))
+      .filter(photo => !listed.has(key(photo))));
+
+    const update = db.prepare(`
+      UPDATE album_photos SET position = @position
+      WHERE album_id = @albumId AND provider_type = @providerType AND instance_index = @instanceIndex AND path = @path
+    `);
+    db.transaction(() => {
+      ordered.forEach((photo, position) => update.run({ albumId, position, ...photo }));
+    })();
+    return true;
+  }
+
+  private queryPhotos(albumId: number, sortOrder: AlbumSortOrder, offset: number, limit: number): PhotoMetadata[] {
+    const rows = photoIndex.getDatabase().prepare(`
+      SELECT p.* FROM album_photos AS ap
+      JOIN photos AS p USING (provider_type, instance_index, path)
+      WHERE ap.album_id = ?
+      ORDER BY ${ORDER_BY[sortOrder]}
+      LIMIT ? OFFSET ?
+    `).all(albumId, limit, offset) as PhotoRow[];
+    return rows.map(row => photoIndex.fromRow(row));
+  }
+
+  private hasPhoto(albumId: number, photo: PhotoReference): boolean {
+    return photoIndex.getDatabase().prepare(`
+      SELECT 1 FROM album_photos WHERE album_id = ? AND provider_type = ? AND instance_index = ? AND path = ?
+    `).get(albumId, photo.providerType, photo.instanceIndex, photo.path) !== undefined;
+  }
+
+  private fromRow(row: AlbumRow): Album {
+    const sortOrder = row.sort_order as AlbumSortOrder;
+    let cover: PhotoMetadata | null = null;
+    if (row.cover_provider_type !== null && row.cover_instance_index !== null && row.cover_path !== null) {
+      cover = photoIndex.getPhoto(row.cover_provider_type, row.cover_instance_index, row.cover_path);
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      sortOrder,
+      cover: cover ?? this.queryPhotos(row.id, sortOrder, 0, 1)[0] ?? null,
+      photoCount: row.photo_count,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
+
+// Export a singleton instance
+const albumStore = new AlbumStore();
+export default albumStore;
@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRangeHeader, formatRangeHeader, parseContentRange, resolveRange, RANGE_NOT_SATISFIABLE } from './byte-range.js';
+
+test('parseRangeHeader reads a single open or closed range', () => {
+  assert.deepEqual(parseRangeHeader('bytes=0-'), { start: 0, end: undefined });
+  assert.deepEqual(parseRangeHeader(' bytes=100-199 '), { start: 100, end: 199 });
+  assert.deepEqual(parseRangeHeader('bytes=5-5'), { start: 5, end: 5 });
+});
+
+test('parseRangeHeader ignores what it cannot serve', () => {
+  assert.equal(parseRangeHeader(undefined), undefined);
+  assert.equal(parseRangeHeader(''), undefined);
+  // Suffix ranges, several ranges, other units and backwards ranges fall back to the whole file
+  assert.equal(parseRangeHeader('bytes=-500'), undefined);
+  assert.equal(parseRangeHeader('bytes=0-99,200-299'), undefined);
+  assert.equal(parseRangeHeader('items=0-9'), undefined);
+  assert.equal(parseRangeHeader('bytes=200-100'), undefined);
+});
+
+test('formatRangeHeader round-trips parsed ranges', () => {
+  assert.equal(formatRangeHeader(undefined), undefined);
+  assert.equal(formatRangeHeader({ start: 100 }), 'bytes=100-');
+  assert.equal(formatRangeHeader({ start: 100, end: 199 }), 'bytes=100-199');
+});
+
+test('parseContentRange reads partial responses and whole-file fallbacks', () => {
+  assert.deepEqual(parseContentRange('bytes 100-199/1000', 100), { start: 100, end: 199, totalSize: 1000, partial: true });
+  // An unknown total is at least as large as what was served
+  assert.deepEqual(parseContentRange('bytes 0-99/*', 100), { start: 0, end: 99, totalSize: 100, partial: true });
+  assert.deepEqual(parseContentRange(undefined, 1000), { start: 0, end: 999, totalSize: 1000, partial: false });
+  assert.deepEqual(parseContentRange('garbage', 1000), { start: 0, end: 999, totalSize: 1000, partial: false });
+});
+
+test('resolveRange clamps to the file and rejects ranges past its end', () => {
+  assert.deepEqual(resolveRange(undefined, 1000), { start: 0, end: 999, partial: false });
+  assert.deepEqual(resolveRange({ start: 100 }, 1000), { start: 100, end: 999, partial: true });
+  assert.deepEqual(resolveRange({ start: 100, end: 5000 }, 1000), { start: 100, end: 999, partial: true });
+  assert.deepEqual(resolveRange({ start: 999, end: 999 }, 1000), { start: 999, end: 999, partial: true });
+  assert.throws(() => resolveRange({ start: 1000 }, 1000), new RegExp(RANGE_NOT_SATISFIABLE));
+});
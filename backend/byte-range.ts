@@ -0,0 +1,108 @@
+import CloudProvider from './cloud-provider.js';
+import { ByteRange } from './types.js';
+
+// Providers include this in the error they throw when a range starts past the end of the file
+export const RANGE_NOT_SATISFIABLE = 'range_not_satisfiable';
+
+/**
+ * Parse a request's Range header. Only a single "bytes=start-" or "bytes=start-end"
+ * range is supported, anything else is ignored and the whole file is served.
+ * @param header - The Range header value
+ * @returns The requested range, or undefined to serve the whole file
+ */
+export function parseRangeHeader(header: string | undefined): ByteRange | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const match = header.trim().match(/^bytes=(\d+)-(\d*)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const start = parseInt(match[1]);
+  const end = match[2] === '' ? undefined : parseInt(match[2]);
+  if (end !== undefined && end < start) {
+    return undefined;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Format a range as a Range header value to forward to a provider
+ * @param range - The requested range
+ * @returns The header value, or undefined when no range was requested
+ */
+export function formatRangeHeader(range: ByteRange | undefined): string | undefined {
+  if (!range) {
+    return undefined;
+  }
+  return `bytes=${range.start}-${range.end !== undefined ? range.end : ''}`;
+}
+
+/**
+ * Work out which bytes a provider response holds from its Content-Range header
+ * @param contentRange - The Content-Range header of the response, if any
+ * @param contentLength - The Content-Length of the response
+ * @returns The first and last byte served and the total file size
+ */
+export function parseContentRange(contentRange: string | undefined, contentLength: number): { start: number; end: number; totalSize: number; partial: boolean } {
+  const match = contentRange && contentRange.match(/^bytes (\d+)-(\d+)\/(\d+|\*)$/);
+  if (!match) {
+    // The provider ignored the range and sent the whole file
+    return { start: 0, end: contentLength - 1, totalSize: contentLength, partial: false };
+  }
+
+  const start = parseInt(match[1]);
+  const end = parseInt(match[2]);
+  const totalSize = match[3] === '*' ? end + 1 : parseInt(match[3]);
+  return { start, end, totalSize, partial: true };
+}
+
+/**
+ * Clamp a requested range to a file of known size
+ * @param range - The requested range
+ * @param totalSize - The size of the file
+ * @returns The first and last byte to serve
+ */
+export function resolveRange(range: ByteRange | undefined, totalSize: number): { start: number; end: number; partial: boolean } {
+  if (!range) {
+    return { start: 0, end: totalSize - 1, partial: false };
+  }
+
+  if (range.start >= totalSize) {
+    throw new Error(`Requested range not satisfiable (${RANGE_NOT_SATISFIABLE})`);
+  }
+
+  const end = range.end === undefined ? totalSize - 1 : Math.min(range.end, totalSize - 1);
+  return { start: range.start, end, partial: true };
+}
+
+/**
+ * Download the start of a file, e.g. to read its EXIF data or file signature
+ * @param provider - The provider holding the file
+ * @param filePath - The path to the file
+ * @param size - The file's size in bytes, which must be more than 0
+ * @param maxBytes - The most bytes to read
+ * @returns Up to maxBytes from the start of the file
+ */
+export async function downloadHead(provider: CloudProvider, filePath: string, size: number, maxBytes: number): Promise<Buffer> {
+  const { stream } = await provider.downloadFile(filePath, { start: 0, end: Math.min(size, maxBytes) - 1 });
+
+  // Stop reading once we have enough, in case the provider ignored the range
+  const chunks: Buffer[] = [];
+  let length = 0;
+  try {
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length >= maxBytes) {
+        break;
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+  return Buffer.concat(chunks).subarray(0, maxBytes);
+}
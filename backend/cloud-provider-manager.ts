@@ -1,8 +1,13 @@
 import DropboxProvider from './providers/dropbox-provider.js';
+import LocalFolderProvider from './providers/local-folder-provider.js';
+import GoogleDriveProvider from './providers/google-drive-provider.js';
+import OneDriveProvider from './providers/onedrive-provider.js';
+import S3Provider from './providers/s3-provider.js';
+import WebDavProvider from './providers/webdav-provider.js';
 import fs from 'fs';
 import EnvFileManager from './env-file-manager.js';
 import CloudProvider from './cloud-provider.js';
-import { Credentials, ProviderConfigs, ProviderInstances } from './types.js';
+import { Credentials, ProviderConfigs, ProviderInstances, UploadTarget } from './types.js';
 import { ThumbnailHandler } from './thumbnail-handler.js';
 
 class CloudProviderManager {
@@ -54,9 +59,9 @@ class CloudProviderManager {
       const trimmedLine = line.trim();
       if (!trimmedLine || trimmedLine.startsWith('#')) continue;
       
-      // Look for patterns like DROPBOX_APP_KEY_0
-      const match = trimmedLine.match(/^([A-Z_]+)_APP_KEY_(\d+)=/);
-      if (match) {
+      // Look for patterns like DROPBOX_APP_KEY_0 or LOCAL_ROOT_PATH_0
+      const match = trimmedLine.match(/^([A-Z0-9]+)_[A-Z0-9_]+_(\d+)=/);
+      if (match && this.isSupportedProviderType(match[1])) {
         const providerType = match[1].toLowerCase(); // Convert to lowercase for consistency
         const instanceIndex = parseInt(match[2]);
         
@@ -111,13 +116,7 @@ class CloudProviderManager {
       }
       
       const actualIndex = instanceIndex !== null ? instanceIndex : this.providers[providerType].length - 1;
-      const authenticated = this.addCredentials(providerType, actualIndex);
-      
-      if (!authenticated) {
-        console.log(`Failed to authenticate ${providerType} provider at index ${actualIndex}`);
-      } else {
-        ThumbnailHandler.addThumbnails(await provider.listFiles('', false, 2000, actualIndex));
-      }
+      await this.connectProvider(providerType, actualIndex);
       console.log(`Provider instance (${providerType}) added successfully at index ${actualIndex}`);
       console.log(`Current providers for ${providerType}:`, this.providers[providerType].map((p, i) => p ? `index ${i}: exists` : `index ${i}: null`));
       return provider;
@@ -127,6 +126,28 @@ class CloudProviderManager {
     }
   }
 
+  /**
+   * Authenticate a provider instance from its stored credentials and index its files
+   * if they are not in the photo index yet
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index for the provider
+   * @returns True if authentication was successful, false otherwise
+   */
+  async connectProvider(providerType: string, instanceIndex: number): Promise<boolean> {
+    const authenticated = this.addCredentials(providerType, instanceIndex);
+
+    if (!authenticated) {
+      console.log(`Failed to authenticate ${providerType} provider at index ${instanceIndex}`);
+    } else if (!(await ThumbnailHandler.hasThumbnails(providerType, instanceIndex))) {
+      const provider = this.getProvider(providerType, instanceIndex);
+      await ThumbnailHandler.addThumbnails(await provider.listFiles('', true, 2000, instanceIndex));
+    } else {
+      // Already indexed by an earlier run, the sync manager catches up with changes
+      console.log(`Using indexed photos for ${providerType} instance ${instanceIndex}`);
+    }
+    return authenticated;
+  }
+
   /**
    * Add credentials to a provider instance using environment variables
    * @param providerType - Type of the provider
@@ -139,15 +160,14 @@ class CloudProviderManager {
       const provider = this.getProvider(providerType, actualIndex);
       const patterns = provider.getEnvVariablePatterns(actualIndex);
       
-      // Extract credentials from .env file
-      const credentials: Credentials = {
-        appKey: EnvFileManager.getValue(patterns.appKey) || '',
-        appSecret: EnvFileManager.getValue(patterns.appSecret) || '',
-        accessToken: EnvFileManager.getValue(patterns.accessToken) || undefined,
-        refreshToken: EnvFileManager.getValue(patterns.refreshToken) || undefined
-      };
+      // Extract every credential the provider declares from .env file
+      const credentials: Credentials = {};
+      for (const [key, envVariable] of Object.entries(patterns)) {
+        credentials[key] = EnvFileManager.getValue(envVariable) || undefined;
+      }
       
       // Authenticate the provider
+      provider.setInstanceIndex(actualIndex);
       return provider.authenticate(credentials);
     } catch (error) {
       console.error(`Failed to add credentials for ${providerType} instance ${instanceIndex}:`, error instanceof Error ? error.message : 'Unknown error');
@@ -264,6 +284,33 @@ class CloudProviderManager {
     return provider;
   }
 
+  /**
+   * Find the writable, authenticated instance with the most free space
+   * @param requiredBytes - Space the new file needs
+   * @returns The chosen instance, or null if no instance has enough room
+   */
+  async findUploadTarget(requiredBytes: number): Promise<UploadTarget | null> {
+    let bestTarget: UploadTarget | null = null;
+
+    for (const [providerType, instances] of Object.entries(this.providers)) {
+      for (let i = 0; i < instances.length; i++) {
+        const provider = instances[i];
+        if (!provider || !provider.isAuthenticated() || !provider.supportsWrite()) continue;
+
+        try {
+          const freeBytes = await provider.getStorage();
+          if (freeBytes >= requiredBytes && (!bestTarget || freeBytes > bestTarget.freeBytes)) {
+            bestTarget = { providerType, instanceIndex: i, provider, freeBytes };
+          }
+        } catch (error) {
+          console.warn(`Skipping ${providerType} instance ${i} for upload:`, error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+    }
+
+    return bestTarget;
+  }
+
   /**
    * Get the provider class by type
    * @param providerType - Type of the provider
@@ -273,12 +320,36 @@ class CloudProviderManager {
     switch (providerType.toLowerCase()) {
       case 'dropbox':
         return DropboxProvider;
+      case 'local':
+        return LocalFolderProvider;
+      case 'googledrive':
+        return GoogleDriveProvider;
+      case 'onedrive':
+        return OneDriveProvider;
+      case 's3':
+        return S3Provider;
+      case 'webdav':
+        return WebDavProvider;
       // Add more providers here as they are implemented
       default:
         throw new Error(`Unsupported provider type: ${providerType}`);
     }
   }
 
+  /**
+   * Check whether a provider type has a registered provider class
+   * @param providerType - Type of the provider
+   * @returns True if the provider type is supported, false otherwise
+   */
+  isSupportedProviderType(providerType: string): boolean {
+    try {
+      this.getProviderClass(providerType);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Remove environment variables for a specific provider instance
    * and decrement all provider variable indexes greater than instanceIndex
@@ -346,8 +417,9 @@ class CloudProviderManager {
    * Remove a provider instance by index and decrement all the providers 
    * @param providerType - Type of the provider
    * @param instanceIndex - Instance index (0-based)
+   * @throws If the photo index could not be updated, in which case nothing is removed
    */
-  removeProvider(providerType: string, instanceIndex: number): void {
+  async removeProvider(providerType: string, instanceIndex: number): Promise<void> {
     const providerInstances = this.providers[providerType];
     
     // Check if provider type exists
@@ -363,10 +435,17 @@ class CloudProviderManager {
       return;
     }
 
+    // Update the index first, so a failure leaves the providers and .env as they were
+    await ThumbnailHandler.removeProvider(providerType, instanceIndex);
+
     // Remove the instance from the providers array
     providerInstances.splice(instanceIndex, 1);
-    ThumbnailHandler.removeProvider(providerType, instanceIndex);
-    
+
+    // Later instances move down one index, like their environment variables below
+    for (let i = instanceIndex; i < providerInstances.length; i++) {
+      providerInstances[i]?.setInstanceIndex(i);
+    }
+
     // Remove environment variables for the removed instance
     this.removeInstanceEnvVariable(providerType, instanceIndex);
             
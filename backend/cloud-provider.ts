@@ -1,4 +1,5 @@
-import { EnvVariablePatterns, TokenResponse, Credentials, StorageInfo, FileMetadata, FileDownloadResult, MediaInfoResult, AccountInfo, RefreshTokenResult, PhotoMetadata, ThumbnailResponse } from './types.js';
+import { Readable } from 'stream';
+import { EnvVariablePatterns, TokenResponse, Credentials, StorageInfo, FileMetadata, FileDownloadResult, MediaInfoResult, AccountInfo, RefreshTokenResult, PhotoMetadata, ThumbnailResponse, ByteRange, FileDownloadStream, FileChanges, ThumbnailOptions, MediaMetadata } from './types.js';
 
 export default class CloudProvider {
   constructor() {
@@ -23,6 +24,31 @@ export default class CloudProvider {
     throw new Error("getEnvVariablePatterns Not Implemented In Subclass");
   }
 
+  /**
+   * Tell the provider which instance it is. Providers that renew their own tokens
+   * use it to write them back to their environment variables.
+   * @param instanceIndex - The instance index (0-based)
+   */
+  setInstanceIndex(instanceIndex: number): void {
+  }
+
+  /**
+   * Whether this provider is connected through the OAuth authorize/callback flow.
+   * Providers returning false authenticate directly from their stored credentials.
+   * @returns True if the provider uses OAuth, false otherwise
+   */
+  usesOAuth(): boolean {
+    return true;
+  }
+
+  /**
+   * Get the credential keys that must be supplied when adding an instance
+   * @returns Keys of getEnvVariablePatterns that are required
+   */
+  getRequiredCredentialKeys(): string[] {
+    return ['appKey', 'appSecret'];
+  }
+
   /**
    * Get the OAuth authorization URL for this provider
    * @param appKey - The app key/client ID
@@ -81,10 +107,113 @@ export default class CloudProvider {
   /**
    * Get a thumbnail for a file
    * @param filePath - The path to the file
-   * @param size - The thumbnail size (optional, defaults to medium)
+   * @param options - Size preset, mode and format (optional, defaults to a 256px square JPEG).
+   * Providers that cannot honour an option return the closest thumbnail they have.
    * @returns Promise containing thumbnail data or error
    */
-  async getThumbnail(filePath: string, size?: string): Promise<ThumbnailResponse> {
+  async getThumbnail(filePath: string, options?: ThumbnailOptions): Promise<ThumbnailResponse> {
     throw new Error("getThumbnail Not Implemented In Subclass");
   }
+
+  /**
+   * Stream the original contents of a file
+   * @param filePath - The path to the file
+   * @param range - Optional byte range to fetch instead of the whole file
+   * @returns The content stream and the bytes it covers
+   */
+  async downloadFile(filePath: string, range?: ByteRange): Promise<FileDownloadStream> {
+    throw new Error("downloadFile Not Implemented In Subclass");
+  }
+
+  /**
+   * Get capture details the provider extracted itself, used when a file has no
+   * readable EXIF data
+   * @param filePath - The path to the file
+   * @returns The provider's media metadata, or null if it has none
+   */
+  async getMediaMetadata(filePath: string): Promise<MediaMetadata | null> {
+    return null;
+  }
+
+  /**
+   * Whether this provider can report changes since a cursor (listChanges)
+   * @returns True if the provider supports incremental sync, false otherwise
+   */
+  supportsChanges(): boolean {
+    return false;
+  }
+
+  /**
+   * List the files added, modified or removed since a cursor. Covers the same
+   * files as listFiles('', true), every folder included.
+   * @param cursor - The cursor returned by the previous call, or null to start over
+   * @param instanceIndex - The instance index stored on the returned metadata
+   * @returns The changes and the cursor to pass next time
+   */
+  async listChanges(cursor: string | null, instanceIndex: number): Promise<FileChanges> {
+    throw new Error("listChanges Not Implemented In Subclass");
+  }
+
+  /**
+   * Whether this provider implements the write operations (uploadFile, uploadStream, deleteFile, moveFile, renameFile)
+   * @returns True if files can be written to this provider, false otherwise
+   */
+  supportsWrite(): boolean {
+    return false;
+  }
+
+  /**
+   * Upload a file to the provider
+   * @param filePath - The destination path, including the file name
+   * @param data - The file contents
+   * @param instanceIndex - The instance index stored on the returned metadata
+   * @param modified - The modified date to give the file, e.g. when copying it from another instance
+   * (optional, defaults to now)
+   * @returns Metadata of the stored file (its path may differ if the name was taken)
+   */
+  async uploadFile(filePath: string, data: Buffer, instanceIndex: number, modified?: Date): Promise<PhotoMetadata> {
+    throw new Error("uploadFile Not Implemented In Subclass");
+  }
+
+  /**
+   * Upload a file as it is read, without holding all of it in memory
+   * @param filePath - The destination path, including the file name
+   * @param stream - The file contents
+   * @param instanceIndex - The instance index stored on the returned metadata
+   * @param modified - The modified date to give the file (optional, defaults to now)
+   * @returns Metadata of the stored file (its path may differ if the name was taken)
+   */
+  async uploadStream(filePath: string, stream: Readable, instanceIndex: number, modified?: Date): Promise<PhotoMetadata> {
+    throw new Error("uploadStream Not Implemented In Subclass");
+  }
+
+  /**
+   * Delete a file from the provider
+   * @param filePath - The path to the file
+   */
+  async deleteFile(filePath: string): Promise<void> {
+    throw new Error("deleteFile Not Implemented In Subclass");
+  }
+
+  /**
+   * Move a file to a new path on the same provider instance
+   * @param fromPath - The current path of the file
+   * @param toPath - The destination path, including the file name
+   * @param instanceIndex - The instance index stored on the returned metadata
+   * @returns Metadata of the file at its new path
+   */
+  async moveFile(fromPath: string, toPath: string, instanceIndex: number): Promise<PhotoMetadata> {
+    throw new Error("moveFile Not Implemented In Subclass");
+  }
+
+  /**
+   * Rename a file, keeping it in the same folder
+   * @param filePath - The current path of the file
+   * @param newName - The new file name
+   * @param instanceIndex - The instance index stored on the returned metadata
+   * @returns Metadata of the renamed file
+   */
+  async renameFile(filePath: string, newName: string, instanceIndex: number): Promise<PhotoMetadata> {
+    throw new Error("renameFile Not Implemented In Subclass");
+  }
 } 
\ No newline at end of file
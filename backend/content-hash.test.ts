@@ -0,0 +1,55 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { createContentHash, computeContentHash, hashFile } from './content-hash.js';
+import CloudProvider from './cloud-provider.js';
+
+const BLOCK_SIZE = 4 * 1024 * 1024;
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest();
+
+// The Dropbox definition, computed from whole blocks at once
+const expectedHash = (data: Buffer) => {
+  const digests: Buffer[] = [];
+  for (let start = 0; start < data.length; start += BLOCK_SIZE) {
+    digests.push(sha256(data.subarray(start, start + BLOCK_SIZE)));
+  }
+  return sha256(Buffer.concat(digests)).toString('hex');
+};
+
+// Two full blocks and a partial one, with contents that differ per block
+const data = Buffer.alloc(2 * BLOCK_SIZE + 12345);
+for (let i = 0; i < data.length; i++) {
+  data[i] = (i * 31 + (i >> 20)) & 0xff;
+}
+
+test('createContentHash matches the block hash however the data is chunked', () => {
+  for (const chunkSize of [data.length, BLOCK_SIZE, 1000003, 65536]) {
+    const hash = createContentHash();
+    for (let start = 0; start < data.length; start += chunkSize) {
+      hash.update(data.subarray(start, start + chunkSize));
+    }
+    assert.equal(hash.digest(), expectedHash(data), `chunks of ${chunkSize} bytes`);
+  }
+});
+
+test('createContentHash handles exact blocks and empty files', () => {
+  const exact = data.subarray(0, BLOCK_SIZE);
+  const hash = createContentHash();
+  hash.update(exact);
+  assert.equal(hash.digest(), expectedHash(exact));
+
+  // An empty file has no blocks, so its hash is the SHA-256 of nothing
+  assert.equal(createContentHash().digest(), sha256(Buffer.alloc(0)).toString('hex'));
+});
+
+test('hashFile streams the file from its provider', async () => {
+  const chunks = [data.subarray(0, 300000), data.subarray(300000, 5000000), data.subarray(5000000)];
+  const provider = {
+    downloadFile: async () => ({ stream: Readable.from(chunks) })
+  } as unknown as CloudProvider;
+
+  assert.equal(await hashFile(provider, '/photo.jpg'), expectedHash(data));
+  assert.equal(await computeContentHash(Readable.from([])), sha256(Buffer.alloc(0)).toString('hex'));
+});
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import CloudProvider from './cloud-provider.js';
+
+// Dropbox hashes files in 4 MB blocks
+const BLOCK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Start a content hash computed the way Dropbox computes content_hash: the SHA-256
+ * of the concatenated SHA-256 digests of each 4 MB block. Hashes computed here can
+ * be compared directly with the ones Dropbox lists.
+ * @returns Functions to feed the file's contents in order and to finish the hash
+ */
+export function createContentHash(): { update: (data: Buffer) => void; digest: () => string } {
+  const overall = crypto.createHash('sha256');
+  let block = crypto.createHash('sha256');
+  let blockLength = 0;
+
+  const update = (data: Buffer) => {
+    while (data.length > 0) {
+      const take = Math.min(data.length, BLOCK_SIZE - blockLength);
+      block.update(data.subarray(0, take));
+      blockLength += take;
+      data = data.subarray(take);
+
+      if (blockLength === BLOCK_SIZE) {
+        overall.update(block.digest());
+        block = crypto.createHash('sha256');
+        blockLength = 0;
+      }
+    }
+  };
+
+  const digest = () => {
+    if (blockLength > 0) {
+      overall.update(block.digest());
+    }
+    return overall.digest('hex');
+  };
+
+  return { update, digest };
+}
+
+/**
+ * Compute a file's content hash, see createContentHash
+ * @param stream - The file's contents
+ * @returns The hex content hash
+ */
+export async function computeContentHash(stream: Readable): Promise<string> {
+  const hash = createContentHash();
+  for await (const chunk of stream) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest();
+}
+
+/**
+ * Stream a file from its provider and hash it
+ * @param provider - The provider holding the file
+ * @param filePath - The path to the file
+ * @returns The content hash
+ */
+export async function hashFile(provider: CloudProvider, filePath: string): Promise<string> {
+  const { stream } = await provider.downloadFile(filePath);
+  try {
+    return await computeContentHash(stream);
+  } finally {
+    stream.destroy();
+  }
+}
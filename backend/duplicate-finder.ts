@@ -0,0 +1,121 @@
+import cloudProviderManager from './cloud-provider-manager.js';
+import photoIndex from './photo-index.js';
+import { hashFile } from './content-hash.js';
+import { PhotoMetadata, DuplicateGroup } from './types.js';
+
+// Hashing downloads whole files, so work through them a few at a time
+const BATCH_SIZE = 10;
+
+// How long to wait before looking for new candidates once everything is hashed
+const IDLE_SECONDS = 60;
+
+class DuplicateFinder {
+  private static instance: DuplicateFinder;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    if (DuplicateFinder.instance) {
+      return DuplicateFinder.instance;
+    }
+
+    DuplicateFinder.instance = this;
+  }
+
+  /**
+   * Start computing content hashes in the background for files whose provider lists none
+   */
+  start(): void {
+    const run = async () => {
+      const processed = await this.hashBatch();
+      this.timer = setTimeout(run, processed > 0 ? 0 : IDLE_SECONDS * 1000);
+    };
+
+    this.timer = setTimeout(run, 0);
+  }
+
+  /**
+   * Stop the background job
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Hash the next batch of candidate files from every authenticated instance. Only
+   * files sharing their size with another file are hashed, as nothing else can be
+   * an exact duplicate.
+   * @returns The number of files processed
+   */
+  async hashBatch(): Promise<number> {
+    let processed = 0;
+
+    for (const [providerType, instances] of Object.entries(cloudProviderManager.providers)) {
+      for (let i = 0; i < instances.length; i++) {
+        const provider = instances[i];
+        if (!provider || !provider.isAuthenticated()) {
+          continue;
+        }
+
+        for (const photo of photoIndex.getUnhashedPhotos(providerType, i, BATCH_SIZE)) {
+          // '' marks a file that could not be read
+          let contentHash = '';
+          try {
+            contentHash = await hashFile(provider, photo.path);
+          } catch (error) {
+            console.error(`Failed to hash ${photo.path}:`, error instanceof Error ? error.message : 'Unknown error');
+          }
+
+          // The instance may have been removed (shifting indexes) while we were reading
+          if (cloudProviderManager.providers[providerType]?.[i] !== provider) {
+            break;
+          }
+          photoIndex.setComputedHash(photo, contentHash);
+          processed++;
+        }
+      }
+    }
+
+    if (processed > 0) {
+      console.log(`Computed content hashes for ${processed} files`);
+    }
+    return processed;
+  }
+
+  /**
+   * Get a page of duplicate groups, the most wasted space first
+   * @param offset - Number of groups to skip
+   * @param limit - Maximum number of groups to return
+   * @returns The groups, each with every copy of the file
+   */
+  getDuplicateGroups(offset: number, limit: number): DuplicateGroup[] {
+    return photoIndex.getDuplicateGroups(offset, limit).map(({ contentHash, photos }) => {
+      const size = photos[0].size;
+      return {
+        contentHash,
+        size,
+        wastedBytes: size * (photos.length - 1),
+        photos: photos.map(photo => ({ ...photo, writable: this.isWritable(photo) }))
+      };
+    });
+  }
+
+  /**
+   * Count the files still waiting to be hashed
+   * @returns The number of files
+   */
+  countPendingHashes(): number {
+    return photoIndex.countUnhashedPhotos();
+  }
+
+  private isWritable(photo: PhotoMetadata): boolean {
+    const provider = cloudProviderManager.providers[photo.providerType]?.[photo.instanceIndex];
+    return !!provider && provider.isAuthenticated() && provider.supportsWrite();
+  }
+}
+
+// Export a singleton instance
+const duplicateFinder = new DuplicateFinder();
+export default duplicateFinder;
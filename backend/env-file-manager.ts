@@ -278,6 +278,16 @@ class EnvFileManager {
     }
   }
 
+  /**
+   * Get a server setting, from the process environment if it is set there and
+   * from the .env file otherwise
+   * @param key - The setting's name
+   * @returns The value, or undefined if it is set in neither
+   */
+  getSetting(key: string): string | undefined {
+    return process.env[key] ?? this.getValue(key) ?? undefined;
+  }
+
   /**
    * Create .env file if it doesn't exist
    * @returns True if file was created, false if it already exists
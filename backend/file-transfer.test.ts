@@ -0,0 +1,67 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import DropboxProvider from './providers/dropbox-provider.js';
+import CloudProvider from './cloud-provider.js';
+import { copyFile } from './file-transfer.js';
+import { computeContentHash } from './content-hash.js';
+import { PhotoMetadata } from './types.js';
+
+const MB = 1024 * 1024;
+
+// 20 MB read in 64 KB pieces, like a download stream
+const pieces = () => Array.from({ length: 320 }, (_piece, i) => Buffer.alloc(64 * 1024, i % 251));
+
+test('Dropbox uploadStream sends 8 MB chunks and commits the rest', async () => {
+  const provider = new DropboxProvider(false);
+  const calls: [string, number, number?][] = [];
+  (provider as any).dbx = {
+    filesUploadSessionStart: async ({ contents }: { contents: Buffer }) => {
+      calls.push(['start', contents.length]);
+      return { result: { session_id: 'session' } };
+    },
+    filesUploadSessionAppendV2: async ({ cursor, contents }: { cursor: { offset: number }; contents: Buffer }) => {
+      calls.push(['append', contents.length, cursor.offset]);
+    },
+    filesUploadSessionFinish: async ({ cursor, contents }: { cursor: { offset: number }; contents: Buffer }) => {
+      calls.push(['finish', contents.length, cursor.offset]);
+      return { result: { id: 'id:1', name: 'big.mp4', path_display: '/big.mp4', client_modified: '2020-01-01T00:00:00Z', size: 20 * MB } };
+    }
+  };
+
+  await provider.uploadStream('/big.mp4', Readable.from(pieces()), 0);
+  assert.deepEqual(calls, [['start', 8 * MB], ['append', 8 * MB, 8 * MB], ['finish', 4 * MB, 16 * MB]]);
+});
+
+test('copyFile hashes the file as it streams it to the target', async () => {
+  const data = Buffer.concat(pieces());
+  const expected = await computeContentHash(Readable.from([data]));
+  let uploaded: Buffer | null = null;
+  let uploadedModified: Date | undefined;
+  const deleted: string[] = [];
+
+  const source = { downloadFile: async () => ({ stream: Readable.from(pieces()) }) } as unknown as CloudProvider;
+  const target = {
+    uploadStream: async (filePath: string, stream: Readable, _instanceIndex: number, modified?: Date) => {
+      uploadedModified = modified;
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      uploaded = Buffer.concat(chunks);
+      return { path: filePath, hash: await computeContentHash(Readable.from([uploaded])) };
+    },
+    deleteFile: async (filePath: string) => {
+      deleted.push(filePath);
+    }
+  } as unknown as CloudProvider;
+  const photo = { path: '/big.mp4', date_taken: new Date(2019, 6, 4), modified: new Date(2020, 0, 1) } as PhotoMetadata;
+
+  const { contentHash } = await copyFile(source, target, photo, 1);
+  assert.equal(contentHash, expected);
+  assert.ok(uploaded !== null && data.equals(uploaded));
+  assert.deepEqual(uploadedModified, new Date(2020, 0, 1));
+
+  await assert.rejects(copyFile(source, target, photo, 1, 'not the hash'), /known content hash/);
+  assert.deepEqual(deleted, ['/big.mp4']);
+});
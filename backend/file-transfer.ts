@@ -0,0 +1,55 @@
+import { Readable } from 'stream';
+import CloudProvider from './cloud-provider.js';
+import { createContentHash, hashFile } from './content-hash.js';
+import { PhotoMetadata } from './types.js';
+
+/**
+ * Copy a file from one instance to another through the server, hashing it on the way.
+ * The file is streamed, never held in memory whole. A copy that does not match the
+ * original's content hash is deleted again.
+ * @param source - The provider holding the file
+ * @param target - The provider to copy it to
+ * @param photo - The indexed file
+ * @param targetInstanceIndex - Instance index of the target (0-based)
+ * @param expectedHash - The file's content hash if it is already known
+ * @returns The copy's metadata and the content hash both files share
+ */
+export async function copyFile(source: CloudProvider, target: CloudProvider, photo: PhotoMetadata, targetInstanceIndex: number,
+  expectedHash = photo.hash): Promise<{ copy: PhotoMetadata; contentHash: string }> {
+  const { stream } = await source.downloadFile(photo.path);
+  const hash = createContentHash();
+  const hashed = async function* () {
+    for await (const chunk of stream) {
+      hash.update(chunk as Buffer);
+      yield chunk as Buffer;
+    }
+  };
+
+  let copy: PhotoMetadata;
+  try {
+    // Keep the source's modified date; date_taken may already be the EXIF capture date
+    copy = await target.uploadStream(photo.path, Readable.from(hashed()), targetInstanceIndex, photo.modified ?? photo.date_taken);
+  } finally {
+    stream.destroy();
+  }
+  const contentHash = hash.digest();
+
+  // Listed hashes are computed the same way
+  let mismatch: string | null = null;
+  if (expectedHash && expectedHash !== contentHash) {
+    mismatch = 'The downloaded file does not match its known content hash';
+  } else if ((copy.hash ?? await hashFile(target, copy.path)) !== contentHash) {
+    mismatch = 'The copy does not match the original';
+  }
+
+  if (mismatch) {
+    try {
+      await target.deleteFile(copy.path);
+    } catch (error) {
+      console.error(`Failed to delete the bad copy ${copy.path}:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+    throw new Error(mismatch);
+  }
+
+  return { copy, contentHash };
+}
@@ -0,0 +1,95 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import mediaClassifier from './media-classifier.js';
+import cloudProviderManager from './cloud-provider-manager.js';
+import CloudProvider from './cloud-provider.js';
+import { ByteRange, PhotoMetadata } from './types.js';
+
+const file = (name: string, mimeType?: string, size = 1000): PhotoMetadata => ({
+  id: `id:${name}`,
+  name,
+  path: `/${name}`,
+  date_taken: new Date(2020, 0, 1),
+  size,
+  providerType: 'webdav',
+  instanceIndex: 0,
+  mimeType
+});
+
+// A file signature followed by padding, like the start of a real file
+const head = (signature: number[] | string, offset = 0) => {
+  const bytes = Buffer.alloc(64);
+  (typeof signature === 'string' ? Buffer.from(signature, 'latin1') : Buffer.from(signature)).copy(bytes, offset);
+  return bytes;
+};
+
+test('classifyByMetadata trusts specific MIME types, then the extension', () => {
+  assert.equal(mediaClassifier.classifyByMetadata(file('a.bin', 'image/jpeg; charset=binary')), 'image');
+  assert.equal(mediaClassifier.classifyByMetadata(file('a.nef', 'image/tiff')), 'raw');
+  assert.equal(mediaClassifier.classifyByMetadata(file('a', 'image/x-canon-cr2')), 'raw');
+  assert.equal(mediaClassifier.classifyByMetadata(file('a.jpg', 'video/mp4')), 'video');
+  assert.equal(mediaClassifier.classifyByMetadata(file('a.jpg', 'text/plain')), 'other');
+
+  // Generic MIME types say nothing, so the extension decides
+  assert.equal(mediaClassifier.classifyByMetadata(file('a.HEIC', 'application/octet-stream')), 'image');
+  assert.equal(mediaClassifier.classifyByMetadata(file('a.dng')), 'raw');
+  assert.equal(mediaClassifier.classifyByMetadata(file('a.mov')), 'video');
+  assert.equal(mediaClassifier.classifyByMetadata(file('notes.txt')), 'other');
+  assert.equal(mediaClassifier.classifyByMetadata(file('IMG_0001')), null);
+  assert.equal(mediaClassifier.classifyByMetadata(file('a.dat', 'application/octet-stream')), null);
+});
+
+test('classifyBySignature recognises image, raw and video signatures', () => {
+  const cases: [Buffer, string][] = [
+    [head([0xff, 0xd8, 0xff, 0xe0]), 'image'],
+    [head([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), 'image'],
+    [head('GIF89a'), 'image'],
+    [head('RIFF\0\0\0\0WEBP'), 'image'],
+    [head('RIFF\0\0\0\0WAVE'), 'other'],
+    [head('II*\0\x10\0\0\0CR'), 'raw'],
+    [head('MM\0*'), 'image'],
+    [head('FUJIFILMCCD-RAW'), 'raw'],
+    [head('ftypheic', 4), 'image'],
+    [head('ftypcrx ', 4), 'raw'],
+    [head('ftypisom', 4), 'video'],
+    [head('ftypM4A ', 4), 'other'],
+    [head('moov', 4), 'video'],
+    [Buffer.concat([head([0x1a, 0x45, 0xdf, 0xa3]), Buffer.from('webm')]), 'video'],
+    [head([0x1a, 0x45, 0xdf, 0xa3]), 'other'],
+    [Buffer.from('  <?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"/>'), 'image'],
+    [Buffer.from('<?xml version="1.0"?><rss/>'), 'other'],
+    [Buffer.from('%PDF-1.7'), 'other'],
+    [Buffer.alloc(0), 'other']
+  ];
+
+  for (const [bytes, expected] of cases) {
+    assert.equal(mediaClassifier.classifyBySignature(bytes), expected, bytes.subarray(0, 16).toString('latin1'));
+  }
+});
+
+test('classify sniffs unknown files once and skips entries without a size', async () => {
+  const reads: ByteRange[] = [];
+  const provider = {
+    downloadFile: async (_filePath: string, range: ByteRange) => {
+      reads.push(range);
+      return { stream: Readable.from([head([0xff, 0xd8, 0xff])]) };
+    }
+  } as unknown as CloudProvider;
+  cloudProviderManager.providers.webdav = [provider];
+
+  assert.equal(await mediaClassifier.classify(file('IMG_0001')), 'image');
+  assert.deepEqual(reads, [{ start: 0, end: 511 }]);
+
+  // Listed again unchanged, the remembered class is used
+  assert.equal(await mediaClassifier.classify(file('IMG_0001')), 'image');
+  assert.equal(reads.length, 1);
+
+  // Changed files are read again, and small files only up to their size
+  assert.equal(await mediaClassifier.classify(file('IMG_0001', undefined, 100)), 'image');
+  assert.deepEqual(reads[1], { start: 0, end: 99 });
+
+  assert.equal(await mediaClassifier.classify(file('folder', undefined, 0)), 'other');
+  assert.equal(await mediaClassifier.classify({ ...file('folder'), size: undefined as unknown as number }), 'other');
+  assert.equal(reads.length, 2);
+});
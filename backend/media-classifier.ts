@@ -0,0 +1,189 @@
+import path from 'path';
+import cloudProviderManager from './cloud-provider-manager.js';
+import { downloadHead } from './byte-range.js';
+import { PhotoMetadata, MediaClass } from './types.js';
+
+export const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.tiff', '.tif', '.svg', '.ico', '.heic', '.heif', '.avif'];
+
+export const RAW_EXTENSIONS = ['.raw', '.cr2', '.cr3', '.crw', '.nef', '.nrw', '.arw', '.srf', '.sr2', '.dng', '.orf', '.rw2',
+  '.raf', '.pef', '.srw', '.x3f', '.3fr', '.erf', '.kdc', '.mrw', '.rwl', '.iiq'];
+
+export const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v', '.webm', '.3gp'];
+
+// Common files that are never media, so they are not downloaded to find out
+const OTHER_EXTENSIONS = ['.txt', '.md', '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.odt', '.ods', '.odp', '.rtf',
+  '.csv', '.json', '.xml', '.html', '.htm', '.zip', '.rar', '.7z', '.gz', '.tar', '.exe', '.dmg', '.iso', '.mp3', '.m4a', '.wav',
+  '.flac', '.aac', '.ogg', '.xmp', '.aae', '.thm', '.db', '.ini'];
+
+// MIME types some servers send for any file they do not recognise
+const GENERIC_MIME_TYPES = ['application/octet-stream', 'binary/octet-stream', 'application/binary', 'application/unknown'];
+
+// Camera raw formats that are reported as their own image MIME types
+const RAW_MIME_TYPES = ['image/x-dcraw', 'image/x-raw', 'image/dng', 'image/x-adobe-dng', 'image/x-canon-cr2', 'image/x-canon-cr3',
+  'image/x-canon-crw', 'image/x-nikon-nef', 'image/x-nikon-nrw', 'image/x-sony-arw', 'image/x-sony-srf', 'image/x-sony-sr2',
+  'image/x-olympus-orf', 'image/x-panasonic-rw2', 'image/x-panasonic-raw', 'image/x-fuji-raf', 'image/x-pentax-pef',
+  'image/x-samsung-srw', 'image/x-sigma-x3f'];
+
+// Every signature below is found in this many bytes at the start of a file
+const SNIFF_BYTES = 512;
+
+// ISO base media file brands (bytes 8-11 after "ftyp")
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1', 'avif', 'avis'];
+const RAW_BRANDS = ['crx '];
+const VIDEO_BRANDS = ['isom', 'iso2', 'iso4', 'iso5', 'iso6', 'mp41', 'mp42', 'avc1', 'M4V ', 'M4VP', 'M4VH', 'qt  ', 'dash',
+  '3gp4', '3gp5', '3gp6', '3g2a', '3ge6', '3gg6', 'MSNV'];
+
+// QuickTime files without an ftyp box start with one of these atoms
+const QUICKTIME_ATOMS = ['moov', 'mdat', 'wide', 'free', 'skip', 'pnot'];
+
+/**
+ * Decides whether a listed file is an image, a camera raw, a video or something
+ * else, which keeps it out of the index. The provider's MIME type is trusted when it
+ * has one, then the extension; files with neither have their first bytes read.
+ */
+class MediaClassifier {
+  private static instance: MediaClassifier;
+  // Instances without change tracking are listed again on every sync, so sniffed files are not read twice
+  private sniffed = new Map<string, { size: number; modified: number; mediaClass: MediaClass }>();
+
+  constructor() {
+    if (MediaClassifier.instance) {
+      return MediaClassifier.instance;
+    }
+
+    MediaClassifier.instance = this;
+  }
+
+  /**
+   * Classify a listed file, reading its first bytes if the listing does not say what it is
+   * @param file - The file as listed by its provider
+   * @returns What kind of media the file holds
+   */
+  async classify(file: PhotoMetadata): Promise<MediaClass> {
+    return this.classifyByMetadata(file) ?? await this.sniff(file);
+  }
+
+  /**
+   * Classify a file from its MIME type and extension alone
+   * @param file - The file as listed by its provider
+   * @returns What kind of media the file holds, or null if that takes reading the file
+   */
+  classifyByMetadata(file: PhotoMetadata): MediaClass | null {
+    const extension = path.extname(file.name).toLowerCase();
+    const mimeType = file.mimeType?.split(';')[0].trim().toLowerCase();
+
+    if (mimeType && !GENERIC_MIME_TYPES.includes(mimeType)) {
+      if (mimeType.startsWith('image/')) {
+        // DNG and other TIFF-based raws are often reported as image/tiff
+        return RAW_MIME_TYPES.includes(mimeType) || RAW_EXTENSIONS.includes(extension) ? 'raw' : 'image';
+      }
+      return mimeType.startsWith('video/') ? 'video' : 'other';
+    }
+
+    if (RAW_EXTENSIONS.includes(extension)) {
+      return 'raw';
+    }
+    if (IMAGE_EXTENSIONS.includes(extension)) {
+      return 'image';
+    }
+    if (VIDEO_EXTENSIONS.includes(extension)) {
+      return 'video';
+    }
+    return OTHER_EXTENSIONS.includes(extension) ? 'other' : null;
+  }
+
+  /**
+   * Classify a file by the signature at its start
+   * @param head - The first bytes of the file
+   * @returns What kind of media the bytes belong to
+   */
+  classifyBySignature(head: Buffer): MediaClass {
+    const ascii = (start: number, end: number) => head.toString('latin1', start, end);
+
+    if (head.length >= 3 && head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) {
+      return 'image';
+    }
+    if (head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+      return 'image';
+    }
+    if (['GIF87a', 'GIF89a'].includes(ascii(0, 6)) || ascii(0, 2) === 'BM') {
+      return 'image';
+    }
+    if (ascii(0, 4) === 'RIFF') {
+      return ascii(8, 12) === 'WEBP' ? 'image' : 'other';
+    }
+    if (head.length >= 4 && head.readUInt32BE(0) === 0x00000100) {
+      return 'image'; // ICO
+    }
+
+    // TIFF, which most camera raws are built on; only some say which camera made them this early
+    if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') {
+      return ascii(8, 10) === 'CR' ? 'raw' : 'image';
+    }
+    if (['IIRO', 'IIRS', 'MMOR', 'IIU\0'].includes(ascii(0, 4)) || ascii(0, 15) === 'FUJIFILMCCD-RAW') {
+      return 'raw';
+    }
+
+    if (ascii(4, 8) === 'ftyp') {
+      const brand = ascii(8, 12);
+      if (HEIF_BRANDS.includes(brand)) {
+        return 'image';
+      }
+      if (RAW_BRANDS.includes(brand)) {
+        return 'raw';
+      }
+      return VIDEO_BRANDS.includes(brand) ? 'video' : 'other';
+    }
+    if (QUICKTIME_ATOMS.includes(ascii(4, 8))) {
+      return 'video';
+    }
+    // Matroska, of which browsers only play WebM
+    if (head.length >= 4 && head.readUInt32BE(0) === 0x1a45dfa3) {
+      return head.includes('webm', 0, 'latin1') ? 'video' : 'other';
+    }
+
+    const text = ascii(0, head.length).trimStart();
+    if ((text.startsWith('<?xml') || text.startsWith('<svg') || text.startsWith('<!--')) && text.includes('<svg')) {
+      return 'image';
+    }
+    return 'other';
+  }
+
+  /**
+   * Read the start of a file from its provider and classify it by signature
+   * @param file - The file as listed by its provider
+   * @returns What kind of media the file holds, or 'other' if it could not be read
+   */
+  private async sniff(file: PhotoMetadata): Promise<MediaClass> {
+    // Also covers entries a listing gives no size, such as folders
+    if (typeof file.size !== 'number' || !(file.size > 0)) {
+      return 'other';
+    }
+
+    const key = `${file.providerType}\0${file.instanceIndex}\0${file.path}`;
+    const modified = file.date_taken.getTime();
+    const known = this.sniffed.get(key);
+    if (known && known.size === file.size && known.modified === modified) {
+      return known.mediaClass;
+    }
+
+    const provider = cloudProviderManager.providers[file.providerType]?.[file.instanceIndex];
+    if (!provider) {
+      return 'other';
+    }
+
+    try {
+      const mediaClass = this.classifyBySignature(await downloadHead(provider, file.path, file.size, SNIFF_BYTES));
+      this.sniffed.set(key, { size: file.size, modified, mediaClass });
+      return mediaClass;
+    } catch (error) {
+      // Not remembered, so the next sync tries again
+      console.error(`Failed to read the start of ${file.path}:`, error instanceof Error ? error.message : 'Unknown error');
+      return 'other';
+    }
+  }
+}
+
+// Export a singleton instance
+const mediaClassifier = new MediaClassifier();
+export default mediaClassifier;
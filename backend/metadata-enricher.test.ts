@@ -0,0 +1,61 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import metadataEnricher from './metadata-enricher.js';
+import CloudProvider from './cloud-provider.js';
+import { ByteRange, MediaMetadata, PhotoMetadata } from './types.js';
+
+const photo = (name: string, size: number): PhotoMetadata => ({
+  id: `id:${name}`,
+  name,
+  path: `/${name}`,
+  date_taken: new Date(2024, 0, 1),
+  size,
+  providerType: 'local',
+  instanceIndex: 0,
+  mediaType: 'image'
+});
+
+const fakeProvider = (data: Buffer, media: MediaMetadata | null, reads: ByteRange[]) => ({
+  downloadFile: async (_filePath: string, range: ByteRange) => {
+    reads.push(range);
+    return { stream: Readable.from([data.subarray(range.start, range.end! + 1)]) };
+  },
+  getMediaMetadata: async () => media
+}) as unknown as CloudProvider;
+
+test('readMediaMetadata reads EXIF from the head of the file', async () => {
+  const jpeg = await sharp({ create: { width: 32, height: 16, channels: 3, background: '#808080' } })
+    .withExif({
+      IFD0: { Make: 'Canon ', Model: 'EOS R5' },
+      IFD2: { DateTimeOriginal: '2019:07:04 12:30:00' }
+    })
+    .jpeg()
+    .toBuffer();
+  const reads: ByteRange[] = [];
+  const provider = fakeProvider(jpeg, { dateSource: 'media_info', dateTaken: new Date(2000, 0, 1) }, reads);
+
+  const media = await metadataEnricher.readMediaMetadata(provider, photo('beach.jpg', jpeg.length));
+
+  assert.deepEqual(reads, [{ start: 0, end: jpeg.length - 1 }]);
+  assert.equal(media?.dateSource, 'exif');
+  assert.deepEqual(media?.dateTaken, new Date(2019, 6, 4, 12, 30));
+  assert.equal(media?.cameraMake, 'Canon');
+  assert.equal(media?.cameraModel, 'EOS R5');
+});
+
+test('readMediaMetadata falls back to the provider without an EXIF date', async () => {
+  const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#000000' } }).png().toBuffer();
+  const reads: ByteRange[] = [];
+  const providerMedia: MediaMetadata = { dateSource: 'media_info', dateTaken: new Date(2018, 1, 2), width: 8, height: 8 };
+
+  const media = await metadataEnricher.readMediaMetadata(fakeProvider(png, providerMedia, reads), photo('scan.png', png.length));
+  assert.equal(media?.dateSource, 'media_info');
+  assert.deepEqual(media?.dateTaken, new Date(2018, 1, 2));
+
+  // Files without EXIF support are not downloaded at all
+  reads.length = 0;
+  await metadataEnricher.readMediaMetadata(fakeProvider(png, providerMedia, reads), photo('clip.mp4', png.length));
+  assert.equal(reads.length, 0);
+});
@@ -0,0 +1,167 @@
+import path from 'path';
+import exifr from 'exifr';
+import cloudProviderManager from './cloud-provider-manager.js';
+import CloudProvider from './cloud-provider.js';
+import { downloadHead } from './byte-range.js';
+import { PhotoMetadata, MediaMetadata } from './types.js';
+import { ThumbnailHandler } from './thumbnail-handler.js';
+
+// Formats that carry EXIF data the parser can read
+const EXIF_EXTENSIONS = ['.jpg', '.jpeg', '.tif', '.tiff', '.heic', '.heif', '.avif', '.png', '.webp', '.dng'];
+
+// EXIF sits near the start of the file, so only the head is downloaded
+const EXIF_HEAD_BYTES = 256 * 1024;
+
+const BATCH_SIZE = 50;
+
+// How long to wait before looking for new photos once everything is enriched
+const IDLE_SECONDS = 30;
+
+class MetadataEnricher {
+  private static instance: MetadataEnricher;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    if (MetadataEnricher.instance) {
+      return MetadataEnricher.instance;
+    }
+
+    MetadataEnricher.instance = this;
+  }
+
+  /**
+   * Start reading capture metadata for indexed photos in the background
+   */
+  start(): void {
+    const run = async () => {
+      const processed = await this.enrichBatch();
+      this.timer = setTimeout(run, processed > 0 ? 0 : IDLE_SECONDS * 1000);
+    };
+
+    this.timer = setTimeout(run, 0);
+  }
+
+  /**
+   * Stop the background job
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Enrich the next batch of photos from every authenticated instance
+   * @returns The number of photos processed
+   */
+  async enrichBatch(): Promise<number> {
+    let processed = 0;
+
+    for (const [providerType, instances] of Object.entries(cloudProviderManager.providers)) {
+      for (let i = 0; i < instances.length; i++) {
+        const provider = instances[i];
+        if (!provider || !provider.isAuthenticated()) {
+          continue;
+        }
+
+        const photos = await ThumbnailHandler.getUnenrichedThumbnails(providerType, i, BATCH_SIZE);
+        for (const photo of photos) {
+          const media = await this.readMediaMetadata(provider, photo);
+
+          // The instance may have been removed (shifting indexes) while we were reading
+          if (cloudProviderManager.providers[providerType]?.[i] !== provider) {
+            break;
+          }
+          await ThumbnailHandler.updateMediaMetadata(photo, media);
+          processed++;
+        }
+      }
+    }
+
+    if (processed > 0) {
+      console.log(`Read capture metadata for ${processed} photos`);
+    }
+    return processed;
+  }
+
+  /**
+   * Read capture metadata from a photo's EXIF data, falling back to what the provider knows
+   * @param provider - The provider holding the photo
+   * @param photo - The indexed photo
+   * @returns The metadata, or null if none could be read
+   */
+  async readMediaMetadata(provider: CloudProvider, photo: PhotoMetadata): Promise<MediaMetadata | null> {
+    let media: MediaMetadata | null = null;
+
+    if (photo.size > 0 && EXIF_EXTENSIONS.includes(path.extname(photo.name).toLowerCase())) {
+      try {
+        media = await this.readExif(provider, photo);
+      } catch (error) {
+        console.error(`Failed to read EXIF data from ${photo.path}:`, error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    // Videos have no EXIF, so their length always comes from the provider
+    if (!media?.dateTaken || photo.mediaType === 'video') {
+      try {
+        const providerMedia = await provider.getMediaMetadata(photo.path);
+        if (providerMedia) {
+          media = {
+            dateTaken: media?.dateTaken ?? providerMedia.dateTaken,
+            dateSource: media?.dateTaken ? media.dateSource : providerMedia.dateSource,
+            cameraMake: media?.cameraMake ?? providerMedia.cameraMake,
+            cameraModel: media?.cameraModel ?? providerMedia.cameraModel,
+            width: media?.width ?? providerMedia.width,
+            height: media?.height ?? providerMedia.height,
+            orientation: media?.orientation ?? providerMedia.orientation,
+            duration: providerMedia.duration,
+            latitude: media?.latitude ?? providerMedia.latitude,
+            longitude: media?.longitude ?? providerMedia.longitude
+          };
+        }
+      } catch (error) {
+        console.error(`Failed to get media info for ${photo.path}:`, error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    return media;
+  }
+
+  /**
+   * Download the head of a file and parse its EXIF data
+   * @param provider - The provider holding the photo
+   * @param photo - The indexed photo
+   * @returns The metadata, or null if the file has no EXIF data
+   */
+  private async readExif(provider: CloudProvider, photo: PhotoMetadata): Promise<MediaMetadata | null> {
+    const head = await downloadHead(provider, photo.path, photo.size, EXIF_HEAD_BYTES);
+    // Keep numeric values, e.g. Orientation 6 instead of "Rotate 90 CW"
+    const exif = await exifr.parse(head, {
+      pick: ['DateTimeOriginal', 'CreateDate', 'Make', 'Model', 'ExifImageWidth', 'ExifImageHeight', 'ImageWidth', 'ImageHeight', 'Orientation',
+        'GPSLatitude', 'GPSLatitudeRef', 'GPSLongitude', 'GPSLongitudeRef'],
+      translateValues: false
+    });
+    if (!exif) {
+      return null;
+    }
+
+    const dateTaken = exif.DateTimeOriginal || exif.CreateDate;
+    return {
+      dateTaken: dateTaken instanceof Date && !isNaN(dateTaken.getTime()) ? dateTaken : undefined,
+      dateSource: 'exif',
+      cameraMake: typeof exif.Make === 'string' ? exif.Make.trim() : undefined,
+      cameraModel: typeof exif.Model === 'string' ? exif.Model.trim() : undefined,
+      width: exif.ExifImageWidth ?? exif.ImageWidth,
+      height: exif.ExifImageHeight ?? exif.ImageHeight,
+      orientation: exif.Orientation,
+      // Derived from the GPS tags, including their N/S and E/W references
+      latitude: typeof exif.latitude === 'number' && !isNaN(exif.latitude) ? exif.latitude : undefined,
+      longitude: typeof exif.longitude === 'number' && !isNaN(exif.longitude) ? exif.longitude : undefined
+    };
+  }
+}
+
+// Export a singleton instance
+const metadataEnricher = new MetadataEnricher();
+export default metadataEnricher;
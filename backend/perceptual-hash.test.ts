@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { computeDHash, parseDHash, hammingDistance } from './perceptual-hash.js';
+
+// Grayscale image whose pixels are given by a function of their position
+const picture = (width: number, height: number, shade: (x: number, y: number) => number) => {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels[y * width + x] = shade(x, y);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } });
+};
+
+// A diagonal gradient with a dark square, so the hash has both set and unset bits
+const scene = (x: number, y: number) =>
+  x > 320 && x < 480 && y > 120 && y < 240 ? 10 : Math.round(255 * (x + y) / 1120);
+
+test('computeDHash sets a bit wherever the right neighbour is brighter', async () => {
+  const brighterToTheRight = await picture(90, 80, x => x * 2).png().toBuffer();
+  const flat = await picture(90, 80, () => 128).png().toBuffer();
+
+  assert.equal(await computeDHash(brighterToTheRight), 'ffffffffffffffff');
+  assert.equal(await computeDHash(flat), '0000000000000000');
+});
+
+test('computeDHash gives resized and recompressed copies nearly the same hash', async () => {
+  const original = await computeDHash(await picture(640, 480, scene).png().toBuffer());
+  const copy = await computeDHash(await picture(640, 480, scene).resize(160, 120).jpeg({ quality: 40 }).toBuffer());
+  const mirrored = await computeDHash(await picture(640, 480, scene).flop().png().toBuffer());
+
+  assert.ok(hammingDistance(parseDHash(original), parseDHash(copy)) <= 4);
+  assert.ok(hammingDistance(parseDHash(original), parseDHash(mirrored)) > 16);
+});
+
+test('hammingDistance counts differing bits across both halves', () => {
+  assert.deepEqual(parseDHash('ffffffff00000001'), [0xffffffff, 1]);
+  assert.equal(hammingDistance(parseDHash('0000000000000000'), parseDHash('0000000000000000')), 0);
+  assert.equal(hammingDistance(parseDHash('8000000000000001'), parseDHash('0000000000000000')), 2);
+  assert.equal(hammingDistance(parseDHash('ffffffffffffffff'), parseDHash('0000000000000000')), 64);
+  assert.equal(hammingDistance(parseDHash('f0f0f0f0f0f0f0f0'), parseDHash('0f0f0f0f0f0f0f0f')), 64);
+});
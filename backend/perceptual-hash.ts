@@ -0,0 +1,56 @@
+import sharp from 'sharp';
+
+// dHash compares each pixel with its right neighbour on a 9x8 grayscale image, giving 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Compute the difference hash (dHash) of an image. Resized, recompressed or slightly
+ * edited copies of a photo have hashes only a few bits apart.
+ * @param image - Encoded image data, e.g. a thumbnail
+ * @returns The hash as 16 hex digits
+ */
+export async function computeDHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image, { failOn: 'none' })
+    .rotate()
+    .grayscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const offset = y * HASH_WIDTH + x;
+      byte = (byte << 1) | (pixels[offset] < pixels[offset + 1] ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+/**
+ * Split a hash into two 32-bit halves, which is faster to compare than the hex string
+ * @param hash - The hash as 16 hex digits
+ * @returns The high and low halves
+ */
+export function parseDHash(hash: string): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+}
+
+/**
+ * Count the bits that differ between two hashes
+ * @param a - The first hash, as returned by parseDHash
+ * @param b - The second hash, as returned by parseDHash
+ * @returns The Hamming distance, 0 to 64
+ */
+export function hammingDistance(a: [number, number], b: [number, number]): number {
+  return popCount(a[0] ^ b[0]) + popCount(a[1] ^ b[1]);
+}
+
+function popCount(value: number): number {
+  value = value - ((value >>> 1) & 0x55555555);
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+  return (((value + (value >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
@@ -0,0 +1,90 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import photoIndex from './photo-index.js';
+import albumStore from './album-store.js';
+import { PhotoMetadata, TimelineBucket } from './types.js';
+
+process.env.PHOTO_INDEX_PATH = ':memory:';
+
+const photo = (instanceIndex: number, filePath: string, providerType = 'local'): PhotoMetadata => ({
+  id: `id:${instanceIndex}:${filePath}`,
+  name: filePath.slice(1),
+  path: filePath,
+  date_taken: new Date(2020, 0, 1),
+  size: 100,
+  providerType,
+  instanceIndex,
+  mediaType: 'image'
+});
+
+test('removeInstance shifts later instances that hold the same paths', () => {
+  const db = photoIndex.getDatabase();
+  // Instance 2 is indexed first, so its rows come before instance 1's when updating
+  photoIndex.upsertPhotos([photo(2, '/two.jpg')]);
+  photoIndex.upsertPhotos([photo(0, '/zero.jpg'), photo(1, '/two.jpg')]);
+  const album = albumStore.createAlbum('Overlap');
+  albumStore.addPhotos(album.id, [{ providerType: 'local', instanceIndex: 2, path: '/two.jpg' }]);
+  for (const instanceIndex of [1, 2]) {
+    db.prepare('INSERT INTO photo_user_metadata (provider_type, instance_index, file_id, favorite) VALUES (?, ?, ?, 1)')
+      .run('local', instanceIndex, `id:${instanceIndex}:/two.jpg`);
+  }
+
+  photoIndex.removeInstance('local', 0);
+
+  const photos = db.prepare('SELECT instance_index, id FROM photos ORDER BY instance_index').all();
+  assert.deepEqual(photos, [
+    { instance_index: 0, id: 'id:1:/two.jpg' },
+    { instance_index: 1, id: 'id:2:/two.jpg' }
+  ]);
+  const metadata = db.prepare('SELECT instance_index, file_id FROM photo_user_metadata ORDER BY instance_index').all();
+  assert.deepEqual(metadata, [
+    { instance_index: 0, file_id: 'id:1:/two.jpg' },
+    { instance_index: 1, file_id: 'id:2:/two.jpg' }
+  ]);
+  assert.deepEqual(albumStore.getPhotos(album.id, 0, 10)?.map(albumPhoto => albumPhoto.id), ['id:2:/two.jpg']);
+});
+
+test('favorite=false leaves out favorites only', () => {
+  photoIndex.upsertPhotos([photo(0, '/liked.jpg', 'webdav'), photo(0, '/rated.jpg', 'webdav'), photo(0, '/plain.jpg', 'webdav')]);
+  const db = photoIndex.getDatabase();
+  db.prepare(`INSERT INTO photo_user_metadata (provider_type, instance_index, file_id, favorite) VALUES ('webdav', 0, ?, 1)`)
+    .run('id:0:/liked.jpg');
+  db.prepare(`INSERT INTO photo_user_metadata (provider_type, instance_index, file_id, rating) VALUES ('webdav', 0, ?, 3)`)
+    .run('id:0:/rated.jpg');
+
+  const paths = (favorite: boolean) => photoIndex.getPhotos(0, 10, { providerType: 'webdav', favorite }, { by: 'name', direction: 'asc' })
+    .map(found => found.path);
+  assert.deepEqual(paths(true), ['/liked.jpg']);
+  assert.deepEqual(paths(false), ['/plain.jpg', '/rated.jpg']);
+});
+
+test('getTimeline counts photos per month in the client time zone', () => {
+  const taken = (filePath: string, date: string): PhotoMetadata => ({ ...photo(0, filePath, 'timeline'), date_taken: new Date(date) });
+  photoIndex.upsertPhotos([
+    taken('/new-year.jpg', '2021-01-01T00:30:00Z'),
+    taken('/january.jpg', '2021-01-15T12:00:00Z'),
+    taken('/late-march.jpg', '2021-03-31T23:30:00Z'),
+    taken('/april.jpg', '2021-04-10T12:00:00Z')
+  ]);
+  const filter = { providerType: 'timeline' };
+  const months = (buckets: TimelineBucket[]) => buckets.map(({ year, month, count, offset }) => [year, month, count, offset]);
+
+  assert.deepEqual(months(photoIndex.getTimeline(filter, 'desc', 0)), [[2021, 4, 1, 0], [2021, 3, 1, 1], [2021, 1, 2, 2]]);
+  assert.deepEqual(months(photoIndex.getTimeline(filter, 'asc', 0)), [[2021, 1, 2, 0], [2021, 3, 1, 2], [2021, 4, 1, 3]]);
+  // An hour east of UTC the late March photo was taken in April, an hour west the New Year one in December
+  assert.deepEqual(months(photoIndex.getTimeline(filter, 'desc', 60)), [[2021, 4, 2, 0], [2021, 1, 2, 2]]);
+  assert.deepEqual(months(photoIndex.getTimeline(filter, 'desc', -60)), [[2021, 4, 1, 0], [2021, 3, 1, 1], [2021, 1, 1, 2], [2020, 12, 1, 3]]);
+});
+
+test('getDateOffset finds where a date falls in either order', () => {
+  const filter = { providerType: 'timeline' };
+  const march = new Date('2021-03-01T00:00:00Z');
+
+  // Newest first, the photos taken since March come before it
+  assert.equal(photoIndex.getDateOffset(march, filter, 'desc'), 2);
+  // Oldest first, the photos taken before March do
+  assert.equal(photoIndex.getDateOffset(march, filter, 'asc'), 2);
+  assert.equal(photoIndex.getDateOffset(new Date('2021-01-15T12:00:00Z'), filter, 'asc'), 1);
+  assert.equal(photoIndex.getDateOffset(new Date('2030-01-01T00:00:00Z'), filter, 'desc'), 0);
+  assert.equal(photoIndex.getDateOffset(new Date('2030-01-01T00:00:00Z'), { ...filter, name: 'april' }, 'asc'), 1);
+});
@@ -0,0 +1,861 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+import EnvFileManager from './env-file-manager.js';
+import { PhotoMetadata, PhotoRow, PhotoReference, MediaMetadata, MediaType, GeoBounds, GeoCluster, PhotoFilter, PhotoSort,
+  TimelineBucket } from './types.js';
+
+// The primary key also serves lookups by provider type and instance
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS photos (
+    provider_type TEXT NOT NULL,
+    instance_index INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    date_taken INTEGER NOT NULL,
+    size INTEGER NOT NULL,
+    hash TEXT,
+    PRIMARY KEY (provider_type, instance_index, path)
+  );
+  CREATE INDEX IF NOT EXISTS photos_date_taken ON photos (date_taken DESC, provider_type, instance_index, path);
+  CREATE INDEX IF NOT EXISTS photos_hash ON photos (hash);
+  CREATE INDEX IF NOT EXISTS photos_path ON photos (path);
+`;
+
+// Schema changes applied in order to older databases, tracked with PRAGMA user_version
+const MIGRATIONS = [
+  // 1: capture metadata read from EXIF or the provider's media info
+  `
+    ALTER TABLE photos ADD COLUMN date_source TEXT NOT NULL DEFAULT 'listing';
+    ALTER TABLE photos ADD COLUMN enriched INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE photos ADD COLUMN camera_make TEXT;
+    ALTER TABLE photos ADD COLUMN camera_model TEXT;
+    ALTER TABLE photos ADD COLUMN width INTEGER;
+    ALTER TABLE photos ADD COLUMN height INTEGER;
+    ALTER TABLE photos ADD COLUMN orientation INTEGER;
+    CREATE INDEX IF NOT EXISTS photos_enriched ON photos (provider_type, instance_index, enriched);
+  `,
+  // 2: videos alongside photos
+  `
+    ALTER TABLE photos ADD COLUMN media_type TEXT NOT NULL DEFAULT 'image';
+    ALTER TABLE photos ADD COLUMN duration INTEGER;
+  `,
+  // 3: the listing's modified date, and content hashes computed for providers that list none
+  `
+    ALTER TABLE photos ADD COLUMN modified INTEGER;
+    ALTER TABLE photos ADD COLUMN computed_hash TEXT;
+    UPDATE photos SET modified = date_taken WHERE date_source = 'listing';
+    CREATE INDEX IF NOT EXISTS photos_size ON photos (size);
+    CREATE INDEX IF NOT EXISTS photos_content_hash ON photos (COALESCE(hash, computed_hash));
+  `,
+  // 4: perceptual hashes of thumbnails, for finding near-duplicates
+  `
+    ALTER TABLE photos ADD COLUMN perceptual_hash TEXT;
+  `,
+  // 5: GPS location, read again for photos enriched before it was stored
+  `
+    ALTER TABLE photos ADD COLUMN latitude REAL;
+    ALTER TABLE photos ADD COLUMN longitude REAL;
+    CREATE INDEX IF NOT EXISTS photos_location ON photos (latitude, longitude) WHERE latitude IS NOT NULL;
+    UPDATE photos SET enriched = 0;
+  `,
+  // 6: albums, whose photos follow renames and instance re-indexing and vanish with the file
+  `
+    CREATE TABLE albums (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      sort_order TEXT NOT NULL DEFAULT 'date_desc',
+      cover_provider_type TEXT,
+      cover_instance_index INTEGER,
+      cover_path TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (cover_provider_type, cover_instance_index, cover_path)
+        REFERENCES photos (provider_type, instance_index, path) ON UPDATE CASCADE ON DELETE SET NULL
+    );
+    CREATE TABLE album_photos (
+      album_id INTEGER NOT NULL REFERENCES albums (id) ON DELETE CASCADE,
+      provider_type TEXT NOT NULL,
+      instance_index INTEGER NOT NULL,
+      path TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      PRIMARY KEY (album_id, provider_type, instance_index, path),
+      FOREIGN KEY (provider_type, instance_index, path)
+        REFERENCES photos (provider_type, instance_index, path) ON UPDATE CASCADE ON DELETE CASCADE
+    );
+    CREATE INDEX album_photos_photo ON album_photos (provider_type, instance_index, path);
+    CREATE INDEX albums_cover ON albums (cover_provider_type, cover_instance_index, cover_path);
+  `,
+  // 7: favorites, ratings and tags, keyed by the provider's file id so they survive renames and re-syncs
+  `
+    CREATE TABLE photo_user_metadata (
+      provider_type TEXT NOT NULL,
+      instance_index INTEGER NOT NULL,
+      file_id TEXT NOT NULL,
+      favorite INTEGER NOT NULL DEFAULT 0,
+      rating INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (provider_type, instance_index, file_id)
+    );
+    CREATE TABLE photo_tags (
+      provider_type TEXT NOT NULL,
+      instance_index INTEGER NOT NULL,
+      file_id TEXT NOT NULL,
+      tag TEXT NOT NULL COLLATE NOCASE,
+      PRIMARY KEY (provider_type, instance_index, file_id, tag)
+    );
+    CREATE INDEX photo_tags_tag ON photo_tags (tag);
+    CREATE INDEX photos_id ON photos (provider_type, instance_index, id);
+  `,
+  // 8: camera raws as their own media type; these were the raw extensions indexed as images before
+  `
+    UPDATE photos SET media_type = 'raw'
+    WHERE media_type = 'image' AND (lower(name) LIKE '%.raw' OR lower(name) LIKE '%.cr2' OR lower(name) LIKE '%.nef'
+      OR lower(name) LIKE '%.arw' OR lower(name) LIKE '%.dng');
+  `,
+  // 9: files being moved between instances by the rebalancer, kept so a restart can resume
+  `
+    CREATE TABLE rebalance_moves (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      provider_type TEXT NOT NULL,
+      instance_index INTEGER NOT NULL,
+      path TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      target_provider_type TEXT NOT NULL,
+      target_instance_index INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      content_hash TEXT,
+      target_path TEXT,
+      target_id TEXT,
+      target_modified INTEGER,
+      target_hash TEXT,
+      error TEXT
+    );
+    CREATE INDEX rebalance_moves_status ON rebalance_moves (status);
+  `,
+  // 10: how many instances should hold a copy of each file, for the library (no album) or an album
+  `
+    CREATE TABLE replication_policies (
+      album_id INTEGER REFERENCES albums (id) ON DELETE CASCADE,
+      copies INTEGER NOT NULL
+    );
+    CREATE UNIQUE INDEX replication_policies_album ON replication_policies (COALESCE(album_id, 0));
+  `
+];
+
+// User metadata outlives the rows of the photos table, so it is joined by file id
+const USER_METADATA_TABLES = ['photo_user_metadata', 'photo_tags'];
+
+const SORT_COLUMNS: { [field in PhotoSort['by']]: string } = {
+  date: 'date_taken',
+  name: 'name COLLATE NOCASE',
+  size: 'size'
+};
+
+// Columns filled in after listing, by the metadata enricher and the duplicate finders
+type DerivedColumn = 'date_source' | 'enriched' | 'camera_make' | 'camera_model' | 'width' | 'height' | 'orientation' | 'duration'
+  | 'computed_hash' | 'perceptual_hash' | 'latitude' | 'longitude';
+
+// A listed file is unchanged if its size, modified date and content hash still match the indexed row
+const UNCHANGED = 'photos.size = excluded.size AND photos.modified IS excluded.modified AND photos.hash IS excluded.hash';
+
+// The provider's content hash, or the one computed from the file's contents. An empty
+// computed hash marks a file that could not be read.
+const CONTENT_HASH = 'COALESCE(hash, computed_hash)';
+
+class PhotoIndex {
+  private static instance: PhotoIndex;
+  private db: Database.Database | null = null;
+
+  constructor() {
+    if (PhotoIndex.instance) {
+      return PhotoIndex.instance;
+    }
+
+    PhotoIndex.instance = this;
+  }
+
+  /**
+   * Get the database, opening it on first use. It lives next to the .env file
+   * unless PHOTO_INDEX_PATH is set.
+   * @returns The open database
+   */
+  getDatabase(): Database.Database {
+    if (!this.db) {
+      const dbPath = EnvFileManager.getSetting('PHOTO_INDEX_PATH')
+        || path.join(path.dirname(EnvFileManager.envFilePath), 'photo-index.db');
+
+      this.db = new Database(dbPath);
+      this.db.pragma('journal_mode = WAL');
+      // Album membership relies on cascading deletes and updates
+      this.db.pragma('foreign_keys = ON');
+      this.db.exec(SCHEMA);
+      this.migrate(this.db);
+      console.log(`Opened photo index at ${dbPath}`);
+    }
+    return this.db;
+  }
+
+  /**
+   * Insert photos, updating any already indexed at the same path. Capture metadata
+   * is kept for files that have not changed since it was read.
+   * @param photos - The photos to store
+   */
+  upsertPhotos(photos: PhotoMetadata[]): void {
+    const db = this.getDatabase();
+    const insert = db.prepare(`
+      INSERT INTO photos (provider_type, instance_index, path, id, name, date_taken, size, hash, media_type, modified)
+      VALUES (@provider_type, @instance_index, @path, @id, @name, @date_taken, @size, @hash, @media_type, @modified)
+      ON CONFLICT (provider_type, instance_index, path) DO UPDATE SET
+        id = excluded.id,
+        name = excluded.name,
+        media_type = excluded.media_type,
+        date_taken = CASE WHEN ${UNCHANGED} AND photos.date_source != 'listing' THEN photos.date_taken ELSE excluded.date_taken END,
+        date_source = CASE WHEN ${UNCHANGED} THEN photos.date_source ELSE 'listing' END,
+        enriched = CASE WHEN ${UNCHANGED} THEN photos.enriched ELSE 0 END,
+        camera_make = CASE WHEN ${UNCHANGED} THEN photos.camera_make ELSE NULL END,
+        camera_model = CASE WHEN ${UNCHANGED} THEN photos.camera_model ELSE NULL END,
+        width = CASE WHEN ${UNCHANGED} THEN photos.width ELSE NULL END,
+        height = CASE WHEN ${UNCHANGED} THEN photos.height ELSE NULL END,
+        orientation = CASE WHEN ${UNCHANGED} THEN photos.orientation ELSE NULL END,
+        duration = CASE WHEN ${UNCHANGED} THEN photos.duration ELSE NULL END,
+        computed_hash = CASE WHEN ${UNCHANGED} THEN photos.computed_hash ELSE NULL END,
+        perceptual_hash = CASE WHEN ${UNCHANGED} THEN photos.perceptual_hash ELSE NULL END,
+        latitude = CASE WHEN ${UNCHANGED} THEN photos.latitude ELSE NULL END,
+        longitude = CASE WHEN ${UNCHANGED} THEN photos.longitude ELSE NULL END,
+        modified = excluded.modified,
+        size = excluded.size,
+        hash = excluded.hash
+    `);
+
+    db.transaction(() => {
+      for (const photo of photos) {
+        insert.run(this.toRow(photo));
+      }
+    })();
+  }
+
+  /**
+   * Replace everything indexed for an instance with a fresh listing
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index (0-based)
+   * @param photos - The complete set of photos for the instance
+   */
+  replaceInstance(providerType: string, instanceIndex: number, photos: PhotoMetadata[]): void {
+    const db = this.getDatabase();
+    db.transaction(() => {
+      // Upsert rather than clear, so unchanged files keep their capture metadata
+      const listedPaths = new Set(photos.map(photo => photo.path));
+      const indexedPaths = db.prepare('SELECT path FROM photos WHERE provider_type = ? AND instance_index = ?')
+        .pluck().all(providerType, instanceIndex) as string[];
+      const remove = db.prepare('DELETE FROM photos WHERE provider_type = ? AND instance_index = ? AND path = ?');
+      for (const indexedPath of indexedPaths) {
+        if (!listedPaths.has(indexedPath)) {
+          remove.run(providerType, instanceIndex, indexedPath);
+        }
+      }
+      this.upsertPhotos(photos);
+    })();
+  }
+
+  /**
+   * Move an indexed photo to its new path, keeping its derived metadata, album memberships
+   * and user metadata
+   * @param oldPath - The path the photo was indexed under
+   * @param photo - The photo at its new path
+   */
+  movePhoto(oldPath: string, photo: PhotoMetadata): void {
+    const db = this.getDatabase();
+    db.transaction(() => {
+      // Providers without stable file ids derive them from the path
+      const oldId = db.prepare('SELECT id FROM photos WHERE provider_type = ? AND instance_index = ? AND path = ?')
+        .pluck().get(photo.providerType, photo.instanceIndex, oldPath) as string | undefined;
+      if (oldId !== undefined && oldId !== photo.id) {
+        for (const table of USER_METADATA_TABLES) {
+          db.prepare(`UPDATE OR REPLACE ${table} SET file_id = ? WHERE provider_type = ? AND instance_index = ? AND file_id = ?`)
+            .run(photo.id, photo.providerType, photo.instanceIndex, oldId);
+        }
+      }
+
+      if (oldPath !== photo.path) {
+        // Anything indexed at the destination was overwritten
+        db.prepare('DELETE FROM photos WHERE provider_type = ? AND instance_index = ? AND path = ?')
+          .run(photo.providerType, photo.instanceIndex, photo.path);
+        db.prepare('UPDATE photos SET path = ? WHERE provider_type = ? AND instance_index = ? AND path = ?')
+          .run(photo.path, photo.providerType, photo.instanceIndex, oldPath);
+      }
+      this.upsertPhotos([photo]);
+    })();
+  }
+
+  /**
+   * Point an indexed photo at an identical copy on another instance, keeping its derived
+   * metadata, album memberships and user metadata
+   * @param photo - The photo as indexed on its old instance
+   * @param copy - The copy it was replaced with
+   */
+  transferPhoto(photo: PhotoMetadata, copy: PhotoMetadata): void {
+    const db = this.getDatabase();
+    db.transaction(() => {
+      for (const table of USER_METADATA_TABLES) {
+        db.prepare(`
+          UPDATE OR REPLACE ${table} SET provider_type = ?, instance_index = ?, file_id = ?
+          WHERE provider_type = ? AND instance_index = ? AND file_id = ?
+        `).run(copy.providerType, copy.instanceIndex, copy.id, photo.providerType, photo.instanceIndex, photo.id);
+      }
+
+      // A sync may already have indexed the copy on its own
+      db.prepare('DELETE FROM photos WHERE provider_type = ? AND instance_index = ? AND path = ?')
+        .run(copy.providerType, copy.instanceIndex, copy.path);
+      // The listing fields are the copy's, so later syncs see it as unchanged
+      db.prepare(`
+        UPDATE photos SET provider_type = @providerType, instance_index = @instanceIndex, path = @path,
+          id = @id, name = @name, hash = @hash, modified = @modified
+        WHERE provider_type = @oldProviderType AND instance_index = @oldInstanceIndex AND path = @oldPath
+      `).run({
+        providerType: copy.providerType,
+        instanceIndex: copy.instanceIndex,
+        path: copy.path,
+        id: copy.id,
+        name: copy.name,
+        hash: copy.hash ?? null,
+        modified: copy.date_taken.getTime(),
+        oldProviderType: photo.providerType,
+        oldInstanceIndex: photo.instanceIndex,
+        oldPath: photo.path
+      });
+    })();
+  }
+
+  /**
+   * Drop a removed instance and shift the instances after it down by one,
+   * matching how the manager re-indexes its provider arrays
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index (0-based)
+   */
+  removeInstance(providerType: string, instanceIndex: number): void {
+    const db = this.getDatabase();
+    // SQLite checks the primary key after each row, so shifting in place fails when a later
+    // instance holds the same path as the one below it. Going through negative indexes first
+    // never collides. Album photos and covers follow the photos table through ON UPDATE CASCADE.
+    const shiftDown = (table: string, typeColumn: string, indexColumn: string) => {
+      db.prepare(`UPDATE ${table} SET ${indexColumn} = -${indexColumn} WHERE ${typeColumn} = ? AND ${indexColumn} > ?`)
+        .run(providerType, instanceIndex);
+      db.prepare(`UPDATE ${table} SET ${indexColumn} = -${indexColumn} - 1 WHERE ${typeColumn} = ? AND ${indexColumn} < 0`)
+        .run(providerType);
+    };
+
+    db.transaction(() => {
+      for (const table of ['photos', ...USER_METADATA_TABLES]) {
+        db.prepare(`DELETE FROM ${table} WHERE provider_type = ? AND instance_index = ?`).run(providerType, instanceIndex);
+        shiftDown(table, 'provider_type', 'instance_index');
+      }
+
+      // Moves from or to the removed instance can no longer be made
+      db.prepare(`
+        DELETE FROM rebalance_moves
+        WHERE (provider_type = @providerType AND instance_index = @instanceIndex)
+          OR (target_provider_type = @providerType AND target_instance_index = @instanceIndex)
+      `).run({ providerType, instanceIndex });
+      shiftDown('rebalance_moves', 'provider_type', 'instance_index');
+      shiftDown('rebalance_moves', 'target_provider_type', 'target_instance_index');
+    })();
+  }
+
+  /**
+   * Remove files and everything below them
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index (0-based)
+   * @param paths - File or folder paths to remove
+   */
+  removePaths(providerType: string, instanceIndex: number, paths: string[]): void {
+    const db = this.getDatabase();
+    const remove = db.prepare(`
+      DELETE FROM photos
+      WHERE provider_type = @providerType AND instance_index = @instanceIndex
+        AND (path = @path OR substr(path, 1, length(@folder)) = @folder)
+    `);
+
+    db.transaction(() => {
+      for (const filePath of paths) {
+        remove.run({ providerType, instanceIndex, path: filePath, folder: filePath + '/' });
+      }
+    })();
+  }
+
+  /**
+   * Store capture metadata read from a file. The capture date replaces the listing
+   * date, which moves the photo to its place in the timeline.
+   * @param photo - The indexed photo
+   * @param media - The metadata that was found, or null if there was none
+   */
+  setMediaMetadata(photo: PhotoMetadata, media: MediaMetadata | null): void {
+    this.getDatabase().prepare(`
+      UPDATE photos SET
+        enriched = 1,
+        date_taken = COALESCE(@date_taken, date_taken),
+        date_source = COALESCE(@date_source, date_source),
+        camera_make = @camera_make,
+        camera_model = @camera_model,
+        width = @width,
+        height = @height,
+        orientation = @orientation,
+        duration = @duration,
+        latitude = @latitude,
+        longitude = @longitude
+      WHERE provider_type = @provider_type AND instance_index = @instance_index AND path = @path
+    `).run({
+      provider_type: photo.providerType,
+      instance_index: photo.instanceIndex,
+      path: photo.path,
+      date_taken: media?.dateTaken ? media.dateTaken.getTime() : null,
+      date_source: media?.dateTaken ? media.dateSource : null,
+      camera_make: media?.cameraMake ?? null,
+      camera_model: media?.cameraModel ?? null,
+      width: media?.width ?? null,
+      height: media?.height ?? null,
+      orientation: media?.orientation ?? null,
+      duration: media?.duration ?? null,
+      latitude: media?.latitude ?? null,
+      longitude: media?.longitude ?? null
+    });
+  }
+
+  /**
+   * Get photos of an instance whose capture metadata has not been read yet
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index (0-based)
+   * @param limit - Maximum number of photos to return
+   * @returns The photos to enrich
+   */
+  getUnenrichedPhotos(providerType: string, instanceIndex: number, limit: number): PhotoMetadata[] {
+    const rows = this.getDatabase()
+      .prepare('SELECT * FROM photos WHERE provider_type = ? AND instance_index = ? AND enriched = 0 LIMIT ?')
+      .all(providerType, instanceIndex, limit) as PhotoRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Get photos of an instance that need a content hash computed: the provider lists
+   * none, and another indexed file has the same size, so they could be duplicates
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index (0-based)
+   * @param limit - Maximum number of photos to return
+   * @returns The photos to hash
+   */
+  getUnhashedPhotos(providerType: string, instanceIndex: number, limit: number): PhotoMetadata[] {
+    const rows = this.getDatabase().prepare(`
+      SELECT * FROM photos AS p
+      WHERE p.provider_type = ? AND p.instance_index = ? AND p.hash IS NULL AND p.computed_hash IS NULL
+        AND EXISTS (
+          SELECT 1 FROM photos AS q
+          WHERE q.size = p.size
+            AND NOT (q.provider_type = p.provider_type AND q.instance_index = p.instance_index AND q.path = p.path)
+        )
+      LIMIT ?
+    `).all(providerType, instanceIndex, limit) as PhotoRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Count the photos across all instances still waiting for a content hash
+   * @returns The number of photos
+   */
+  countUnhashedPhotos(): number {
+    return this.getDatabase().prepare(`
+      SELECT COUNT(*) FROM photos AS p
+      WHERE p.hash IS NULL AND p.computed_hash IS NULL
+        AND EXISTS (
+          SELECT 1 FROM photos AS q
+          WHERE q.size = p.size
+            AND NOT (q.provider_type = p.provider_type AND q.instance_index = p.instance_index AND q.path = p.path)
+        )
+    `).pluck().get() as number;
+  }
+
+  /**
+   * Store the content hash computed for a photo
+   * @param photo - The indexed photo
+   * @param contentHash - The hash, or '' if the file could not be read
+   */
+  setComputedHash(photo: PhotoMetadata, contentHash: string): void {
+    this.getDatabase()
+      .prepare('UPDATE photos SET computed_hash = ? WHERE provider_type = ? AND instance_index = ? AND path = ?')
+      .run(contentHash, photo.providerType, photo.instanceIndex, photo.path);
+  }
+
+  /**
+   * Get a page of content hashes shared by more than one file, the most wasted space first
+   * @param offset - Number of groups to skip
+   * @param limit - Maximum number of groups to return
+   * @returns Each shared hash with the photos that have it
+   */
+  getDuplicateGroups(offset: number, limit: number): { contentHash: string; photos: PhotoMetadata[] }[] {
+    const db = this.getDatabase();
+    const hashes = db.prepare(`
+      SELECT ${CONTENT_HASH} AS content_hash FROM photos
+      WHERE ${CONTENT_HASH} IS NOT NULL AND ${CONTENT_HASH} != ''
+      GROUP BY ${CONTENT_HASH}
+      HAVING COUNT(*) > 1
+      ORDER BY SUM(size) - MIN(size) DESC, content_hash
+      LIMIT ? OFFSET ?
+    `).pluck().all(limit, offset) as string[];
+
+    const getPhotos = db.prepare(`
+      SELECT * FROM photos WHERE ${CONTENT_HASH} = ?
+      ORDER BY date_taken, provider_type, instance_index, path
+    `);
+    return hashes.map(contentHash => ({
+      contentHash,
+      photos: (getPhotos.all(contentHash) as PhotoRow[]).map(row => this.fromRow(row))
+    }));
+  }
+
+  /**
+   * Get the instances holding a file with the same contents as a photo, its own included
+   * @param photo - The indexed photo
+   * @returns The instances, or only the photo's own if its content hash is not known
+   */
+  getCopyInstances(photo: PhotoReference): Omit<PhotoReference, 'path'>[] {
+    const rows = this.getDatabase().prepare(`
+      SELECT DISTINCT q.provider_type, q.instance_index FROM photos AS p
+      JOIN photos AS q ON COALESCE(q.hash, q.computed_hash) = COALESCE(p.hash, p.computed_hash)
+      WHERE p.provider_type = ? AND p.instance_index = ? AND p.path = ? AND COALESCE(p.hash, p.computed_hash) != ''
+    `).all(photo.providerType, photo.instanceIndex, photo.path) as { provider_type: string; instance_index: number }[];
+
+    if (rows.length === 0) {
+      return [{ providerType: photo.providerType, instanceIndex: photo.instanceIndex }];
+    }
+    return rows.map(row => ({ providerType: row.provider_type, instanceIndex: row.instance_index }));
+  }
+
+  /**
+   * Get images and raws of an instance whose perceptual hash has not been computed yet
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index (0-based)
+   * @param limit - Maximum number of photos to return
+   * @returns The photos to hash
+   */
+  getPhotosWithoutPerceptualHash(providerType: string, instanceIndex: number, limit: number): PhotoMetadata[] {
+    const rows = this.getDatabase().prepare(`
+      SELECT * FROM photos
+      WHERE provider_type = ? AND instance_index = ? AND media_type IN ('image', 'raw') AND perceptual_hash IS NULL
+      LIMIT ?
+    `).all(providerType, instanceIndex, limit) as PhotoRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Count the images and raws across all instances still waiting for a perceptual hash
+   * @returns The number of photos
+   */
+  countPhotosWithoutPerceptualHash(): number {
+    return this.getDatabase()
+      .prepare(`SELECT COUNT(*) FROM photos WHERE media_type IN ('image', 'raw') AND perceptual_hash IS NULL`)
+      .pluck().get() as number;
+  }
+
+  /**
+   * Store the perceptual hash computed for a photo
+   * @param photo - The indexed photo
+   * @param perceptualHash - The hash, or '' if no thumbnail could be read
+   */
+  setPerceptualHash(photo: PhotoMetadata, perceptualHash: string): void {
+    this.getDatabase()
+      .prepare('UPDATE photos SET perceptual_hash = ? WHERE provider_type = ? AND instance_index = ? AND path = ?')
+      .run(perceptualHash, photo.providerType, photo.instanceIndex, photo.path);
+  }
+
+  /**
+   * Get every photo that has a perceptual hash
+   * @returns Each photo with its perceptual hash and content hash
+   */
+  getPerceptualHashes(): { photo: PhotoMetadata; perceptualHash: string; contentHash: string | null }[] {
+    const rows = this.getDatabase()
+      .prepare(`SELECT * FROM photos WHERE perceptual_hash IS NOT NULL AND perceptual_hash != ''`)
+      .all() as PhotoRow[];
+    return rows.map(row => ({
+      photo: this.fromRow(row),
+      perceptualHash: row.perceptual_hash!,
+      contentHash: row.hash || row.computed_hash || null
+    }));
+  }
+
+  /**
+   * Count photos per month of their capture date
+   * @param filter - Conditions the photos must meet
+   * @param direction - desc for newest first, as the library is sorted by default
+   * @param utcOffset - Minutes east of UTC of the time zone months are counted in
+   * @returns One bucket per month with photos, in the given order
+   */
+  getTimeline(filter: PhotoFilter, direction: PhotoSort['direction'], utcOffset: number): TimelineBucket[] {
+    const rows = this.getDatabase().prepare(`
+      SELECT strftime('%Y-%m', date_taken / 1000, 'unixepoch', @shift) AS month, COUNT(*) AS count
+      FROM photos
+      WHERE ${this.filterCondition(filter)}
+      GROUP BY month
+      ORDER BY month ${direction === 'asc' ? 'ASC' : 'DESC'}
+    `).all({ ...this.filterParameters(filter), shift: `${utcOffset >= 0 ? '+' : ''}${utcOffset} minutes` }) as { month: string; count: number }[];
+
+    let offset = 0;
+    return rows.map(row => {
+      const [year, month] = row.month.split('-').map(Number);
+      const bucket = { year, month, count: row.count, offset };
+      offset += row.count;
+      return bucket;
+    });
+  }
+
+  /**
+   * Find where a date falls in the library sorted by capture date
+   * @param date - The date to look for
+   * @param filter - Conditions the photos must meet
+   * @param direction - desc for newest first, as the library is sorted by default
+   * @returns The position of the first photo taken before the date (newest first) or
+   *   at or after it (oldest first)
+   */
+  getDateOffset(date: Date, filter: PhotoFilter, direction: PhotoSort['direction']): number {
+    return this.getDatabase().prepare(`
+      SELECT COUNT(*) FROM photos
+      WHERE ${this.filterCondition(filter)} AND date_taken ${direction === 'asc' ? '<' : '>='} @date
+    `).pluck().get({ ...this.filterParameters(filter), date: date.getTime() }) as number;
+  }
+
+  /**
+   * Group the geotagged photos in a box into grid cells
+   * @param bounds - The box to search
+   * @param cellDegrees - Width and height of a grid cell in degrees
+   * @returns One cluster per non-empty cell
+   */
+  getGeoClusters(bounds: GeoBounds, cellDegrees: number): GeoCluster[] {
+    // Offsetting to positive values lets CAST truncate like floor()
+    const rows = this.getDatabase().prepare(`
+      SELECT COUNT(*) AS count, AVG(latitude) AS avg_latitude, AVG(longitude) AS avg_longitude,
+        MIN(latitude) AS south, MAX(latitude) AS north, MIN(longitude) AS west, MAX(longitude) AS east,
+        MAX(date_taken) AS newest, *
+      FROM photos
+      WHERE ${this.boundsCondition(bounds)}
+      GROUP BY CAST((latitude + 90) / @cell AS INTEGER), CAST((longitude + 180) / @cell AS INTEGER)
+    `).all({ ...bounds, cell: cellDegrees }) as (PhotoRow & {
+      count: number; avg_latitude: number; avg_longitude: number; south: number; north: number; west: number; east: number;
+    })[];
+
+    // With MAX() SQLite takes the other columns from the newest photo in each cell
+    return rows.map(row => ({
+      latitude: row.avg_latitude,
+      longitude: row.avg_longitude,
+      count: row.count,
+      bounds: { north: row.north, south: row.south, east: row.east, west: row.west },
+      photo: this.fromRow(row)
+    }));
+  }
+
+  /**
+   * Get a page of the geotagged photos in a box, newest first
+   * @param bounds - The box to search
+   * @param offset - Number of photos to skip
+   * @param limit - Maximum number of photos to return
+   * @returns The photos on the page
+   */
+  getPhotosInBounds(bounds: GeoBounds, offset: number, limit: number): PhotoMetadata[] {
+    const rows = this.getDatabase().prepare(`
+      SELECT * FROM photos
+      WHERE ${this.boundsCondition(bounds)}
+      ORDER BY date_taken DESC, provider_type, instance_index, path
+      LIMIT @limit OFFSET @offset
+    `).all({ ...bounds, offset, limit }) as PhotoRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Check whether anything has been indexed for an instance
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index (0-based)
+   * @returns True if the instance has at least one photo indexed
+   */
+  hasInstance(providerType: string, instanceIndex: number): boolean {
+    return this.getDatabase()
+      .prepare('SELECT 1 FROM photos WHERE provider_type = ? AND instance_index = ? LIMIT 1')
+      .get(providerType, instanceIndex) !== undefined;
+  }
+
+  /**
+   * Look up a single photo
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index (0-based)
+   * @param filePath - The path of the photo
+   * @returns The photo, or null if it is not indexed
+   */
+  getPhoto(providerType: string, instanceIndex: number, filePath: string): PhotoMetadata | null {
+    const row = this.getDatabase()
+      .prepare('SELECT * FROM photos WHERE provider_type = ? AND instance_index = ? AND path = ?')
+      .get(providerType, instanceIndex, filePath) as PhotoRow | undefined;
+    return row ? this.fromRow(row) : null;
+  }
+
+  /**
+   * Get a page of photos, newest first unless another order is given
+   * @param offset - Number of photos to skip (0 = first)
+   * @param limit - Maximum number of photos to return
+   * @param filter - Conditions the photos must meet
+   * @param sort - The field and direction to sort by
+   * @returns The photos on the page
+   */
+  getPhotos(offset: number, limit: number, filter: PhotoFilter = {},
+    sort: PhotoSort = { by: 'date', direction: 'desc' }): PhotoMetadata[] {
+    const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
+    const rows = this.getDatabase().prepare(`
+      SELECT * FROM photos
+      WHERE ${this.filterCondition(filter)}
+      ORDER BY ${SORT_COLUMNS[sort.by]} ${direction}, provider_type, instance_index, path
+      LIMIT @limit OFFSET @offset
+    `).all({ limit, offset, ...this.filterParameters(filter) }) as PhotoRow[];
+
+    return rows.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Bring an older database up to the current schema
+   * @param db - The open database
+   */
+  private migrate(db: Database.Database): void {
+    const version = db.pragma('user_version', { simple: true }) as number;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      db.transaction(() => {
+        db.exec(MIGRATIONS[i]);
+        db.pragma(`user_version = ${i + 1}`);
+      })();
+      console.log(`Migrated photo index to version ${i + 1}`);
+    }
+  }
+
+  /**
+   * Build the WHERE condition for a box, bound to @north, @south, @east and @west
+   * @param bounds - The box to search
+   * @returns The SQL condition
+   */
+  private boundsCondition(bounds: GeoBounds): string {
+    const longitude = bounds.west <= bounds.east
+      ? 'longitude BETWEEN @west AND @east'
+      : '(longitude >= @west OR longitude <= @east)';
+    return `latitude BETWEEN @south AND @north AND ${longitude}`;
+  }
+
+  /**
+   * Build the WHERE condition for a filter on the photos table, bound to the
+   * parameters from filterParameters
+   * @param filter - The filter
+   * @returns The SQL condition
+   */
+  private filterCondition(filter: PhotoFilter): string {
+    const sameFile = 'provider_type = photos.provider_type AND instance_index = photos.instance_index AND file_id = photos.id';
+    const conditions = ['1'];
+    if (filter.name) {
+      conditions.push('instr(lower(name), lower(@name)) > 0');
+    }
+    if (filter.folder) {
+      conditions.push('substr(path, 1, length(@folder)) = @folder');
+    }
+    if (filter.from) {
+      conditions.push('date_taken >= @from');
+    }
+    if (filter.to) {
+      conditions.push('date_taken < @to');
+    }
+    if (filter.providerType) {
+      conditions.push('provider_type = @providerType');
+    }
+    if (filter.instanceIndex !== undefined) {
+      conditions.push('instance_index = @instanceIndex');
+    }
+    if (filter.minSize !== undefined) {
+      conditions.push('size >= @minSize');
+    }
+    if (filter.maxSize !== undefined) {
+      conditions.push('size <= @maxSize');
+    }
+    if (filter.extensions?.length) {
+      conditions.push(`(${filter.extensions.map((_extension, i) => `lower(name) LIKE @extension${i}`).join(' OR ')})`);
+    }
+    if (filter.favorite || filter.minRating) {
+      const checks = [filter.favorite ? 'favorite = 1' : null, filter.minRating ? 'rating >= @minRating' : null];
+      conditions.push(`EXISTS (SELECT 1 FROM photo_user_metadata WHERE ${sameFile} AND ${checks.filter(Boolean).join(' AND ')})`);
+    }
+    // Photos without a metadata row are not favorites either
+    if (filter.favorite === false) {
+      conditions.push(`NOT EXISTS (SELECT 1 FROM photo_user_metadata WHERE ${sameFile} AND favorite = 1)`);
+    }
+    (filter.tags ?? []).forEach((_tag, i) => {
+      conditions.push(`EXISTS (SELECT 1 FROM photo_tags WHERE ${sameFile} AND tag = @tag${i})`);
+    });
+    return conditions.join(' AND ');
+  }
+
+  /**
+   * Bind a filter's values for filterCondition
+   * @param filter - The filter
+   * @returns The named parameters
+   */
+  private filterParameters(filter: PhotoFilter): Record<string, string | number> {
+    return {
+      name: filter.name ?? '',
+      // Folders match themselves and everything below them
+      folder: filter.folder === '/' ? '/' : `${filter.folder ?? ''}/`,
+      from: filter.from?.getTime() ?? 0,
+      to: filter.to?.getTime() ?? 0,
+      providerType: filter.providerType ?? '',
+      instanceIndex: filter.instanceIndex ?? 0,
+      minSize: filter.minSize ?? 0,
+      maxSize: filter.maxSize ?? 0,
+      minRating: filter.minRating ?? 0,
+      ...Object.fromEntries((filter.extensions ?? []).map((extension, i) => [`extension${i}`, `%.${extension}`])),
+      ...Object.fromEntries((filter.tags ?? []).map((tag, i) => [`tag${i}`, tag]))
+    };
+  }
+
+  private toRow(photo: PhotoMetadata): Omit<PhotoRow, DerivedColumn> {
+    return {
+      provider_type: photo.providerType,
+      instance_index: photo.instanceIndex,
+      path: photo.path,
+      id: photo.id,
+      name: photo.name,
+      date_taken: photo.date_taken.getTime(),
+      size: photo.size,
+      hash: photo.hash ?? null,
+      media_type: photo.mediaType ?? 'image',
+      // Listings report the modified date, which later becomes the capture date
+      modified: (photo.modified ?? photo.date_taken).getTime()
+    };
+  }
+
+  /**
+   * Convert a row of the photos table, e.g. from a join in another store
+   * @param row - The row
+   * @returns The photo
+   */
+  fromRow(row: PhotoRow): PhotoMetadata {
+    return {
+      id: row.id,
+      name: row.name,
+      path: row.path,
+      date_taken: new Date(row.date_taken),
+      modified: row.modified !== null ? new Date(row.modified) : undefined,
+      size: row.size,
+      providerType: row.provider_type,
+      instanceIndex: row.instance_index,
+      hash: row.hash ?? undefined,
+      mediaType: row.media_type as MediaType,
+      duration: row.duration ?? undefined,
+      latitude: row.latitude ?? undefined,
+      longitude: row.longitude ?? undefined,
+      cameraMake: row.camera_make ?? undefined,
+      cameraModel: row.camera_model ?? undefined,
+      width: row.width ?? undefined,
+      height: row.height ?? undefined,
+      orientation: row.orientation ?? undefined
+    };
+  }
+}
+
+// Export a singleton instance
+const photoIndex = new PhotoIndex();
+export default photoIndex;
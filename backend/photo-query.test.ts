@@ -0,0 +1,61 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePhotoFilter, parsePhotoSort } from './photo-query.js';
+
+test('parsePhotoFilter reads and normalises every filter', () => {
+  assert.deepEqual(parsePhotoFilter({}), {});
+  assert.deepEqual(parsePhotoFilter({
+    name: 'beach',
+    folder: 'Trips/2023/',
+    from: '2023-06-01',
+    to: '2023-07-01',
+    providerType: 'Dropbox',
+    instanceIndex: '1',
+    minSize: '0',
+    maxSize: '1048576',
+    ext: ['.JPG,heic', ' png '],
+    favorite: 'false',
+    minRating: '3',
+    tag: ['family', 'summer']
+  }), {
+    name: 'beach',
+    folder: '/Trips/2023',
+    from: new Date('2023-06-01'),
+    to: new Date('2023-07-01'),
+    providerType: 'dropbox',
+    instanceIndex: 1,
+    minSize: 0,
+    maxSize: 1048576,
+    extensions: ['jpg', 'heic', 'png'],
+    favorite: false,
+    minRating: 3,
+    tags: ['family', 'summer']
+  });
+});
+
+test('parsePhotoFilter rejects invalid and repeated values', () => {
+  const error = (query: Record<string, string | string[]>) => {
+    const result = parsePhotoFilter(query);
+    return 'error' in result ? result.error : null;
+  };
+
+  assert.equal(error({ name: ['a', 'b'] }), 'name must be given at most once');
+  assert.match(error({ from: 'yesterday' })!, /^from must be a date/);
+  assert.equal(error({ instanceIndex: '0' }), 'instanceIndex requires providerType');
+  assert.equal(error({ providerType: 'local', instanceIndex: '-1' }), 'instanceIndex must be a non-negative number');
+  assert.equal(error({ maxSize: 'big' }), 'maxSize must be a non-negative number of bytes');
+  assert.match(error({ ext: 'jp*g' })!, /^ext must be file extensions/);
+  assert.equal(error({ favorite: 'yes' }), 'favorite must be true or false');
+  assert.equal(error({ minRating: '-2' }), 'minRating must be a non-negative number');
+});
+
+test('parsePhotoSort defaults dates to newest first and names and sizes to ascending', () => {
+  assert.deepEqual(parsePhotoSort({}), { by: 'date', direction: 'desc' });
+  assert.deepEqual(parsePhotoSort({ sort: 'name' }), { by: 'name', direction: 'asc' });
+  assert.deepEqual(parsePhotoSort({ sort: 'size', order: 'desc' }), { by: 'size', direction: 'desc' });
+  assert.deepEqual(parsePhotoSort({ order: 'asc' }), { by: 'date', direction: 'asc' });
+
+  assert.deepEqual(parsePhotoSort({ sort: 'rating' }), { error: 'sort must be one of: date, name, size' });
+  assert.deepEqual(parsePhotoSort({ sort: ['name', 'size'] }), { error: 'sort must be one of: date, name, size' });
+  assert.deepEqual(parsePhotoSort({ order: 'up' }), { error: 'order must be asc or desc' });
+});
@@ -0,0 +1,151 @@
+import { Request } from 'express';
+import { PhotoFilter, PhotoSort, PhotoSortField } from './types.js';
+
+export const PHOTO_SORT_FIELDS: PhotoSortField[] = ['date', 'name', 'size'];
+
+/**
+ * Read a query parameter that may be given once
+ * @param query - The request's query parameters
+ * @param key - The parameter's name
+ * @returns The value, undefined if absent, or null if it was malformed or repeated
+ */
+function single(query: Request['query'], key: string): string | undefined | null {
+  const value = query[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Read a query parameter that may be repeated
+ * @param query - The request's query parameters
+ * @param key - The parameter's name
+ * @param separator - Also splits each value into a list, e.g. ext=jpg,png
+ * @returns The non-empty values
+ */
+function list(query: Request['query'], key: string, separator?: string): string[] {
+  const value = query[key];
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return values
+    .flatMap(item => typeof item !== 'string' ? [] : separator ? item.split(separator) : [item])
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read photo filters from query parameters: name, folder, from, to, providerType,
+ * instanceIndex, minSize, maxSize, ext, favorite, minRating and tag. The date range
+ * includes from and excludes to; ext may be repeated or comma-separated, and tag repeated.
+ * @param query - The request's query parameters
+ * @returns The filter, or an error message for invalid values
+ */
+export function parsePhotoFilter(query: Request['query']): PhotoFilter | { error: string } {
+  const filter: PhotoFilter = {};
+
+  for (const key of ['name', 'folder', 'from', 'to', 'providerType', 'instanceIndex', 'minSize', 'maxSize', 'favorite', 'minRating']) {
+    if (single(query, key) === null) {
+      return { error: `${key} must be given at most once` };
+    }
+  }
+
+  const name = single(query, 'name');
+  if (name) {
+    filter.name = name;
+  }
+
+  const folder = single(query, 'folder');
+  if (folder) {
+    // Paths are indexed with a leading slash and no trailing one
+    filter.folder = '/' + folder.replace(/^\/+|\/+$/g, '');
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = single(query, key);
+    if (value) {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return { error: `${key} must be a date, e.g. 2023-06-01 or 2023-06-01T00:00:00Z` };
+      }
+      filter[key] = date;
+    }
+  }
+
+  const providerType = single(query, 'providerType');
+  if (providerType) {
+    filter.providerType = providerType.toLowerCase();
+  }
+  const instanceIndex = single(query, 'instanceIndex');
+  if (instanceIndex !== undefined) {
+    if (!filter.providerType) {
+      return { error: 'instanceIndex requires providerType' };
+    }
+    filter.instanceIndex = parseInt(instanceIndex!);
+    if (isNaN(filter.instanceIndex) || filter.instanceIndex < 0) {
+      return { error: 'instanceIndex must be a non-negative number' };
+    }
+  }
+
+  for (const key of ['minSize', 'maxSize'] as const) {
+    const value = single(query, key);
+    if (value !== undefined) {
+      filter[key] = parseInt(value!);
+      if (isNaN(filter[key]!) || filter[key]! < 0) {
+        return { error: `${key} must be a non-negative number of bytes` };
+      }
+    }
+  }
+
+  const extensions = list(query, 'ext', ',').map(extension => extension.replace(/^\./, '').toLowerCase());
+  if (extensions.some(extension => !/^[a-z0-9]+$/.test(extension))) {
+    return { error: 'ext must be file extensions such as jpg or .heic' };
+  }
+  if (extensions.length > 0) {
+    filter.extensions = extensions;
+  }
+
+  const favorite = single(query, 'favorite');
+  if (favorite !== undefined) {
+    if (favorite !== 'true' && favorite !== 'false') {
+      return { error: 'favorite must be true or false' };
+    }
+    filter.favorite = favorite === 'true';
+  }
+
+  const minRating = single(query, 'minRating');
+  if (minRating !== undefined) {
+    filter.minRating = parseInt(minRating!);
+    if (isNaN(filter.minRating) || filter.minRating < 0) {
+      return { error: 'minRating must be a non-negative number' };
+    }
+  }
+
+  const tags = list(query, 'tag');
+  if (tags.length > 0) {
+    filter.tags = tags;
+  }
+
+  return filter;
+}
+
+/**
+ * Read the sort order from the sort (date, name or size) and order (asc or desc)
+ * query parameters. Dates sort newest first unless asked otherwise, names and sizes
+ * ascending.
+ * @param query - The request's query parameters
+ * @returns The sort order, or an error message for invalid values
+ */
+export function parsePhotoSort(query: Request['query']): PhotoSort | { error: string } {
+  const by = single(query, 'sort');
+  if (by === null || (by !== undefined && !PHOTO_SORT_FIELDS.includes(by as PhotoSortField))) {
+    return { error: `sort must be one of: ${PHOTO_SORT_FIELDS.join(', ')}` };
+  }
+  const field = (by ?? 'date') as PhotoSortField;
+
+  const direction = single(query, 'order') ?? (field === 'date' ? 'desc' : 'asc');
+  if (direction !== 'asc' && direction !== 'desc') {
+    return { error: 'order must be asc or desc' };
+  }
+
+  return { by: field, direction };
+}
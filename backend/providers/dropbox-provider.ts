@@ -1,13 +1,20 @@
+import { Readable } from 'stream';
 import CloudProvider from '../cloud-provider.js';
 import { Dropbox, DropboxAuth } from 'dropbox';
 import axios from 'axios';
 import EnvFileManager from '../env-file-manager.js';
 import { EnvVariablePatterns, TokenResponse, Credentials, RefreshTokenResult,
-   AccountInfo, MediaInfoResult, DropboxAccount, PhotoMetadata, ThumbnailResponse } from '../types.js';
-import { ThumbnailHandler } from '../thumbnail-handler.js';
+   AccountInfo, MediaInfoResult, DropboxAccount, PhotoMetadata, ThumbnailResponse, ByteRange, FileDownloadStream, FileChanges, ThumbnailOptions, MediaMetadata } from '../types.js';
+import { ThumbnailHandler, DEFAULT_THUMBNAIL_OPTIONS } from '../thumbnail-handler.js';
+import { formatRangeHeader, parseContentRange, RANGE_NOT_SATISFIABLE } from '../byte-range.js';
+
+// filesUpload accepts at most 150 MB, larger files go through an upload session
+const MAX_SINGLE_UPLOAD_BYTES = 150 * 1024 * 1024;
+const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
 
 class DropboxProvider extends CloudProvider {
   private dbx: Dropbox;
+  private auth: DropboxAuth | null = null;
   private authenticated: boolean;
 
   constructor(authenticated: boolean) {
@@ -109,6 +116,7 @@ class DropboxProvider extends CloudProvider {
   
       // Create Dropbox instance with auth
       this.dbx = new Dropbox({ auth });
+      this.auth = auth;
   
       this.authenticated = true;
       console.log('Successfully authenticated Dropbox provider');
@@ -160,6 +168,7 @@ class DropboxProvider extends CloudProvider {
       });
       
       this.dbx = new Dropbox({ auth });
+      this.auth = auth;
       this.authenticated = true;
 
       // Update environment variables with new tokens
@@ -261,6 +270,9 @@ class DropboxProvider extends CloudProvider {
 
       const photoMetadata: PhotoMetadata[] = [];
       for (const entry of entries) {
+        // Folders are listed too, without a size or modified date
+        if (entry['.tag'] !== 'file') continue;
+
         photoMetadata.push(await ThumbnailHandler.convertToPhotoMetadata(entry.id,
            entry.name, entry.path_display, new Date(entry.client_modified), entry.size,
             this.getProviderType(), instanceIndex, entry.content_hash));
@@ -272,6 +284,68 @@ class DropboxProvider extends CloudProvider {
     }
   }
 
+  supportsChanges(): boolean {
+    return true;
+  }
+
+  /**
+   * List changes since a list_folder cursor. Without a cursor, or when Dropbox
+   * asks for a reset, the whole root folder is listed again.
+   * @param cursor - The cursor returned by the previous call, or null to start over
+   * @param instanceIndex - The instance index stored on the returned metadata
+   * @returns The changes and the cursor to pass next time
+   */
+  async listChanges(cursor: string | null, instanceIndex: number): Promise<FileChanges> {
+    try {
+      let result: any = null;
+      let reset = false;
+
+      if (cursor) {
+        try {
+          result = (await this.dbx.filesListFolderContinue({ cursor: cursor })).result;
+        } catch (err) {
+          // An expired cursor means we have to list everything again
+          if ((err as any)?.error?.error?.['.tag'] !== 'reset') {
+            throw err;
+          }
+          console.log('Dropbox cursor was reset, listing all files again');
+        }
+      }
+
+      if (!result) {
+        reset = true;
+        result = (await this.dbx.filesListFolder({
+          path: '',
+          recursive: true,
+          include_deleted: false,
+          include_mounted_folders: true,
+          limit: 2000
+        })).result;
+      }
+
+      let entries = result.entries as any[];
+      while (result.has_more) {
+        result = (await this.dbx.filesListFolderContinue({ cursor: result.cursor })).result;
+        entries = entries.concat(result.entries as any[]);
+      }
+
+      const changes: FileChanges = { added: [], removed: [], cursor: result.cursor, reset: reset };
+      for (const entry of entries) {
+        if (entry['.tag'] === 'deleted') {
+          changes.removed.push(entry.path_display || entry.path_lower);
+        } else if (entry['.tag'] === 'file') {
+          changes.added.push(await ThumbnailHandler.convertToPhotoMetadata(entry.id,
+            entry.name, entry.path_display, new Date(entry.client_modified), entry.size,
+            this.getProviderType(), instanceIndex, entry.content_hash));
+        }
+      }
+
+      return changes;
+    } catch (err) {
+      throw new Error('Failed to list changes from Dropbox: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
   async getMediaInfo(filePath: string): Promise<MediaInfoResult> {
     try {
       const res = await this.dbx.filesGetMetadata({
@@ -288,6 +362,30 @@ class DropboxProvider extends CloudProvider {
     }
   }
 
+  /**
+   * Get the capture date, dimensions, location and video length Dropbox extracted from a photo or video
+   * @param filePath - The path to the file
+   * @returns The media metadata, or null if Dropbox has none for the file
+   */
+  async getMediaMetadata(filePath: string): Promise<MediaMetadata | null> {
+    const { mediaInfo } = await this.getMediaInfo(filePath);
+    // media_info is 'pending' until Dropbox has finished processing the file
+    const media = mediaInfo?.['.tag'] === 'metadata' ? mediaInfo.metadata : null;
+    if (!media) {
+      return null;
+    }
+
+    return {
+      dateTaken: media.time_taken ? new Date(media.time_taken) : undefined,
+      dateSource: 'media_info',
+      width: media.dimensions?.width,
+      height: media.dimensions?.height,
+      duration: media.duration,
+      latitude: media.location?.latitude,
+      longitude: media.location?.longitude
+    };
+  }
+
   async getAccountInfo(): Promise<AccountInfo> {
     try {
       const res = await this.dbx.usersGetCurrentAccount();
@@ -305,10 +403,10 @@ class DropboxProvider extends CloudProvider {
   /**
    * Get a thumbnail for a file from Dropbox
    * @param filePath - The path to the file
-   * @param size - The thumbnail size ('small', 'medium', 'large', 'xl')
+   * @param options - Size preset, mode and format, which map directly onto Dropbox's own
    * @returns Promise containing thumbnail data or error
    */
-  async getThumbnail(filePath: string): Promise<ThumbnailResponse> {
+  async getThumbnail(filePath: string, options: ThumbnailOptions = DEFAULT_THUMBNAIL_OPTIONS): Promise<ThumbnailResponse> {
     try {
       if (!this.authenticated) {
         return {
@@ -324,13 +422,13 @@ class DropboxProvider extends CloudProvider {
           path: filePath
         },
         format: {
-          '.tag': 'jpeg'
+          '.tag': options.format
         },
         size: {
-          '.tag': 'w256h256'
+          '.tag': options.size
         },
         mode: {
-          '.tag': 'strict'
+          '.tag': options.mode
         }
       });
 
@@ -360,7 +458,7 @@ class DropboxProvider extends CloudProvider {
       return {
         success: true,
         data: thumbnailBuffer,
-        mimeType: 'image/jpeg'
+        mimeType: `image/${options.format}`
       };
 
     } catch (err) {
@@ -385,6 +483,213 @@ class DropboxProvider extends CloudProvider {
       };
     }
   }
+
+  /**
+   * Stream the original file from Dropbox. This calls the same files/download
+   * endpoint as the SDK's filesDownload, which buffers the whole file and
+   * cannot forward a Range header, so the response is streamed directly.
+   * @param filePath - The path to the file
+   * @param range - Optional byte range to fetch instead of the whole file
+   * @returns The content stream and the bytes it covers
+   */
+  async downloadFile(filePath: string, range?: ByteRange): Promise<FileDownloadStream> {
+    if (!this.authenticated || !this.auth) {
+      throw new Error('Provider not authenticated');
+    }
+
+    try {
+      await this.auth.checkAndRefreshAccessToken();
+
+      // Dropbox-API-Arg must be ASCII, so escape anything outside it
+      const apiArg = JSON.stringify({ path: filePath })
+        .replace(/[\u007f-\uffff]/g, c => '\\u' + ('000' + c.charCodeAt(0).toString(16)).slice(-4));
+
+      // Without a body axios would send a form content type, which content endpoints reject
+      const headers: Record<string, string> = {
+        'Authorization': `Bearer ${this.auth.getAccessToken()}`,
+        'Dropbox-API-Arg': apiArg,
+        'Content-Type': 'application/octet-stream'
+      };
+      const rangeHeader = formatRangeHeader(range);
+      if (rangeHeader) {
+        headers['Range'] = rangeHeader;
+      }
+
+      const response = await axios.post('https://content.dropboxapi.com/2/files/download', undefined, {
+        headers: headers,
+        responseType: 'stream'
+      });
+
+      const served = parseContentRange(response.headers['content-range'], parseInt(response.headers['content-length']));
+      return {
+        stream: response.data,
+        ...served
+      };
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 416) {
+        throw new Error(`Failed to download file from Dropbox: ${RANGE_NOT_SATISFIABLE}`);
+      }
+      throw new Error('Failed to download file from Dropbox: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  supportsWrite(): boolean {
+    return true;
+  }
+
+  /**
+   * Upload a file to Dropbox. Files above the single-request limit are sent
+   * through an upload session in chunks.
+   * @param filePath - The destination path, including the file name
+   * @param data - The file contents
+   * @param instanceIndex - The instance index stored on the returned metadata
+   * @param modified - The modified date to give the file (optional, defaults to now)
+   * @returns Metadata of the stored file (renamed automatically if the path is taken)
+   */
+  async uploadFile(filePath: string, data: Buffer, instanceIndex: number, modified?: Date): Promise<PhotoMetadata> {
+    try {
+      let entry: any;
+
+      if (data.length <= MAX_SINGLE_UPLOAD_BYTES) {
+        const res = await this.dbx.filesUpload({
+          path: filePath,
+          contents: data,
+          mode: { '.tag': 'add' },
+          autorename: true,
+          client_modified: this.toClientModified(modified)
+        });
+        entry = res.result;
+      } else {
+        entry = await this.uploadSession(filePath, [data], modified);
+      }
+
+      return await ThumbnailHandler.convertToPhotoMetadata(entry.id,
+        entry.name, entry.path_display, new Date(entry.client_modified), entry.size,
+        this.getProviderType(), instanceIndex, entry.content_hash);
+    } catch (err) {
+      throw new Error('Failed to upload file to Dropbox: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Upload a file through an upload session as it is read, so at most a couple of
+   * chunks are held in memory whatever the file's size
+   * @param filePath - The destination path, including the file name
+   * @param stream - The file contents
+   * @param instanceIndex - The instance index stored on the returned metadata
+   * @param modified - The modified date to give the file (optional, defaults to now)
+   * @returns Metadata of the stored file (renamed automatically if the path is taken)
+   */
+  async uploadStream(filePath: string, stream: Readable, instanceIndex: number, modified?: Date): Promise<PhotoMetadata> {
+    try {
+      const entry = await this.uploadSession(filePath, stream, modified);
+      return await ThumbnailHandler.convertToPhotoMetadata(entry.id,
+        entry.name, entry.path_display, new Date(entry.client_modified), entry.size,
+        this.getProviderType(), instanceIndex, entry.content_hash);
+    } catch (err) {
+      throw new Error('Failed to upload file to Dropbox: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Send a file through an upload session in UPLOAD_CHUNK_BYTES pieces. Each piece is
+   * held back until the next one starts, as the last goes with the commit.
+   * @param filePath - The destination path, including the file name
+   * @param data - The file contents, in pieces of any size
+   * @param modified - The modified date to give the file (optional, defaults to now)
+   * @returns The committed file's entry
+   */
+  private async uploadSession(filePath: string, data: AsyncIterable<Buffer> | Iterable<Buffer>, modified?: Date): Promise<any> {
+    let sessionId: string | null = null;
+    let offset = 0;
+    // Pieces read since the last chunk was sent, joined only when a chunk is full
+    let pending: Buffer[] = [];
+    let pendingLength = 0;
+
+    const send = async (chunk: Buffer) => {
+      if (sessionId === null) {
+        sessionId = (await this.dbx.filesUploadSessionStart({ contents: chunk })).result.session_id;
+      } else {
+        await this.dbx.filesUploadSessionAppendV2({
+          cursor: { session_id: sessionId, offset: offset },
+          contents: chunk
+        });
+      }
+      offset += chunk.length;
+    };
+
+    for await (const piece of data) {
+      pending.push(piece);
+      pendingLength += piece.length;
+      // Keep at least one full chunk back, it may be the last
+      if (pendingLength > UPLOAD_CHUNK_BYTES) {
+        let joined = pending.length === 1 ? pending[0] : Buffer.concat(pending);
+        while (joined.length > UPLOAD_CHUNK_BYTES) {
+          await send(joined.subarray(0, UPLOAD_CHUNK_BYTES));
+          joined = joined.subarray(UPLOAD_CHUNK_BYTES);
+        }
+        pending = [joined];
+        pendingLength = joined.length;
+      }
+    }
+
+    if (sessionId === null) {
+      sessionId = (await this.dbx.filesUploadSessionStart({ contents: Buffer.alloc(0) })).result.session_id;
+    }
+    const finish = await this.dbx.filesUploadSessionFinish({
+      cursor: { session_id: sessionId!, offset: offset },
+      commit: {
+        path: filePath,
+        mode: { '.tag': 'add' },
+        autorename: true,
+        client_modified: this.toClientModified(modified)
+      },
+      contents: Buffer.concat(pending)
+    });
+    return finish.result;
+  }
+
+  // Dropbox takes whole seconds
+  private toClientModified(modified?: Date): string | undefined {
+    return modified ? modified.toISOString().replace(/\.\d{3}Z$/, 'Z') : undefined;
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    try {
+      await this.dbx.filesDeleteV2({ path: filePath });
+    } catch (err) {
+      throw new Error('Failed to delete file from Dropbox: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Move a file within Dropbox. Fails rather than overwriting if the destination exists.
+   * @param fromPath - The current path of the file
+   * @param toPath - The destination path, including the file name
+   * @param instanceIndex - The instance index stored on the returned metadata
+   * @returns Metadata of the file at its new path
+   */
+  async moveFile(fromPath: string, toPath: string, instanceIndex: number): Promise<PhotoMetadata> {
+    try {
+      const res = await this.dbx.filesMoveV2({
+        from_path: fromPath,
+        to_path: toPath,
+        autorename: false
+      });
+      const entry = res.result.metadata as any;
+
+      return await ThumbnailHandler.convertToPhotoMetadata(entry.id,
+        entry.name, entry.path_display, new Date(entry.client_modified), entry.size,
+        this.getProviderType(), instanceIndex, entry.content_hash);
+    } catch (err) {
+      throw new Error('Failed to move file in Dropbox: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  async renameFile(filePath: string, newName: string, instanceIndex: number): Promise<PhotoMetadata> {
+    const folderPath = filePath.substring(0, filePath.lastIndexOf('/'));
+    return await this.moveFile(filePath, `${folderPath}/${newName}`, instanceIndex);
+  }
 }
 
 export default DropboxProvider; 
\ No newline at end of file
@@ -0,0 +1,114 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import EnvFileManager from '../env-file-manager.js';
+
+process.env.PHOTO_INDEX_PATH = ':memory:';
+
+// Folder id -> pages of children, each page served for one pageToken
+const FOLDERS: Record<string, { id: string; name: string; mimeType: string; size?: string }[][]> = {
+  root: [
+    [{ id: 'first', name: 'first.jpg', mimeType: 'image/jpeg', size: '100' }],
+    [{ id: 'trips', name: 'Trips', mimeType: 'application/vnd.google-apps.folder' }]
+  ],
+  trips: [
+    [{ id: 'beach', name: 'beach.jpg', mimeType: 'image/jpeg', size: '200' }]
+  ]
+};
+
+/**
+ * Serve the Drive endpoints the provider uses. Only the refreshed token is accepted,
+ * so the first request of a session always answers 401.
+ */
+const createFakeDrive = (requests: string[]) => http.createServer((req, res) => {
+  const url = new URL(req.url!, 'http://localhost');
+  const reply = (status: number, body: object) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  if (url.pathname === '/token') {
+    requests.push('token');
+    return reply(200, { access_token: 'fresh', refresh_token: 'rotated' });
+  }
+  if (req.headers.authorization !== 'Bearer fresh') {
+    requests.push('401');
+    return reply(401, { error: { code: 401 } });
+  }
+
+  const q = url.searchParams.get('q');
+  if (url.pathname === '/drive/files' && q) {
+    const parentId = q.match(/^'([^']+)' in parents/)![1];
+    const children = FOLDERS[parentId].flat();
+
+    // Path lookups ask for one name at a time
+    const name = q.match(/name = '([^']+)'/)?.[1];
+    if (name) {
+      requests.push(`lookup ${name}`);
+      return reply(200, { files: children.filter(child => child.name === name).map(child => ({ id: child.id })) });
+    }
+
+    const page = Number(url.searchParams.get('pageToken') || 0);
+    requests.push(`list ${parentId} page ${page}`);
+    const pages = FOLDERS[parentId];
+    return reply(200, { files: pages[page], nextPageToken: page + 1 < pages.length ? String(page + 1) : undefined });
+  }
+  if (url.pathname === '/drive/files/beach') {
+    requests.push('get beach');
+    return reply(200, { imageMediaMetadata: { time: '2019:07:04 12:30:00', width: 4000, height: 3000 } });
+  }
+  reply(404, { error: { code: 404 } });
+});
+
+test('Google Drive provider against a local fake of the Drive API', async (t) => {
+  const requests: string[] = [];
+  const server = createFakeDrive(requests);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => server.close());
+
+  const { port } = server.address() as AddressInfo;
+  process.env.GOOGLE_TOKEN_URL = `http://127.0.0.1:${port}/token`;
+  process.env.GOOGLE_DRIVE_API_URL = `http://127.0.0.1:${port}/drive`;
+
+  const envDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drive-test-'));
+  t.after(() => fs.rmSync(envDir, { recursive: true, force: true }));
+  EnvFileManager.envFilePath = path.join(envDir, '.env');
+  fs.writeFileSync(EnvFileManager.envFilePath, 'GOOGLEDRIVE_ACCESS_TOKEN_1=stale\nGOOGLEDRIVE_REFRESH_TOKEN_1=old\n');
+
+  // The endpoints are read when the module loads
+  const { default: GoogleDriveProvider } = await import('./google-drive-provider.js');
+  const credentials = { appKey: 'key', appSecret: 'secret', accessToken: 'stale', refreshToken: 'old' };
+
+  await t.test('refreshes an expired token, retries and persists the new tokens', async () => {
+    const provider = new GoogleDriveProvider(false);
+    provider.setInstanceIndex(1);
+    provider.authenticate(credentials);
+
+    const files = await provider.listFiles('', true, 1000, 1);
+
+    assert.deepEqual(files.map(file => [file.path, file.size, file.instanceIndex]), [
+      ['/first.jpg', 100, 1],
+      ['/Trips/beach.jpg', 200, 1]
+    ]);
+    assert.deepEqual(requests, ['401', 'token', 'list root page 0', 'list root page 1', 'list trips page 0']);
+    assert.equal(EnvFileManager.getValue('GOOGLEDRIVE_ACCESS_TOKEN_1'), 'fresh');
+    assert.equal(EnvFileManager.getValue('GOOGLEDRIVE_REFRESH_TOKEN_1'), 'rotated');
+  });
+
+  await t.test('resolves an unlisted path one folder at a time', async () => {
+    requests.length = 0;
+    const provider = new GoogleDriveProvider(false);
+    provider.authenticate({ ...credentials, accessToken: 'fresh' });
+
+    const metadata = await provider.getMediaMetadata('/Trips/beach.jpg');
+
+    assert.deepEqual(requests, ['lookup Trips', 'lookup beach.jpg', 'get beach']);
+    assert.equal(metadata?.width, 4000);
+    assert.equal(metadata?.dateTaken?.getFullYear(), 2019);
+    await assert.rejects(provider.getMediaMetadata('/Trips/missing.jpg'), /File not found: \/Trips\/missing.jpg/);
+  });
+});
@@ -0,0 +1,528 @@
+import { Readable } from 'stream';
+import CloudProvider from '../cloud-provider.js';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import EnvFileManager from '../env-file-manager.js';
+import { EnvVariablePatterns, TokenResponse, Credentials, RefreshTokenResult,
+   AccountInfo, PhotoMetadata, ThumbnailResponse, GoogleDriveFile, GoogleDriveFileList, GoogleDriveAbout, ByteRange, FileDownloadStream, ThumbnailOptions, MediaMetadata } from '../types.js';
+import { ThumbnailHandler, THUMBNAIL_SIZES, DEFAULT_THUMBNAIL_OPTIONS } from '../thumbnail-handler.js';
+import { formatRangeHeader, parseContentRange, RANGE_NOT_SATISFIABLE } from '../byte-range.js';
+
+// Endpoints can be overridden to run against a local fake of the Drive REST API
+const GOOGLE_AUTH_URL = process.env.GOOGLE_AUTH_URL || 'https://accounts.google.com/o/oauth2/v2/auth';
+const GOOGLE_TOKEN_URL = process.env.GOOGLE_TOKEN_URL || 'https://oauth2.googleapis.com/token';
+const GOOGLE_DRIVE_API_URL = process.env.GOOGLE_DRIVE_API_URL || 'https://www.googleapis.com/drive/v3';
+
+const DRIVE_SCOPE = 'https://www.googleapis.com/auth/drive.readonly';
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+const FILE_FIELDS = 'id, name, mimeType, size, modifiedTime, thumbnailLink';
+const MEDIA_FIELDS = 'imageMediaMetadata(time, cameraMake, cameraModel, width, height, location), videoMediaMetadata(width, height, durationMillis)';
+
+class GoogleDriveProvider extends CloudProvider {
+  private http: AxiosInstance;
+  private authenticated: boolean;
+  private credentials: Credentials = {};
+  private instanceIndex: number = 0;
+  // Drive addresses files by id, so remember the id behind every listed path
+  private pathIds: Map<string, string> = new Map();
+
+  constructor(authenticated: boolean) {
+    super();
+    this.http = axios.create({ baseURL: GOOGLE_DRIVE_API_URL });
+    this.authenticated = authenticated;
+  }
+
+  /**
+   * Check if the provider is authenticated
+   * @returns True if authenticated, false otherwise
+   */
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  /**
+   * Remember which instance this is, so renewed tokens are written to its variables
+   * @param instanceIndex - The instance index (0-based)
+   */
+  setInstanceIndex(instanceIndex: number): void {
+    this.instanceIndex = instanceIndex;
+  }
+
+  /**
+   * Get the environment variable patterns for Google Drive provider
+   * @param instanceIndex - The instance index (0-based)
+   * @returns Object containing the environment variable patterns
+   */
+  getEnvVariablePatterns(instanceIndex: number): EnvVariablePatterns {
+    return {
+      appKey: `GOOGLEDRIVE_APP_KEY_${instanceIndex}`,
+      appSecret: `GOOGLEDRIVE_APP_SECRET_${instanceIndex}`,
+      accessToken: `GOOGLEDRIVE_ACCESS_TOKEN_${instanceIndex}`,
+      refreshToken: `GOOGLEDRIVE_REFRESH_TOKEN_${instanceIndex}`
+    };
+  }
+
+  /**
+   * Get the OAuth authorization URL for Google Drive
+   * @param appKey - The OAuth client ID
+   * @param redirectUri - The redirect URI
+   * @param state - The state parameter (usually instance index)
+   * @returns The authorization URL
+   */
+  getAuthorizationUrl(appKey: string, redirectUri: string, state: string): string {
+    const params = new URLSearchParams({
+      client_id: appKey,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: DRIVE_SCOPE,
+      // offline access + consent prompt makes Google return a refresh token every time
+      access_type: 'offline',
+      prompt: 'consent',
+      state: state
+    });
+    return `${GOOGLE_AUTH_URL}?${params.toString()}`;
+  }
+
+  /**
+   * Exchange authorization code for access token
+   * @param code - The authorization code
+   * @param appKey - The OAuth client ID
+   * @param appSecret - The OAuth client secret
+   * @param redirectUri - The redirect URI
+   * @returns Object containing access_token and refresh_token
+   */
+  async exchangeCodeForToken(code: string, appKey: string, appSecret: string, redirectUri: string): Promise<TokenResponse> {
+    const response = await axios.post(GOOGLE_TOKEN_URL,
+      new URLSearchParams({
+        code: code,
+        grant_type: 'authorization_code',
+        client_id: appKey,
+        client_secret: appSecret,
+        redirect_uri: redirectUri
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        }
+      }
+    );
+
+    return response.data;
+  }
+
+  /**
+   * Get the provider type name
+   * @returns The provider type name
+   */
+  getProviderType(): string {
+    return 'googledrive';
+  }
+
+  /**
+   * Authenticate the provider using provided credentials
+   * @param credentials - The credentials object containing appKey, appSecret, accessToken, refreshToken
+   * @returns True if authentication was successful, false otherwise
+   */
+  authenticate(credentials: Credentials): boolean {
+    const { appKey, appSecret, accessToken, refreshToken } = credentials;
+
+    if (!accessToken || !refreshToken || !appKey || !appSecret) {
+      console.log('Missing authentication credentials for Google Drive provider');
+      this.authenticated = false;
+      return false;
+    }
+
+    this.credentials = { appKey, appSecret, accessToken, refreshToken };
+    this.authenticated = true;
+    console.log('Successfully authenticated Google Drive provider');
+    return true;
+  }
+
+  /**
+   * Refresh the access token using the refresh token
+   * @param credentials - The credentials object containing appKey, appSecret, refreshToken
+   * @param instanceIndex - The instance index for environment variable updates
+   * @returns Object containing success status and new access token
+   */
+  async refreshToken(credentials: Credentials, instanceIndex: number): Promise<RefreshTokenResult> {
+    try {
+      const { access_token, refresh_token } = await this.requestNewAccessToken(credentials);
+
+      this.credentials = {
+        ...credentials,
+        accessToken: access_token,
+        refreshToken: refresh_token || credentials.refreshToken
+      };
+      this.authenticated = true;
+      this.storeTokens(instanceIndex, access_token, refresh_token);
+
+      console.log('Successfully refreshed Google Drive access token');
+
+      return {
+        success: true,
+        accessToken: access_token,
+        refreshToken: refresh_token || credentials.refreshToken,
+        message: 'Access token refreshed successfully'
+      };
+
+    } catch (error) {
+      console.error('Failed to refresh Google Drive access token:', error instanceof Error ? error.message : 'Unknown error');
+
+      let errorMessage = 'Failed to refresh access token';
+      if (axios.isAxiosError(error) && error.response?.data?.error === 'invalid_grant') {
+        errorMessage = 'Refresh token is invalid or expired. Re-authentication required.';
+      } else if (axios.isAxiosError(error) && error.response?.data?.error === 'invalid_client') {
+        errorMessage = 'Invalid client credentials.';
+      }
+
+      return {
+        success: false,
+        error: errorMessage,
+        details: axios.isAxiosError(error) ? error.response?.data?.error_description || error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async getStorage(): Promise<number> {
+    try {
+      const res = await this.request<GoogleDriveAbout>({ url: '/about', params: { fields: 'storageQuota' } });
+      const quota = res.storageQuota;
+      // Accounts with unlimited storage report no limit
+      if (!quota.limit) {
+        return Number.MAX_SAFE_INTEGER;
+      }
+      return Number(quota.limit) - Number(quota.usage);
+    } catch (err) {
+      throw new Error('Failed to fetch Google Drive storage info: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  async listFiles(folderPath: string = '', recursive: boolean = false, limit: number = 1000, instanceIndex: number = 0): Promise<PhotoMetadata[]> {
+    try {
+      const photoMetadata: PhotoMetadata[] = [];
+      const pending = [{ id: await this.resolveFileId(folderPath), path: folderPath.replace(/\/+$/, '') }];
+
+      while (pending.length > 0) {
+        const folder = pending.shift()!;
+        const query = `'${folder.id}' in parents and trashed = false and (mimeType contains 'image/' or mimeType contains 'video/' or mimeType = '${FOLDER_MIME_TYPE}')`;
+        let pageToken: string | undefined;
+
+        do {
+          const res: GoogleDriveFileList = await this.request({
+            url: '/files',
+            params: {
+              q: query,
+              fields: `nextPageToken, files(${FILE_FIELDS})`,
+              pageSize: Math.min(limit, 1000),
+              pageToken: pageToken
+            }
+          });
+
+          for (const file of res.files) {
+            const filePath = `${folder.path}/${file.name}`;
+            this.pathIds.set(filePath, file.id);
+
+            if (file.mimeType === FOLDER_MIME_TYPE) {
+              if (recursive) {
+                pending.push({ id: file.id, path: filePath });
+              }
+              continue;
+            }
+
+            photoMetadata.push(await ThumbnailHandler.convertToPhotoMetadata(file.id,
+              file.name, filePath, new Date(file.modifiedTime), Number(file.size || 0),
+              this.getProviderType(), instanceIndex, undefined, file.mimeType));
+          }
+
+          pageToken = res.nextPageToken;
+        } while (pageToken);
+      }
+
+      return photoMetadata;
+    } catch (err) {
+      throw new Error('Failed to list files from Google Drive: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Get the capture details Drive extracted from a photo or video
+   * @param filePath - The path to the file
+   * @returns The media metadata, or null if Drive has none for the file
+   */
+  async getMediaMetadata(filePath: string): Promise<MediaMetadata | null> {
+    const fileId = await this.resolveFileId(filePath);
+    const file = await this.request<GoogleDriveFile>({ url: `/files/${fileId}`, params: { fields: MEDIA_FIELDS } });
+
+    if (file.videoMediaMetadata) {
+      return {
+        dateSource: 'media_info',
+        width: file.videoMediaMetadata.width,
+        height: file.videoMediaMetadata.height,
+        duration: file.videoMediaMetadata.durationMillis ? Number(file.videoMediaMetadata.durationMillis) : undefined
+      };
+    }
+
+    const image = file.imageMediaMetadata;
+    if (!image) {
+      return null;
+    }
+
+    // time is in EXIF form, e.g. '2019:07:04 12:30:00'
+    const time = image.time ? new Date(image.time.replace(/^(\d{4}):(\d{2}):(\d{2}) /, '$1-$2-$3T')) : null;
+    return {
+      dateTaken: time && !isNaN(time.getTime()) ? time : undefined,
+      dateSource: 'media_info',
+      cameraMake: image.cameraMake,
+      cameraModel: image.cameraModel,
+      width: image.width,
+      height: image.height,
+      latitude: image.location?.latitude,
+      longitude: image.location?.longitude
+    };
+  }
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    try {
+      const res = await this.request<GoogleDriveAbout>({ url: '/about', params: { fields: 'user' } });
+      return {
+        accountId: res.user.permissionId,
+        name: res.user.displayName,
+        email: res.user.emailAddress
+      };
+    } catch (err) {
+      throw new Error('Failed to get Google Drive account info: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Get a thumbnail for a file from Google Drive using its thumbnailLink
+   * @param filePath - The path to the file
+   * @param options - Size preset to fetch, Drive ignores the mode and format
+   * @returns Promise containing thumbnail data or error
+   */
+  async getThumbnail(filePath: string, options: ThumbnailOptions = DEFAULT_THUMBNAIL_OPTIONS): Promise<ThumbnailResponse> {
+    try {
+      if (!this.authenticated) {
+        return {
+          success: false,
+          error: 'Provider not authenticated'
+        };
+      }
+
+      const fileId = await this.resolveFileId(filePath);
+      const file = await this.request<GoogleDriveFile>({ url: `/files/${fileId}`, params: { fields: 'thumbnailLink' } });
+
+      if (!file.thumbnailLink) {
+        return {
+          success: false,
+          error: 'Thumbnail not available for this file type'
+        };
+      }
+
+      // thumbnailLink ends with a size suffix such as =s220 setting the longest side
+      const { width, height } = THUMBNAIL_SIZES[options.size];
+      const thumbnailUrl = file.thumbnailLink.replace(/=s\d+$/, `=s${Math.max(width, height)}`);
+      const response = await this.requestResponse<ArrayBuffer>({ url: thumbnailUrl, responseType: 'arraybuffer' });
+
+      return {
+        success: true,
+        data: Buffer.from(response.data),
+        mimeType: response.headers['content-type'] || 'image/jpeg'
+      };
+
+    } catch (err) {
+      console.error('Failed to get thumbnail from Google Drive:', err instanceof Error ? err.message : err);
+
+      let errorMessage = 'Failed to get thumbnail';
+      if (axios.isAxiosError(err) && err.response?.status === 404) {
+        errorMessage = 'File not found';
+      } else if (err instanceof Error) {
+        errorMessage = err.message;
+      }
+
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Stream the original file from Google Drive
+   * @param filePath - The path to the file
+   * @param range - Optional byte range to fetch instead of the whole file
+   * @returns The content stream and the bytes it covers
+   */
+  async downloadFile(filePath: string, range?: ByteRange): Promise<FileDownloadStream> {
+    if (!this.authenticated) {
+      throw new Error('Provider not authenticated');
+    }
+
+    try {
+      const fileId = await this.resolveFileId(filePath);
+      const rangeHeader = formatRangeHeader(range);
+      const response = await this.requestResponse<Readable>({
+        url: `/files/${fileId}`,
+        params: { alt: 'media' },
+        headers: rangeHeader ? { Range: rangeHeader } : {},
+        responseType: 'stream'
+      });
+
+      const served = parseContentRange(response.headers['content-range'], parseInt(response.headers['content-length']));
+      return {
+        stream: response.data,
+        ...served,
+        contentType: response.headers['content-type']
+      };
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 416) {
+        throw new Error(`Failed to download file from Google Drive: ${RANGE_NOT_SATISFIABLE}`);
+      }
+      throw new Error('Failed to download file from Google Drive: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Find the Drive id of a file or folder from its display path
+   * @param filePath - The path (e.g. '/Photos/2023/img.jpg', '' for the root)
+   * @returns The Drive file id
+   */
+  private async resolveFileId(filePath: string): Promise<string> {
+    const trimmedPath = filePath.replace(/\/+$/, '');
+    if (trimmedPath === '') {
+      return 'root';
+    }
+
+    const cachedId = this.pathIds.get(trimmedPath);
+    if (cachedId) {
+      return cachedId;
+    }
+
+    // Walk the path one segment at a time
+    let parentId = 'root';
+    let currentPath = '';
+    for (const segment of trimmedPath.split('/').filter(Boolean)) {
+      currentPath += `/${segment}`;
+      const escapedName = segment.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+      const res = await this.request<GoogleDriveFileList>({
+        url: '/files',
+        params: {
+          q: `'${parentId}' in parents and name = '${escapedName}' and trashed = false`,
+          fields: 'files(id)',
+          pageSize: 1
+        }
+      });
+
+      if (!res.files || res.files.length === 0) {
+        throw new Error(`File not found: ${currentPath}`);
+      }
+
+      parentId = res.files[0].id;
+      this.pathIds.set(currentPath, parentId);
+    }
+
+    return parentId;
+  }
+
+  /**
+   * Send an authorized request to the Drive API, refreshing the access token once if it expired
+   * @param config - The axios request config
+   * @returns The response body
+   */
+  private async request<T>(config: AxiosRequestConfig): Promise<T> {
+    return (await this.requestResponse<T>(config)).data;
+  }
+
+  /**
+   * Send an authorized request to the Drive API, refreshing the access token once if it expired
+   * @param config - The axios request config
+   * @returns The full response, for callers that need its headers
+   */
+  private async requestResponse<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const send = () => this.http.request<T>({
+      ...config,
+      headers: { ...config.headers, Authorization: `Bearer ${this.credentials.accessToken}` }
+    });
+
+    try {
+      return await send();
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 401) {
+        throw error;
+      }
+
+      // Access tokens last an hour, renew and retry
+      const { access_token, refresh_token } = await this.requestNewAccessToken(this.credentials);
+      this.credentials.accessToken = access_token;
+      if (refresh_token) {
+        this.credentials.refreshToken = refresh_token;
+      }
+      this.storeTokens(this.instanceIndex, access_token, refresh_token);
+
+      return await send();
+    }
+  }
+
+  /**
+   * Write renewed tokens to the .env file and process.env, so a restart keeps them
+   * @param instanceIndex - The instance index for environment variable updates
+   * @param accessToken - The new access token
+   * @param refreshToken - The new refresh token, if the token endpoint sent one
+   */
+  private storeTokens(instanceIndex: number, accessToken: string, refreshToken?: string): void {
+    const patterns = this.getEnvVariablePatterns(instanceIndex);
+
+    const edits = [
+      {
+        pattern: `^${patterns.accessToken}=`,
+        newValue: accessToken
+      }
+    ];
+
+    // Google only sends a new refresh token when the old one was rotated
+    if (refreshToken) {
+      edits.push({
+        pattern: `^${patterns.refreshToken}=`,
+        newValue: refreshToken
+      });
+    }
+
+    EnvFileManager.editLines(edits);
+
+    // Update process.env for current session
+    process.env[patterns.accessToken] = accessToken;
+    if (refreshToken) {
+      process.env[patterns.refreshToken] = refreshToken;
+    }
+  }
+
+  /**
+   * Ask the token endpoint for a new access token
+   * @param credentials - The credentials object containing appKey, appSecret, refreshToken
+   * @returns The token endpoint response
+   */
+  private async requestNewAccessToken(credentials: Credentials): Promise<TokenResponse> {
+    const { appKey, appSecret, refreshToken } = credentials;
+
+    if (!refreshToken || !appKey || !appSecret) {
+      throw new Error('Missing required credentials for token refresh');
+    }
+
+    const response = await axios.post(GOOGLE_TOKEN_URL,
+      new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        client_id: appKey,
+        client_secret: appSecret
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        }
+      }
+    );
+
+    return response.data;
+  }
+}
+
+export default GoogleDriveProvider;
@@ -0,0 +1,266 @@
+import CloudProvider from '../cloud-provider.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EnvVariablePatterns, TokenResponse, Credentials, RefreshTokenResult,
+   AccountInfo, PhotoMetadata, ThumbnailResponse, ByteRange, FileDownloadStream } from '../types.js';
+import { ThumbnailHandler, BROWSER_IMAGE_TYPES, MAX_PASSTHROUGH_THUMBNAIL_BYTES } from '../thumbnail-handler.js';
+import { resolveRange } from '../byte-range.js';
+
+class LocalFolderProvider extends CloudProvider {
+  private rootPath: string;
+  private authenticated: boolean;
+
+  constructor(authenticated: boolean) {
+    super();
+    this.rootPath = '';
+    this.authenticated = authenticated;
+  }
+
+  /**
+   * Check if the provider is authenticated
+   * @returns True if the root folder is configured and readable, false otherwise
+   */
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  /**
+   * Get the environment variable patterns for the local folder provider
+   * @param instanceIndex - The instance index (0-based)
+   * @returns Object containing the environment variable patterns
+   */
+  getEnvVariablePatterns(instanceIndex: number): EnvVariablePatterns {
+    return {
+      rootPath: `LOCAL_ROOT_PATH_${instanceIndex}`
+    };
+  }
+
+  usesOAuth(): boolean {
+    return false;
+  }
+
+  getRequiredCredentialKeys(): string[] {
+    return ['rootPath'];
+  }
+
+  getAuthorizationUrl(appKey: string, redirectUri: string, state: string): string {
+    throw new Error('Local folder provider does not use OAuth');
+  }
+
+  async exchangeCodeForToken(code: string, appKey: string, appSecret: string, redirectUri: string): Promise<TokenResponse> {
+    throw new Error('Local folder provider does not use OAuth');
+  }
+
+  /**
+   * Get the provider type name
+   * @returns The provider type name
+   */
+  getProviderType(): string {
+    return 'local';
+  }
+
+  /**
+   * Authenticate the provider by checking that the configured root folder is readable
+   * @param credentials - The credentials object containing rootPath
+   * @returns True if the folder exists and is readable, false otherwise
+   */
+  authenticate(credentials: Credentials): boolean {
+    const { rootPath } = credentials;
+
+    if (!rootPath) {
+      console.log('Missing root path for local folder provider');
+      this.authenticated = false;
+      return false;
+    }
+
+    try {
+      const resolvedRoot = path.resolve(rootPath);
+      if (!fs.statSync(resolvedRoot).isDirectory()) {
+        throw new Error(`${resolvedRoot} is not a directory`);
+      }
+      fs.accessSync(resolvedRoot, fs.constants.R_OK);
+
+      this.rootPath = resolvedRoot;
+      this.authenticated = true;
+      console.log(`Successfully opened local folder ${resolvedRoot}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to open local folder:', error instanceof Error ? error.message : 'Unknown error');
+      this.authenticated = false;
+      return false;
+    }
+  }
+
+  async refreshToken(credentials: Credentials, instanceIndex: number): Promise<RefreshTokenResult> {
+    return {
+      success: false,
+      error: 'Local folder provider does not use access tokens'
+    };
+  }
+
+  /**
+   * Get the free space left on the disk or share holding the root folder
+   * @returns Number of bytes available
+   */
+  async getStorage(): Promise<number> {
+    try {
+      const stats = await fs.promises.statfs(this.rootPath);
+      return stats.bavail * stats.bsize;
+    } catch (err) {
+      throw new Error('Failed to fetch local folder storage info: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * List the files in a folder below the root folder
+   * @param folderPath - Folder relative to the root ('' for the root itself)
+   * @param recursive - Whether to descend into subfolders
+   * @param limit - Unused, the whole folder is read at once
+   * @param instanceIndex - The instance index stored on each entry
+   * @returns Metadata for every file found
+   */
+  async listFiles(folderPath: string = '', recursive: boolean = false, limit: number = 2000, instanceIndex: number = 0): Promise<PhotoMetadata[]> {
+    try {
+      const photoMetadata: PhotoMetadata[] = [];
+      const pending = [this.resolvePath(folderPath)];
+
+      while (pending.length > 0) {
+        const directory = pending.pop()!;
+        const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+
+        for (const entry of entries) {
+          const absolutePath = path.join(directory, entry.name);
+
+          if (entry.isDirectory()) {
+            if (recursive) {
+              pending.push(absolutePath);
+            }
+            continue;
+          }
+
+          if (!entry.isFile()) continue;
+
+          const stats = await fs.promises.stat(absolutePath);
+          const relativePath = this.toProviderPath(absolutePath);
+          photoMetadata.push(await ThumbnailHandler.convertToPhotoMetadata(`local:${relativePath}`,
+            entry.name, relativePath, stats.mtime, stats.size,
+            this.getProviderType(), instanceIndex));
+        }
+      }
+
+      return photoMetadata;
+    } catch (err) {
+      throw new Error('Failed to list files from local folder: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    return {
+      accountId: this.rootPath,
+      name: path.basename(this.rootPath) || this.rootPath,
+      email: os.hostname()
+    };
+  }
+
+  /**
+   * Get a thumbnail for a local file. There is no preview service on disk, so
+   * small browser-friendly images are returned unchanged.
+   * @param filePath - The path to the file, relative to the root folder
+   * @returns Promise containing thumbnail data or error
+   */
+  async getThumbnail(filePath: string): Promise<ThumbnailResponse> {
+    try {
+      if (!this.authenticated) {
+        return {
+          success: false,
+          error: 'Provider not authenticated'
+        };
+      }
+
+      const mimeType = BROWSER_IMAGE_TYPES[path.extname(filePath).toLowerCase()];
+      if (!mimeType) {
+        return {
+          success: false,
+          error: 'Thumbnail not available for this file type'
+        };
+      }
+
+      const absolutePath = this.resolvePath(filePath);
+      const stats = await fs.promises.stat(absolutePath);
+      if (stats.size > MAX_PASSTHROUGH_THUMBNAIL_BYTES) {
+        return {
+          success: false,
+          error: 'File too large to use as a thumbnail'
+        };
+      }
+
+      return {
+        success: true,
+        data: await fs.promises.readFile(absolutePath),
+        mimeType: mimeType
+      };
+    } catch (err) {
+      console.error('Failed to get thumbnail from local folder:', err);
+
+      let errorMessage = 'Failed to get thumbnail';
+      if (err instanceof Error) {
+        errorMessage = (err as NodeJS.ErrnoException).code === 'ENOENT' ? 'File not found' : err.message;
+      }
+
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Stream a file from the local folder
+   * @param filePath - The path to the file, relative to the root folder
+   * @param range - Optional byte range to read instead of the whole file
+   * @returns The content stream and the bytes it covers
+   */
+  async downloadFile(filePath: string, range?: ByteRange): Promise<FileDownloadStream> {
+    if (!this.authenticated) {
+      throw new Error('Provider not authenticated');
+    }
+
+    const absolutePath = this.resolvePath(filePath);
+    const stats = await fs.promises.stat(absolutePath);
+    const { start, end, partial } = resolveRange(range, stats.size);
+
+    return {
+      stream: fs.createReadStream(absolutePath, { start, end }),
+      start: start,
+      end: end,
+      totalSize: stats.size,
+      partial: partial,
+      contentType: BROWSER_IMAGE_TYPES[path.extname(filePath).toLowerCase()]
+    };
+  }
+
+  /**
+   * Resolve a provider path to an absolute path, refusing paths outside the root folder
+   * @param filePath - Path relative to the root folder (e.g. '/2023/img.jpg')
+   * @returns The absolute path on disk
+   */
+  private resolvePath(filePath: string): string {
+    const absolutePath = path.resolve(this.rootPath, '.' + path.posix.join('/', filePath));
+    if (absolutePath !== this.rootPath && !absolutePath.startsWith(this.rootPath + path.sep)) {
+      throw new Error(`Path ${filePath} is outside the root folder`);
+    }
+    return absolutePath;
+  }
+
+  /**
+   * Convert an absolute path to the '/'-separated path stored in photo metadata
+   * @param absolutePath - The absolute path on disk
+   * @returns Path relative to the root folder, starting with '/'
+   */
+  private toProviderPath(absolutePath: string): string {
+    return '/' + path.relative(this.rootPath, absolutePath).split(path.sep).join('/');
+  }
+}
+
+export default LocalFolderProvider;
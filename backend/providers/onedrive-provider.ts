@@ -0,0 +1,468 @@
+import CloudProvider from '../cloud-provider.js';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import EnvFileManager from '../env-file-manager.js';
+import { EnvVariablePatterns, TokenResponse, Credentials, RefreshTokenResult,
+   AccountInfo, PhotoMetadata, ThumbnailResponse, OneDriveItem, OneDriveItemPage, OneDriveDrive, OneDriveUser, OneDriveThumbnailSets, ByteRange, FileDownloadStream, ThumbnailOptions, MediaMetadata } from '../types.js';
+import { ThumbnailHandler, THUMBNAIL_SIZES, DEFAULT_THUMBNAIL_OPTIONS } from '../thumbnail-handler.js';
+import { formatRangeHeader, parseContentRange, RANGE_NOT_SATISFIABLE } from '../byte-range.js';
+
+const MICROSOFT_AUTH_URL = 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize';
+const MICROSOFT_TOKEN_URL = 'https://login.microsoftonline.com/common/oauth2/v2.0/token';
+const GRAPH_API_URL = 'https://graph.microsoft.com/v1.0';
+
+// offline_access is what makes the token endpoint return a refresh token
+const GRAPH_SCOPE = 'offline_access Files.Read User.Read';
+const ITEM_FIELDS = 'id,name,size,file,folder,lastModifiedDateTime';
+
+class OneDriveProvider extends CloudProvider {
+  private http: AxiosInstance;
+  private authenticated: boolean;
+  private credentials: Credentials = {};
+  private instanceIndex: number = 0;
+
+  constructor(authenticated: boolean) {
+    super();
+    this.http = axios.create({ baseURL: GRAPH_API_URL });
+    this.authenticated = authenticated;
+  }
+
+  /**
+   * Check if the provider is authenticated
+   * @returns True if authenticated, false otherwise
+   */
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  /**
+   * Remember which instance this is, so renewed tokens are written to its variables
+   * @param instanceIndex - The instance index (0-based)
+   */
+  setInstanceIndex(instanceIndex: number): void {
+    this.instanceIndex = instanceIndex;
+  }
+
+  /**
+   * Get the environment variable patterns for OneDrive provider
+   * @param instanceIndex - The instance index (0-based)
+   * @returns Object containing the environment variable patterns
+   */
+  getEnvVariablePatterns(instanceIndex: number): EnvVariablePatterns {
+    return {
+      appKey: `ONEDRIVE_APP_KEY_${instanceIndex}`,
+      appSecret: `ONEDRIVE_APP_SECRET_${instanceIndex}`,
+      accessToken: `ONEDRIVE_ACCESS_TOKEN_${instanceIndex}`,
+      refreshToken: `ONEDRIVE_REFRESH_TOKEN_${instanceIndex}`
+    };
+  }
+
+  /**
+   * Get the OAuth authorization URL for OneDrive
+   * @param appKey - The application (client) ID
+   * @param redirectUri - The redirect URI
+   * @param state - The state parameter (usually instance index)
+   * @returns The authorization URL
+   */
+  getAuthorizationUrl(appKey: string, redirectUri: string, state: string): string {
+    const params = new URLSearchParams({
+      client_id: appKey,
+      response_type: 'code',
+      redirect_uri: redirectUri,
+      response_mode: 'query',
+      scope: GRAPH_SCOPE,
+      state: state
+    });
+    return `${MICROSOFT_AUTH_URL}?${params.toString()}`;
+  }
+
+  /**
+   * Exchange authorization code for access token
+   * @param code - The authorization code
+   * @param appKey - The application (client) ID
+   * @param appSecret - The client secret
+   * @param redirectUri - The redirect URI
+   * @returns Object containing access_token and refresh_token
+   */
+  async exchangeCodeForToken(code: string, appKey: string, appSecret: string, redirectUri: string): Promise<TokenResponse> {
+    const response = await axios.post(MICROSOFT_TOKEN_URL,
+      new URLSearchParams({
+        code: code,
+        grant_type: 'authorization_code',
+        client_id: appKey,
+        client_secret: appSecret,
+        redirect_uri: redirectUri,
+        scope: GRAPH_SCOPE
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        }
+      }
+    );
+
+    return response.data;
+  }
+
+  /**
+   * Get the provider type name
+   * @returns The provider type name
+   */
+  getProviderType(): string {
+    return 'onedrive';
+  }
+
+  /**
+   * Authenticate the provider using provided credentials
+   * @param credentials - The credentials object containing appKey, appSecret, accessToken, refreshToken
+   * @returns True if authentication was successful, false otherwise
+   */
+  authenticate(credentials: Credentials): boolean {
+    const { appKey, appSecret, accessToken, refreshToken } = credentials;
+
+    if (!accessToken || !refreshToken || !appKey || !appSecret) {
+      console.log('Missing authentication credentials for OneDrive provider');
+      this.authenticated = false;
+      return false;
+    }
+
+    this.credentials = { appKey, appSecret, accessToken, refreshToken };
+    this.authenticated = true;
+    console.log('Successfully authenticated OneDrive provider');
+    return true;
+  }
+
+  /**
+   * Refresh the access token using the refresh token
+   * @param credentials - The credentials object containing appKey, appSecret, refreshToken
+   * @param instanceIndex - The instance index for environment variable updates
+   * @returns Object containing success status and new access token
+   */
+  async refreshToken(credentials: Credentials, instanceIndex: number): Promise<RefreshTokenResult> {
+    try {
+      const { access_token, refresh_token } = await this.requestNewAccessToken(credentials);
+
+      this.credentials = {
+        ...credentials,
+        accessToken: access_token,
+        refreshToken: refresh_token || credentials.refreshToken
+      };
+      this.authenticated = true;
+      this.storeTokens(instanceIndex, access_token, refresh_token);
+
+      console.log('Successfully refreshed OneDrive access token');
+
+      return {
+        success: true,
+        accessToken: access_token,
+        refreshToken: refresh_token || credentials.refreshToken,
+        message: 'Access token refreshed successfully'
+      };
+
+    } catch (error) {
+      console.error('Failed to refresh OneDrive access token:', error instanceof Error ? error.message : 'Unknown error');
+
+      let errorMessage = 'Failed to refresh access token';
+      if (axios.isAxiosError(error) && error.response?.data?.error === 'invalid_grant') {
+        errorMessage = 'Refresh token is invalid or expired. Re-authentication required.';
+      } else if (axios.isAxiosError(error) && error.response?.data?.error === 'invalid_client') {
+        errorMessage = 'Invalid client credentials.';
+      }
+
+      return {
+        success: false,
+        error: errorMessage,
+        details: axios.isAxiosError(error) ? error.response?.data?.error_description || error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async getStorage(): Promise<number> {
+    try {
+      const res = await this.request<OneDriveDrive>({ url: '/me/drive', params: { $select: 'quota' } });
+      return Number(res.quota.remaining);
+    } catch (err) {
+      throw new Error('Failed to fetch OneDrive storage info: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  async listFiles(folderPath: string = '', recursive: boolean = false, limit: number = 200, instanceIndex: number = 0): Promise<PhotoMetadata[]> {
+    try {
+      const photoMetadata: PhotoMetadata[] = [];
+      const pending = [folderPath.replace(/\/+$/, '')];
+
+      while (pending.length > 0) {
+        const folder = pending.shift()!;
+        let nextLink: string | undefined = `${this.itemUrl(folder)}/children`;
+        let params: object | undefined = { $select: ITEM_FIELDS, $top: Math.min(limit, 999) };
+
+        while (nextLink) {
+          const res: OneDriveItemPage = await this.request({ url: nextLink, params: params });
+
+          for (const item of res.value) {
+            const itemPath = `${folder}/${item.name}`;
+
+            if (item.folder) {
+              if (recursive) {
+                pending.push(itemPath);
+              }
+              continue;
+            }
+
+            if (!item.file) continue;
+
+            photoMetadata.push(await ThumbnailHandler.convertToPhotoMetadata(item.id,
+              item.name, itemPath, new Date(item.lastModifiedDateTime), item.size,
+              this.getProviderType(), instanceIndex, undefined, item.file.mimeType));
+          }
+
+          // nextLink already carries the query string
+          nextLink = res['@odata.nextLink'];
+          params = undefined;
+        }
+      }
+
+      return photoMetadata;
+    } catch (err) {
+      throw new Error('Failed to list files from OneDrive: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Get the capture details OneDrive extracted from a photo or video
+   * @param filePath - The path to the file
+   * @returns The media metadata, or null if OneDrive has none for the file
+   */
+  async getMediaMetadata(filePath: string): Promise<MediaMetadata | null> {
+    const item = await this.request<OneDriveItem>({ url: this.itemUrl(filePath), params: { $select: 'photo,image,video,location' } });
+    if (!item.photo && !item.image && !item.video && !item.location) {
+      return null;
+    }
+
+    return {
+      dateTaken: item.photo?.takenDateTime ? new Date(item.photo.takenDateTime) : undefined,
+      dateSource: 'media_info',
+      cameraMake: item.photo?.cameraMake,
+      cameraModel: item.photo?.cameraModel,
+      width: item.video?.width ?? item.image?.width,
+      height: item.video?.height ?? item.image?.height,
+      orientation: item.photo?.orientation,
+      duration: item.video?.duration,
+      latitude: item.location?.latitude,
+      longitude: item.location?.longitude
+    };
+  }
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    try {
+      const res = await this.request<OneDriveUser>({ url: '/me', params: { $select: 'id,displayName,mail,userPrincipalName' } });
+      return {
+        accountId: res.id,
+        name: res.displayName,
+        email: res.mail || res.userPrincipalName
+      };
+    } catch (err) {
+      throw new Error('Failed to get OneDrive account info: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Get a thumbnail for a file from OneDrive's thumbnail set
+   * @param filePath - The path to the file
+   * @param options - Size preset and mode, OneDrive ignores the format
+   * @returns Promise containing thumbnail data or error
+   */
+  async getThumbnail(filePath: string, options: ThumbnailOptions = DEFAULT_THUMBNAIL_OPTIONS): Promise<ThumbnailResponse> {
+    try {
+      if (!this.authenticated) {
+        return {
+          success: false,
+          error: 'Provider not authenticated'
+        };
+      }
+
+      // Custom sizes: c{w}x{h} scales to fit, c{w}x{h}_crop fills the box and crops
+      const { width, height } = THUMBNAIL_SIZES[options.size];
+      const sizeName = `c${width}x${height}${options.mode === 'strict' ? '_crop' : ''}`;
+      const res = await this.request<OneDriveThumbnailSets>({ url: `${this.itemUrl(filePath)}/thumbnails`, params: { select: sizeName } });
+      const thumbnail = res.value && res.value[0] && res.value[0][sizeName];
+
+      if (!thumbnail) {
+        return {
+          success: false,
+          error: 'Thumbnail not available for this file type'
+        };
+      }
+
+      // Thumbnail URLs are pre-authenticated and must be fetched without the Graph token
+      const response = await axios.get(thumbnail.url, { responseType: 'arraybuffer' });
+
+      return {
+        success: true,
+        data: Buffer.from(response.data),
+        mimeType: response.headers['content-type'] || 'image/jpeg'
+      };
+
+    } catch (err) {
+      console.error('Failed to get thumbnail from OneDrive:', err instanceof Error ? err.message : err);
+
+      let errorMessage = 'Failed to get thumbnail';
+      if (axios.isAxiosError(err) && err.response?.status === 404) {
+        errorMessage = 'File not found';
+      } else if (err instanceof Error) {
+        errorMessage = err.message;
+      }
+
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Stream the original file from OneDrive
+   * @param filePath - The path to the file
+   * @param range - Optional byte range to fetch instead of the whole file
+   * @returns The content stream and the bytes it covers
+   */
+  async downloadFile(filePath: string, range?: ByteRange): Promise<FileDownloadStream> {
+    if (!this.authenticated) {
+      throw new Error('Provider not authenticated');
+    }
+
+    try {
+      const item = await this.request<OneDriveItem>({ url: this.itemUrl(filePath), params: { select: 'id,file,@microsoft.graph.downloadUrl' } });
+      const downloadUrl = item['@microsoft.graph.downloadUrl'];
+      if (!downloadUrl) {
+        throw new Error('No download URL returned for this item');
+      }
+
+      // Like thumbnails, the download URL is pre-authenticated
+      const rangeHeader = formatRangeHeader(range);
+      const response = await axios.get(downloadUrl, {
+        headers: rangeHeader ? { Range: rangeHeader } : {},
+        responseType: 'stream'
+      });
+
+      const served = parseContentRange(response.headers['content-range'], parseInt(response.headers['content-length']));
+      return {
+        stream: response.data,
+        ...served,
+        contentType: item.file?.mimeType
+      };
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 416) {
+        throw new Error(`Failed to download file from OneDrive: ${RANGE_NOT_SATISFIABLE}`);
+      }
+      throw new Error('Failed to download file from OneDrive: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Build the Graph URL addressing a drive item by its path
+   * @param itemPath - The path (e.g. '/Pictures/img.jpg', '' for the root)
+   * @returns The relative Graph URL of the item
+   */
+  private itemUrl(itemPath: string): string {
+    const segments = itemPath.split('/').filter(Boolean);
+    if (segments.length === 0) {
+      return '/me/drive/root';
+    }
+    return `/me/drive/root:/${segments.map(encodeURIComponent).join('/')}:`;
+  }
+
+  /**
+   * Send an authorized request to the Graph API, refreshing the access token once if it expired
+   * @param config - The axios request config
+   * @returns The response body
+   */
+  private async request<T>(config: AxiosRequestConfig): Promise<T> {
+    const send = () => this.http.request<T>({
+      ...config,
+      headers: { ...config.headers, Authorization: `Bearer ${this.credentials.accessToken}` }
+    });
+
+    try {
+      return (await send()).data;
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 401) {
+        throw error;
+      }
+
+      // Access tokens last about an hour, renew and retry
+      const { access_token, refresh_token } = await this.requestNewAccessToken(this.credentials);
+      this.credentials.accessToken = access_token;
+      if (refresh_token) {
+        this.credentials.refreshToken = refresh_token;
+      }
+      this.storeTokens(this.instanceIndex, access_token, refresh_token);
+
+      return (await send()).data;
+    }
+  }
+
+  /**
+   * Write renewed tokens to the .env file and process.env, so a restart keeps them
+   * @param instanceIndex - The instance index for environment variable updates
+   * @param accessToken - The new access token
+   * @param refreshToken - The new refresh token, if the token endpoint sent one
+   */
+  private storeTokens(instanceIndex: number, accessToken: string, refreshToken?: string): void {
+    const patterns = this.getEnvVariablePatterns(instanceIndex);
+
+    const edits = [
+      {
+        pattern: `^${patterns.accessToken}=`,
+        newValue: accessToken
+      }
+    ];
+
+    // Microsoft rotates refresh tokens, keep the newest one
+    if (refreshToken) {
+      edits.push({
+        pattern: `^${patterns.refreshToken}=`,
+        newValue: refreshToken
+      });
+    }
+
+    EnvFileManager.editLines(edits);
+
+    // Update process.env for current session
+    process.env[patterns.accessToken] = accessToken;
+    if (refreshToken) {
+      process.env[patterns.refreshToken] = refreshToken;
+    }
+  }
+
+  /**
+   * Ask the token endpoint for a new access token
+   * @param credentials - The credentials object containing appKey, appSecret, refreshToken
+   * @returns The token endpoint response
+   */
+  private async requestNewAccessToken(credentials: Credentials): Promise<TokenResponse> {
+    const { appKey, appSecret, refreshToken } = credentials;
+
+    if (!refreshToken || !appKey || !appSecret) {
+      throw new Error('Missing required credentials for token refresh');
+    }
+
+    const response = await axios.post(MICROSOFT_TOKEN_URL,
+      new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        client_id: appKey,
+        client_secret: appSecret,
+        scope: GRAPH_SCOPE
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        }
+      }
+    );
+
+    return response.data;
+  }
+}
+
+export default OneDriveProvider;
@@ -0,0 +1,318 @@
+import CloudProvider from '../cloud-provider.js';
+import path from 'path';
+import { Readable } from 'stream';
+import { S3Client, ListObjectsV2Command, ListObjectsV2CommandOutput, GetObjectCommand, HeadBucketCommand } from '@aws-sdk/client-s3';
+import { EnvVariablePatterns, TokenResponse, Credentials, RefreshTokenResult,
+   AccountInfo, PhotoMetadata, ThumbnailResponse, ByteRange, FileDownloadStream } from '../types.js';
+import { ThumbnailHandler, BROWSER_IMAGE_TYPES, MAX_PASSTHROUGH_THUMBNAIL_BYTES } from '../thumbnail-handler.js';
+import { formatRangeHeader, parseContentRange, RANGE_NOT_SATISFIABLE } from '../byte-range.js';
+
+class S3Provider extends CloudProvider {
+  private client: S3Client | null = null;
+  private authenticated: boolean;
+  private bucket: string = '';
+  private prefix: string = '';
+  private endpoint: string = '';
+  private region: string = '';
+  private quotaBytes: number | null = null;
+
+  constructor(authenticated: boolean) {
+    super();
+    this.authenticated = authenticated;
+  }
+
+  /**
+   * Check if the provider is authenticated
+   * @returns True if authenticated, false otherwise
+   */
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  usesOAuth(): boolean {
+    return false;
+  }
+
+  getRequiredCredentialKeys(): string[] {
+    return ['bucket', 'accessKeyId', 'secretAccessKey'];
+  }
+
+  /**
+   * Get the environment variable patterns for S3 provider
+   * @param instanceIndex - The instance index (0-based)
+   * @returns Object containing the environment variable patterns
+   */
+  getEnvVariablePatterns(instanceIndex: number): EnvVariablePatterns {
+    return {
+      endpoint: `S3_ENDPOINT_${instanceIndex}`,
+      region: `S3_REGION_${instanceIndex}`,
+      bucket: `S3_BUCKET_${instanceIndex}`,
+      prefix: `S3_PREFIX_${instanceIndex}`,
+      accessKeyId: `S3_ACCESS_KEY_ID_${instanceIndex}`,
+      secretAccessKey: `S3_SECRET_ACCESS_KEY_${instanceIndex}`,
+      quotaBytes: `S3_QUOTA_BYTES_${instanceIndex}`
+    };
+  }
+
+  getAuthorizationUrl(appKey: string, redirectUri: string, state: string): string {
+    throw new Error('S3 provider does not use OAuth');
+  }
+
+  async exchangeCodeForToken(code: string, appKey: string, appSecret: string, redirectUri: string): Promise<TokenResponse> {
+    throw new Error('S3 provider does not use OAuth');
+  }
+
+  /**
+   * Get the provider type name
+   * @returns The provider type name
+   */
+  getProviderType(): string {
+    return 's3';
+  }
+
+  /**
+   * Authenticate the provider using an access key pair
+   * @param credentials - The credentials object containing bucket, accessKeyId, secretAccessKey
+   * and optionally endpoint (for B2, Wasabi, MinIO...), region, prefix and quotaBytes
+   * @returns True if a client could be created, false otherwise
+   */
+  authenticate(credentials: Credentials): boolean {
+    try {
+      const { endpoint, region, bucket, prefix, accessKeyId, secretAccessKey, quotaBytes } = credentials;
+
+      if (!bucket || !accessKeyId || !secretAccessKey) {
+        console.log('Missing authentication credentials for S3 provider');
+        this.authenticated = false;
+        return false;
+      }
+
+      this.bucket = bucket;
+      this.prefix = prefix ? prefix.replace(/^\/+|\/+$/g, '') + '/' : '';
+      this.endpoint = endpoint || '';
+      this.region = region || 'us-east-1';
+      this.quotaBytes = quotaBytes ? Number(quotaBytes) : null;
+
+      this.client = new S3Client({
+        region: this.region,
+        endpoint: endpoint || undefined,
+        // Most S3-compatible servers (MinIO in particular) only support path-style URLs
+        forcePathStyle: !!endpoint,
+        credentials: {
+          accessKeyId: accessKeyId,
+          secretAccessKey: secretAccessKey
+        }
+      });
+
+      this.authenticated = true;
+      console.log(`Successfully configured S3 provider for bucket ${bucket}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to authenticate S3 provider:', error instanceof Error ? error.message : 'Unknown error');
+      this.authenticated = false;
+      return false;
+    }
+  }
+
+  async refreshToken(credentials: Credentials, instanceIndex: number): Promise<RefreshTokenResult> {
+    return {
+      success: false,
+      error: 'S3 provider does not use access tokens'
+    };
+  }
+
+  /**
+   * Get the free space in the bucket. Object storage has no fixed size, so this is
+   * only bounded when a quota was configured for the instance.
+   * @returns Number of bytes available
+   */
+  async getStorage(): Promise<number> {
+    try {
+      if (this.quotaBytes === null) {
+        return Number.MAX_SAFE_INTEGER;
+      }
+
+      let used = 0;
+      await this.forEachObject(this.prefix, true, 1000, async (object) => {
+        used += object.Size || 0;
+      });
+      return this.quotaBytes - used;
+    } catch (err) {
+      throw new Error('Failed to fetch S3 storage info: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  async listFiles(folderPath: string = '', recursive: boolean = false, limit: number = 1000, instanceIndex: number = 0): Promise<PhotoMetadata[]> {
+    try {
+      const folderKey = folderPath.replace(/^\/+|\/+$/g, '');
+      const listPrefix = this.prefix + (folderKey ? folderKey + '/' : '');
+      const photoMetadata: PhotoMetadata[] = [];
+
+      await this.forEachObject(listPrefix, recursive, limit, async (object) => {
+        // Skip "folder" placeholder objects
+        if (!object.Key || object.Key.endsWith('/')) return;
+
+        photoMetadata.push(await ThumbnailHandler.convertToPhotoMetadata(object.Key,
+          path.posix.basename(object.Key), this.toProviderPath(object.Key),
+          object.LastModified || new Date(0), object.Size || 0,
+          this.getProviderType(), instanceIndex));
+      });
+
+      return photoMetadata;
+    } catch (err) {
+      throw new Error('Failed to list files from S3: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    try {
+      await this.getClient().send(new HeadBucketCommand({ Bucket: this.bucket }));
+      return {
+        accountId: `${this.endpoint || 'aws'}/${this.bucket}`,
+        name: this.prefix ? `${this.bucket}/${this.prefix}` : this.bucket,
+        email: this.endpoint ? new URL(this.endpoint).host : `s3.${this.region}.amazonaws.com`
+      };
+    } catch (err) {
+      throw new Error('Failed to get S3 bucket info: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Get a thumbnail for an object. Object storage has no preview service, so
+   * small browser-friendly images are returned unchanged.
+   * @param filePath - The path to the file, relative to the configured prefix
+   * @returns Promise containing thumbnail data or error
+   */
+  async getThumbnail(filePath: string): Promise<ThumbnailResponse> {
+    try {
+      if (!this.authenticated) {
+        return {
+          success: false,
+          error: 'Provider not authenticated'
+        };
+      }
+
+      const mimeType = BROWSER_IMAGE_TYPES[path.posix.extname(filePath).toLowerCase()];
+      if (!mimeType) {
+        return {
+          success: false,
+          error: 'Thumbnail not available for this file type'
+        };
+      }
+
+      const res = await this.getClient().send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toObjectKey(filePath)
+      }));
+
+      if ((res.ContentLength || 0) > MAX_PASSTHROUGH_THUMBNAIL_BYTES) {
+        res.Body?.transformToWebStream().cancel();
+        return {
+          success: false,
+          error: 'File too large to use as a thumbnail'
+        };
+      }
+
+      return {
+        success: true,
+        data: Buffer.from(await res.Body!.transformToByteArray()),
+        mimeType: mimeType
+      };
+    } catch (err) {
+      console.error('Failed to get thumbnail from S3:', err instanceof Error ? err.message : err);
+
+      let errorMessage = 'Failed to get thumbnail';
+      if (err instanceof Error) {
+        errorMessage = err.name === 'NoSuchKey' ? 'File not found' : err.message;
+      }
+
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Stream an object from the bucket
+   * @param filePath - The path to the file, relative to the configured prefix
+   * @param range - Optional byte range to fetch instead of the whole object
+   * @returns The content stream and the bytes it covers
+   */
+  async downloadFile(filePath: string, range?: ByteRange): Promise<FileDownloadStream> {
+    try {
+      const res = await this.getClient().send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toObjectKey(filePath),
+        Range: formatRangeHeader(range)
+      }));
+
+      const served = parseContentRange(res.ContentRange, res.ContentLength || 0);
+      return {
+        // In Node the SDK returns the body as an IncomingMessage
+        stream: res.Body as Readable,
+        ...served,
+        contentType: res.ContentType
+      };
+    } catch (err) {
+      if (err instanceof Error && err.name === 'InvalidRange') {
+        throw new Error(`Failed to download file from S3: ${RANGE_NOT_SATISFIABLE}`);
+      }
+      throw new Error('Failed to download file from S3: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Page through the objects under a key prefix
+   * @param listPrefix - The key prefix to list
+   * @param recursive - Whether to include objects in nested "folders"
+   * @param limit - Page size for each ListObjectsV2 call
+   * @param callback - Called once per object
+   */
+  private async forEachObject(listPrefix: string, recursive: boolean, limit: number,
+    callback: (object: NonNullable<ListObjectsV2CommandOutput['Contents']>[number]) => Promise<void>): Promise<void> {
+    let continuationToken: string | undefined;
+
+    do {
+      const res = await this.getClient().send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: listPrefix,
+        Delimiter: recursive ? undefined : '/',
+        MaxKeys: Math.min(limit, 1000),
+        ContinuationToken: continuationToken
+      }));
+
+      for (const object of res.Contents || []) {
+        await callback(object);
+      }
+
+      continuationToken = res.IsTruncated ? res.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  private getClient(): S3Client {
+    if (!this.client) {
+      throw new Error('Provider not authenticated');
+    }
+    return this.client;
+  }
+
+  /**
+   * Convert an object key to the '/'-separated path stored in photo metadata
+   * @param key - The object key
+   * @returns Path relative to the configured prefix, starting with '/'
+   */
+  private toProviderPath(key: string): string {
+    return '/' + key.substring(this.prefix.length);
+  }
+
+  /**
+   * Convert a provider path back to its object key
+   * @param filePath - Path relative to the configured prefix
+   * @returns The object key
+   */
+  private toObjectKey(filePath: string): string {
+    return this.prefix + filePath.replace(/^\/+/, '');
+  }
+}
+
+export default S3Provider;
@@ -0,0 +1,390 @@
+import CloudProvider from '../cloud-provider.js';
+import path from 'path';
+import axios, { AxiosInstance } from 'axios';
+import { XMLParser } from 'fast-xml-parser';
+import { EnvVariablePatterns, TokenResponse, Credentials, RefreshTokenResult,
+   AccountInfo, PhotoMetadata, ThumbnailResponse, WebDavResource, ByteRange, FileDownloadStream, ThumbnailOptions } from '../types.js';
+import { ThumbnailHandler, BROWSER_IMAGE_TYPES, MAX_PASSTHROUGH_THUMBNAIL_BYTES,
+  THUMBNAIL_SIZES, DEFAULT_THUMBNAIL_OPTIONS } from '../thumbnail-handler.js';
+import { formatRangeHeader, parseContentRange, RANGE_NOT_SATISFIABLE } from '../byte-range.js';
+
+// oc:fileid is a Nextcloud/ownCloud extension, other servers simply omit it
+const PROPFIND_BODY = `<?xml version="1.0" encoding="UTF-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+  <d:prop>
+    <d:resourcetype/>
+    <d:getcontentlength/>
+    <d:getcontenttype/>
+    <d:getlastmodified/>
+    <d:getetag/>
+    <d:quota-available-bytes/>
+    <oc:fileid/>
+  </d:prop>
+</d:propfind>`;
+
+class WebDavProvider extends CloudProvider {
+  private http: AxiosInstance | null = null;
+  private authenticated: boolean;
+  private serverUrl: string = '';
+  private username: string = '';
+  private xmlParser: XMLParser;
+  // Whether the server has a Nextcloud preview endpoint, null until it first answers
+  private previewsAvailable: boolean | null = null;
+
+  constructor(authenticated: boolean) {
+    super();
+    this.authenticated = authenticated;
+    this.xmlParser = new XMLParser({
+      removeNSPrefix: true,
+      parseTagValue: false,
+      isArray: (name) => name === 'response' || name === 'propstat'
+    });
+  }
+
+  /**
+   * Check if the provider is authenticated
+   * @returns True if authenticated, false otherwise
+   */
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  usesOAuth(): boolean {
+    return false;
+  }
+
+  getRequiredCredentialKeys(): string[] {
+    return ['serverUrl', 'username', 'appPassword'];
+  }
+
+  /**
+   * Get the environment variable patterns for WebDAV provider
+   * @param instanceIndex - The instance index (0-based)
+   * @returns Object containing the environment variable patterns
+   */
+  getEnvVariablePatterns(instanceIndex: number): EnvVariablePatterns {
+    return {
+      serverUrl: `WEBDAV_SERVER_URL_${instanceIndex}`,
+      username: `WEBDAV_USERNAME_${instanceIndex}`,
+      appPassword: `WEBDAV_APP_PASSWORD_${instanceIndex}`
+    };
+  }
+
+  getAuthorizationUrl(appKey: string, redirectUri: string, state: string): string {
+    throw new Error('WebDAV provider does not use OAuth');
+  }
+
+  async exchangeCodeForToken(code: string, appKey: string, appSecret: string, redirectUri: string): Promise<TokenResponse> {
+    throw new Error('WebDAV provider does not use OAuth');
+  }
+
+  /**
+   * Get the provider type name
+   * @returns The provider type name
+   */
+  getProviderType(): string {
+    return 'webdav';
+  }
+
+  /**
+   * Authenticate the provider using a server URL, username and app password
+   * @param credentials - The credentials object containing serverUrl, username, appPassword.
+   * For Nextcloud the server URL is the files root, e.g. https://cloud.example.com/remote.php/dav/files/alice
+   * @returns True if a client could be created, false otherwise
+   */
+  authenticate(credentials: Credentials): boolean {
+    try {
+      const { serverUrl, username, appPassword } = credentials;
+
+      if (!serverUrl || !username || !appPassword) {
+        console.log('Missing authentication credentials for WebDAV provider');
+        this.authenticated = false;
+        return false;
+      }
+
+      this.serverUrl = serverUrl.replace(/\/+$/, '');
+      this.username = username;
+      this.http = axios.create({
+        baseURL: this.serverUrl,
+        auth: { username: username, password: appPassword }
+      });
+
+      this.authenticated = true;
+      console.log(`Successfully configured WebDAV provider for ${this.serverUrl}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to authenticate WebDAV provider:', error instanceof Error ? error.message : 'Unknown error');
+      this.authenticated = false;
+      return false;
+    }
+  }
+
+  async refreshToken(credentials: Credentials, instanceIndex: number): Promise<RefreshTokenResult> {
+    return {
+      success: false,
+      error: 'WebDAV provider does not use access tokens'
+    };
+  }
+
+  /**
+   * Get the free space reported by the server for the root collection
+   * @returns Number of bytes available
+   */
+  async getStorage(): Promise<number> {
+    try {
+      const [root] = await this.propfind('', '0');
+      // Negative values mean the quota is unknown or unlimited (RFC 4331)
+      if (root.quotaAvailable === undefined || root.quotaAvailable < 0) {
+        return Number.MAX_SAFE_INTEGER;
+      }
+      return root.quotaAvailable;
+    } catch (err) {
+      throw new Error('Failed to fetch WebDAV storage info: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * List the files in a collection. Many servers refuse "Depth: infinity",
+   * so recursive listings walk the tree one "Depth: 1" request at a time.
+   */
+  async listFiles(folderPath: string = '', recursive: boolean = false, limit: number = 2000, instanceIndex: number = 0): Promise<PhotoMetadata[]> {
+    try {
+      const photoMetadata: PhotoMetadata[] = [];
+      const pending = [folderPath.replace(/\/+$/, '')];
+
+      while (pending.length > 0) {
+        const folder = pending.shift()!;
+        // The first resource is the collection itself
+        const [, ...children] = await this.propfind(folder, '1');
+
+        for (const resource of children) {
+          if (resource.isCollection) {
+            if (recursive) {
+              pending.push(resource.path);
+            }
+            continue;
+          }
+
+          photoMetadata.push(await ThumbnailHandler.convertToPhotoMetadata(resource.fileId || resource.path,
+            path.posix.basename(resource.path), resource.path, resource.lastModified, resource.size,
+            this.getProviderType(), instanceIndex, undefined, resource.contentType));
+        }
+      }
+
+      return photoMetadata;
+    } catch (err) {
+      throw new Error('Failed to list files from WebDAV: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    try {
+      await this.propfind('', '0');
+      return {
+        accountId: `${this.username}@${this.serverUrl}`,
+        name: this.username,
+        email: new URL(this.serverUrl).host
+      };
+    } catch (err) {
+      throw new Error('Failed to get WebDAV account info: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Get a thumbnail for a file, using the Nextcloud preview endpoint when the
+   * server has one and small browser-friendly originals otherwise
+   * @param filePath - The path to the file, relative to the server URL
+   * @param options - Size preset and mode for previews, originals ignore them
+   * @returns Promise containing thumbnail data or error
+   */
+  async getThumbnail(filePath: string, options: ThumbnailOptions = DEFAULT_THUMBNAIL_OPTIONS): Promise<ThumbnailResponse> {
+    try {
+      if (!this.authenticated) {
+        return {
+          success: false,
+          error: 'Provider not authenticated'
+        };
+      }
+
+      const previewUrl = this.getPreviewUrl();
+      if (previewUrl && this.previewsAvailable !== false) {
+        const [resource] = await this.propfind(filePath, '0');
+        if (resource.fileId) {
+          // a=1 keeps the aspect ratio, otherwise the preview is cropped to fill the box
+          const { width, height } = THUMBNAIL_SIZES[options.size];
+          const previewParams = options.mode === 'bestfit'
+            ? { fileId: resource.fileId, x: width, y: height, a: 1 }
+            : { fileId: resource.fileId, x: width, y: height, a: 0, mode: 'cover' };
+          try {
+            const response = await this.getHttp().get(previewUrl, {
+              params: previewParams,
+              responseType: 'arraybuffer'
+            });
+            this.previewsAvailable = true;
+            return {
+              success: true,
+              data: Buffer.from(response.data),
+              mimeType: response.headers['content-type'] || 'image/png'
+            };
+          } catch (error) {
+            // 501, or a 404 before any preview was served, means there is no preview endpoint.
+            // Later 404s mean no preview for this file, timeouts and 5xx are retried next time.
+            const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+            if (status === 501 || (status === 404 && this.previewsAvailable === null)) {
+              console.warn(`Nextcloud previews unavailable on ${this.serverUrl}, falling back to originals`);
+              this.previewsAvailable = false;
+            }
+          }
+        }
+      }
+
+      return await this.getPassthroughThumbnail(filePath);
+    } catch (err) {
+      console.error('Failed to get thumbnail from WebDAV:', err instanceof Error ? err.message : err);
+
+      let errorMessage = 'Failed to get thumbnail';
+      if (axios.isAxiosError(err) && err.response?.status === 404) {
+        errorMessage = 'File not found';
+      } else if (err instanceof Error) {
+        errorMessage = err.message;
+      }
+
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Stream the original file from the WebDAV server
+   * @param filePath - The path to the file
+   * @param range - Optional byte range to fetch instead of the whole file
+   * @returns The content stream and the bytes it covers
+   */
+  async downloadFile(filePath: string, range?: ByteRange): Promise<FileDownloadStream> {
+    try {
+      const rangeHeader = formatRangeHeader(range);
+      const response = await this.getHttp().get(this.encodePath(filePath), {
+        headers: rangeHeader ? { Range: rangeHeader } : {},
+        responseType: 'stream'
+      });
+
+      const served = parseContentRange(response.headers['content-range'], parseInt(response.headers['content-length']));
+      return {
+        stream: response.data,
+        ...served,
+        contentType: response.headers['content-type']
+      };
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 416) {
+        throw new Error(`Failed to download file from WebDAV: ${RANGE_NOT_SATISFIABLE}`);
+      }
+      throw new Error('Failed to download file from WebDAV: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Generic fallback: GET the original when it is small and browser-displayable
+   * @param filePath - The path to the file
+   * @returns Promise containing thumbnail data or error
+   */
+  private async getPassthroughThumbnail(filePath: string): Promise<ThumbnailResponse> {
+    const mimeType = BROWSER_IMAGE_TYPES[path.posix.extname(filePath).toLowerCase()];
+    if (!mimeType) {
+      return {
+        success: false,
+        error: 'Thumbnail not available for this file type'
+      };
+    }
+
+    const [resource] = await this.propfind(filePath, '0');
+    if (resource.size > MAX_PASSTHROUGH_THUMBNAIL_BYTES) {
+      return {
+        success: false,
+        error: 'File too large to use as a thumbnail'
+      };
+    }
+
+    const response = await this.getHttp().get(this.encodePath(filePath), { responseType: 'arraybuffer' });
+    return {
+      success: true,
+      data: Buffer.from(response.data),
+      mimeType: mimeType
+    };
+  }
+
+  /**
+   * Get the Nextcloud/ownCloud preview endpoint for this server, if it looks like one
+   * @returns The preview URL, or null for generic WebDAV servers
+   */
+  private getPreviewUrl(): string | null {
+    const index = this.serverUrl.indexOf('/remote.php/');
+    if (index === -1) {
+      return null;
+    }
+    return `${this.serverUrl.substring(0, index)}/index.php/core/preview`;
+  }
+
+  /**
+   * Run a PROPFIND request and parse the multistatus response
+   * @param resourcePath - The path relative to the server URL
+   * @param depth - '0' for the resource itself, '1' to include its direct children
+   * @returns The resources in response order
+   */
+  private async propfind(resourcePath: string, depth: '0' | '1'): Promise<WebDavResource[]> {
+    const response = await this.getHttp().request({
+      method: 'PROPFIND',
+      url: this.encodePath(resourcePath) || '/',
+      data: PROPFIND_BODY,
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        Depth: depth
+      },
+      responseType: 'text'
+    });
+
+    const document = this.xmlParser.parse(response.data);
+    const basePath = decodeURIComponent(new URL(this.serverUrl).pathname).replace(/\/+$/, '');
+    const resources: WebDavResource[] = [];
+
+    for (const entry of document.multistatus?.response || []) {
+      const okPropstat = (entry.propstat || []).find((propstat: any) => String(propstat.status).includes(' 200 '));
+      const prop = okPropstat?.prop || {};
+
+      // hrefs may be absolute URLs or absolute paths, both percent-encoded
+      const hrefPath = decodeURIComponent(new URL(entry.href, this.serverUrl).pathname);
+      const relativePath = hrefPath.startsWith(basePath) ? hrefPath.substring(basePath.length) : hrefPath;
+
+      resources.push({
+        path: relativePath.replace(/\/+$/, ''),
+        isCollection: prop.resourcetype !== undefined && typeof prop.resourcetype === 'object' && 'collection' in prop.resourcetype,
+        size: Number(prop.getcontentlength || 0),
+        lastModified: prop.getlastmodified ? new Date(prop.getlastmodified) : new Date(0),
+        contentType: prop.getcontenttype || undefined,
+        fileId: prop.fileid ? String(prop.fileid) : undefined,
+        quotaAvailable: prop['quota-available-bytes'] !== undefined ? Number(prop['quota-available-bytes']) : undefined
+      });
+    }
+
+    return resources;
+  }
+
+  /**
+   * Percent-encode each segment of a provider path
+   * @param resourcePath - The path relative to the server URL
+   * @returns The encoded path
+   */
+  private encodePath(resourcePath: string): string {
+    return resourcePath.split('/').map(encodeURIComponent).join('/');
+  }
+
+  private getHttp(): AxiosInstance {
+    if (!this.http) {
+      throw new Error('Provider not authenticated');
+    }
+    return this.http;
+  }
+}
+
+export default WebDavProvider;
@@ -0,0 +1,340 @@
+import path from 'path';
+import cloudProviderManager from './cloud-provider-manager.js';
+import CloudProvider from './cloud-provider.js';
+import photoIndex from './photo-index.js';
+import { copyFile } from './file-transfer.js';
+import { hashFile } from './content-hash.js';
+import { PhotoMetadata, RebalanceInstance, RebalanceMove, RebalanceMoveRow, RebalanceMoveStatus, RebalancePlan,
+  RebalanceStatus } from './types.js';
+
+// Photos are read from the index a page at a time while planning
+const PLAN_PAGE_SIZE = 500;
+
+const MOVE_STATUSES: RebalanceMoveStatus[] = ['pending', 'copied', 'done', 'failed', 'skipped', 'cancelled'];
+
+/**
+ * Moves files from writable instances with little free space to ones with more, so
+ * that each ends up with about the same room. Every file is copied through the server,
+ * checked against its content hash, and only then deleted from where it was. The moves
+ * are kept in the photo index database, so a rebalance carries on after a restart.
+ */
+class Rebalancer {
+  private static instance: Rebalancer;
+  private running: Promise<void> | null = null;
+  private current: RebalanceMove | null = null;
+
+  constructor() {
+    if (Rebalancer.instance) {
+      return Rebalancer.instance;
+    }
+
+    Rebalancer.instance = this;
+  }
+
+  /**
+   * Resume a rebalance that was still running when the server stopped
+   */
+  start(): void {
+    const unfinished = photoIndex.getDatabase()
+      .prepare(`SELECT COUNT(*) FROM rebalance_moves WHERE status IN ('pending', 'copied')`)
+      .pluck().get() as number;
+    if (unfinished > 0) {
+      console.log(`Resuming rebalance with ${unfinished} files left to move`);
+      this.run();
+    }
+  }
+
+  /**
+   * Whether moves are being made
+   * @returns True while a rebalance is running
+   */
+  isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * Work out which files to move so every writable instance has about the average free
+   * space. Instances below the average give their largest files that fit in their
+   * shortfall to whichever instance has the most room to spare.
+   * @returns The instances with their free space before and after, and the moves
+   */
+  async plan(): Promise<RebalancePlan> {
+    const instances: RebalanceInstance[] = [];
+    for (const [providerType, providers] of Object.entries(cloudProviderManager.providers)) {
+      for (let i = 0; i < providers.length; i++) {
+        const provider = providers[i];
+        if (!provider || !provider.isAuthenticated() || !provider.supportsWrite()) continue;
+
+        try {
+          const freeBytes = await provider.getStorage();
+          instances.push({ providerType, instanceIndex: i, freeBytes, plannedFreeBytes: freeBytes });
+        } catch (error) {
+          console.warn(`Skipping ${providerType} instance ${i} for rebalancing:`, error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+    }
+
+    const plan: RebalancePlan = { instances, moves: [], totalBytes: 0 };
+    if (instances.length < 2) {
+      return plan;
+    }
+
+    const average = instances.reduce((total, instance) => total + instance.freeBytes, 0) / instances.length;
+    const donors = instances.filter(instance => instance.freeBytes < average).sort((a, b) => a.freeBytes - b.freeBytes);
+    const receivers = instances.filter(instance => instance.freeBytes > average);
+
+    for (const donor of donors) {
+      const filter = { providerType: donor.providerType, instanceIndex: donor.instanceIndex };
+      for (let offset = 0; donor.plannedFreeBytes < average; offset += PLAN_PAGE_SIZE) {
+        const photos = photoIndex.getPhotos(offset, PLAN_PAGE_SIZE, filter, { by: 'size', direction: 'desc' });
+        if (photos.length === 0) {
+          break;
+        }
+
+        for (const photo of photos) {
+          // A file larger than the shortfall would leave the donor with more than its share
+          if (photo.size === 0 || photo.size > average - donor.plannedFreeBytes) continue;
+
+          // Moving a file onto an instance that already has a copy would lose one of its copies
+          const holders = photoIndex.getCopyInstances(photo);
+          const receiver = receivers
+            .filter(candidate => candidate.plannedFreeBytes - photo.size >= average)
+            .filter(candidate => !holders.some(holder =>
+              holder.providerType === candidate.providerType && holder.instanceIndex === candidate.instanceIndex))
+            .sort((a, b) => b.plannedFreeBytes - a.plannedFreeBytes)[0];
+          if (!receiver) continue;
+
+          plan.moves.push({
+            providerType: photo.providerType,
+            instanceIndex: photo.instanceIndex,
+            path: photo.path,
+            size: photo.size,
+            targetProviderType: receiver.providerType,
+            targetInstanceIndex: receiver.instanceIndex
+          });
+          plan.totalBytes += photo.size;
+          donor.plannedFreeBytes += photo.size;
+          receiver.plannedFreeBytes -= photo.size;
+        }
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Plan a rebalance and start making the moves in the background. The moves of the
+   * previous rebalance are forgotten.
+   * @returns The plan being carried out
+   */
+  async rebalance(): Promise<RebalancePlan> {
+    if (this.isRunning()) {
+      throw new Error('A rebalance is already running');
+    }
+
+    const plan = await this.plan();
+    // Another request may have started one while storage was being checked
+    if (this.isRunning()) {
+      throw new Error('A rebalance is already running');
+    }
+
+    const db = photoIndex.getDatabase();
+    const insert = db.prepare(`
+      INSERT INTO rebalance_moves (provider_type, instance_index, path, size, target_provider_type, target_instance_index)
+      VALUES (@providerType, @instanceIndex, @path, @size, @targetProviderType, @targetInstanceIndex)
+    `);
+    db.transaction(() => {
+      db.prepare('DELETE FROM rebalance_moves').run();
+      for (const move of plan.moves) {
+        insert.run(move);
+      }
+    })();
+
+    if (plan.moves.length > 0) {
+      console.log(`Rebalancing ${plan.moves.length} files (${plan.totalBytes} bytes) between ${plan.instances.length} instances`);
+      this.run();
+    }
+    return plan;
+  }
+
+  /**
+   * Cancel the moves not started yet. Files already copied are still finished, so
+   * none is left on two instances.
+   * @returns The number of moves cancelled
+   */
+  cancel(): number {
+    return photoIndex.getDatabase()
+      .prepare(`UPDATE rebalance_moves SET status = 'cancelled' WHERE status = 'pending'`)
+      .run().changes;
+  }
+
+  /**
+   * Get the progress of the current or last rebalance
+   * @returns The number of moves in each state, the bytes moved and the moves that did not go through
+   */
+  getStatus(): RebalanceStatus {
+    const db = photoIndex.getDatabase();
+    const counts = Object.fromEntries(MOVE_STATUSES.map(status => [status, 0])) as RebalanceStatus['counts'];
+    let movedBytes = 0;
+    let totalBytes = 0;
+
+    const totals = db.prepare('SELECT status, COUNT(*) AS count, SUM(size) AS bytes FROM rebalance_moves GROUP BY status')
+      .all() as { status: RebalanceMoveStatus; count: number; bytes: number }[];
+    for (const { status, count, bytes } of totals) {
+      counts[status] = count;
+      totalBytes += status === 'cancelled' ? 0 : bytes;
+      movedBytes += status === 'done' ? bytes : 0;
+    }
+
+    const failures = (db.prepare(`SELECT * FROM rebalance_moves WHERE status IN ('failed', 'skipped') ORDER BY id`)
+      .all() as RebalanceMoveRow[])
+      .map(row => ({ ...this.toMove(row), status: row.status, error: row.error ?? '' }));
+
+    return {
+      running: this.isRunning(),
+      counts,
+      movedBytes,
+      totalBytes,
+      current: this.current ?? undefined,
+      failures
+    };
+  }
+
+  /**
+   * Make the remaining moves one at a time, unless that is already happening
+   */
+  private run(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = (async () => {
+      let row: RebalanceMoveRow | undefined;
+      // Moves interrupted after copying are finished first
+      const next = photoIndex.getDatabase().prepare(`
+        SELECT * FROM rebalance_moves WHERE status IN ('pending', 'copied') ORDER BY status = 'copied' DESC, id LIMIT 1
+      `);
+
+      while ((row = next.get() as RebalanceMoveRow | undefined)) {
+        this.current = this.toMove(row);
+        try {
+          await this.move(row);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`Failed to move ${row.path} to ${row.target_provider_type} instance ${row.target_instance_index}:`, message);
+          this.setStatus(row.id, 'failed', message);
+        }
+      }
+
+      console.log('Rebalance finished');
+    })().finally(() => {
+      this.running = null;
+      this.current = null;
+    });
+  }
+
+  /**
+   * Copy a file to its target instance if that has not happened yet, then delete the
+   * original and point the index at the copy
+   * @param row - The move
+   */
+  private async move(row: RebalanceMoveRow): Promise<void> {
+    const source = this.getWritableProvider(row.provider_type, row.instance_index);
+    const target = this.getWritableProvider(row.target_provider_type, row.target_instance_index);
+
+    const photo = photoIndex.getPhoto(row.provider_type, row.instance_index, row.path);
+    if (!photo) {
+      this.setStatus(row.id, 'skipped', 'The file is no longer indexed');
+      return;
+    }
+
+    let copy: PhotoMetadata;
+    if (row.status === 'pending') {
+      if (photo.size !== row.size) {
+        this.setStatus(row.id, 'skipped', 'The file changed after the move was planned');
+        return;
+      }
+      copy = await this.copy(source, target, photo, row);
+    } else {
+      // Interrupted by a restart, so make sure the copy is still intact
+      if (await hashFile(target, row.target_path!) !== row.content_hash) {
+        throw new Error(`The copy at ${row.target_path} no longer matches the original`);
+      }
+      copy = {
+        ...photo,
+        providerType: row.target_provider_type,
+        instanceIndex: row.target_instance_index,
+        path: row.target_path!,
+        id: row.target_id!,
+        name: path.posix.basename(row.target_path!),
+        date_taken: new Date(row.target_modified!),
+        hash: row.target_hash ?? undefined
+      };
+    }
+
+    this.checkInstances(row, source, target);
+    await source.deleteFile(photo.path);
+    this.checkInstances(row, source, target);
+    photoIndex.transferPhoto(photo, copy);
+    this.setStatus(row.id, 'done');
+    console.log(`Moved ${photo.path} from ${row.provider_type} instance ${row.instance_index} to ${copy.path} on ${row.target_provider_type} instance ${row.target_instance_index}`);
+  }
+
+  /**
+   * Copy a file through the server and check the copy's content hash
+   * @param source - The provider holding the file
+   * @param target - The provider to copy it to
+   * @param photo - The indexed file
+   * @param row - The move, updated once the copy is verified
+   * @returns The copy's metadata
+   */
+  private async copy(source: CloudProvider, target: CloudProvider, photo: PhotoMetadata, row: RebalanceMoveRow): Promise<PhotoMetadata> {
+    const { copy, contentHash } = await copyFile(source, target, photo, row.target_instance_index);
+
+    photoIndex.getDatabase().prepare(`
+      UPDATE rebalance_moves SET status = 'copied', content_hash = ?, target_path = ?, target_id = ?, target_modified = ?, target_hash = ?
+      WHERE id = ?
+    `).run(contentHash, copy.path, copy.id, copy.date_taken.getTime(), copy.hash ?? null, row.id);
+    return copy;
+  }
+
+  /**
+   * Make sure neither instance was removed (shifting indexes) while the move was waiting
+   * @param row - The move
+   * @param source - The provider the move started with
+   * @param target - The provider the move started with
+   */
+  private checkInstances(row: RebalanceMoveRow, source: CloudProvider, target: CloudProvider): void {
+    if (cloudProviderManager.providers[row.provider_type]?.[row.instance_index] !== source
+      || cloudProviderManager.providers[row.target_provider_type]?.[row.target_instance_index] !== target) {
+      throw new Error('Provider instance was removed during the move');
+    }
+  }
+
+  private getWritableProvider(providerType: string, instanceIndex: number): CloudProvider {
+    const provider = cloudProviderManager.providers[providerType]?.[instanceIndex];
+    if (!provider || !provider.isAuthenticated() || !provider.supportsWrite()) {
+      throw new Error(`${providerType} instance ${instanceIndex} is not connected or is read-only`);
+    }
+    return provider;
+  }
+
+  private setStatus(id: number, status: RebalanceMoveStatus, error?: string): void {
+    photoIndex.getDatabase().prepare('UPDATE rebalance_moves SET status = ?, error = ? WHERE id = ?').run(status, error ?? null, id);
+  }
+
+  private toMove(row: RebalanceMoveRow): RebalanceMove {
+    return {
+      providerType: row.provider_type,
+      instanceIndex: row.instance_index,
+      path: row.path,
+      size: row.size,
+      targetProviderType: row.target_provider_type,
+      targetInstanceIndex: row.target_instance_index
+    };
+  }
+}
+
+// Export a singleton instance
+const rebalancer = new Rebalancer();
+export default rebalancer;
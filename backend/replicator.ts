@@ -0,0 +1,387 @@
+import cloudProviderManager from './cloud-provider-manager.js';
+import photoIndex from './photo-index.js';
+import albumStore from './album-store.js';
+import rebalancer from './rebalancer.js';
+import duplicateFinder from './duplicate-finder.js';
+import { copyFile } from './file-transfer.js';
+import { PhotoMetadata, PhotoRow, ReplicatedFileRow, ReplicationFailure, ReplicationPolicy, ReplicationStatus,
+  UnderReplicatedFile, UploadTarget } from './types.js';
+
+export const MAX_COPIES = 10;
+
+// Copying downloads whole files, so work through them a few at a time
+const BATCH_SIZE = 10;
+
+// How long to wait before checking the policies again once every file has enough copies
+const IDLE_SECONDS = 300;
+
+// A file that could not be copied is left alone for this long before it is tried again
+const RETRY_MINUTES = 60;
+
+// Every indexed file, keyed by content hash so that copies share a key. Files still waiting
+// for the duplicate finder to hash them are left out, as their copies cannot be counted yet;
+// any other file without a hash has no file of the same size, so it has no copies either.
+const KEYED_PHOTOS = `
+  SELECT p.provider_type, p.instance_index, p.path, p.size,
+    NULLIF(COALESCE(p.hash, p.computed_hash), '') AS content_hash,
+    COALESCE(NULLIF(COALESCE(p.hash, p.computed_hash), ''), p.provider_type || char(0) || p.instance_index || char(0) || p.path) AS file_key
+  FROM photos AS p
+  WHERE p.hash IS NOT NULL OR p.computed_hash IS NOT NULL OR NOT EXISTS (
+    SELECT 1 FROM photos AS q
+    WHERE q.size = p.size
+      AND NOT (q.provider_type = p.provider_type AND q.instance_index = p.instance_index AND q.path = p.path)
+  )
+`;
+
+// Each file covered by a policy with the number of instances holding it and the most any
+// of its policies asks for. An album's policy covers a file if any copy is in the album.
+const FILES = `
+  WITH keyed AS MATERIALIZED (${KEYED_PHOTOS}),
+  required AS (
+    SELECT k.file_key, MAX(rp.copies) AS copies
+    FROM keyed AS k
+    JOIN replication_policies AS rp ON rp.album_id IS NULL OR EXISTS (
+      SELECT 1 FROM album_photos AS ap
+      WHERE ap.album_id = rp.album_id
+        AND ap.provider_type = k.provider_type AND ap.instance_index = k.instance_index AND ap.path = k.path
+    )
+    GROUP BY k.file_key
+  ),
+  files AS (
+    SELECT k.file_key, MIN(k.content_hash) AS content_hash, MIN(k.provider_type) AS provider_type,
+      MIN(k.instance_index) AS instance_index, MIN(k.path) AS path, MAX(k.size) AS size,
+      COUNT(DISTINCT k.provider_type || char(0) || k.instance_index) AS copies, r.copies AS required
+    FROM keyed AS k
+    JOIN required AS r ON r.file_key = k.file_key
+    GROUP BY k.file_key
+  )
+`;
+
+/**
+ * Keeps enough copies of every file to meet the replication policies, e.g. "every photo
+ * in at least 2 provider instances". Copies are counted by content hash, and files short
+ * of copies are copied in the background to the writable instances with the most free
+ * space that do not hold one yet.
+ */
+class Replicator {
+  private static instance: Replicator;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  // Set when a policy changes during a batch, so the next one starts straight away
+  private woken = false;
+  private current: ReplicationStatus['current'] | null = null;
+  private copiedFiles = 0;
+  private copiedBytes = 0;
+  // File key -> the last failed attempt to copy it
+  private failures = new Map<string, ReplicationFailure>();
+
+  constructor() {
+    if (Replicator.instance) {
+      return Replicator.instance;
+    }
+
+    Replicator.instance = this;
+  }
+
+  /**
+   * Start copying files that are short of copies in the background
+   */
+  start(): void {
+    this.schedule(0);
+  }
+
+  /**
+   * Stop the background job
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check the policies now instead of at the next scheduled time
+   */
+  wake(): void {
+    if (this.running) {
+      this.woken = true;
+    } else if (this.timer) {
+      clearTimeout(this.timer);
+      this.schedule(0);
+    }
+  }
+
+  /**
+   * Get the policies with how many of the files they cover have enough copies
+   * @returns The library's policy first, then the albums' by name
+   */
+  getPolicies(): ReplicationPolicy[] {
+    const db = photoIndex.getDatabase();
+    const rows = db.prepare(`
+      SELECT rp.album_id, rp.copies, a.name FROM replication_policies AS rp
+      LEFT JOIN albums AS a ON a.id = rp.album_id
+      ORDER BY rp.album_id IS NOT NULL, a.name COLLATE NOCASE
+    `).all() as { album_id: number | null; copies: number; name: string | null }[];
+
+    const compliance = db.prepare(`
+      ${FILES}
+      SELECT COUNT(*) AS files, COALESCE(SUM(copies >= @copies), 0) AS compliant FROM files
+      WHERE @albumId IS NULL OR file_key IN (
+        SELECT k.file_key FROM keyed AS k
+        JOIN album_photos AS ap ON ap.provider_type = k.provider_type AND ap.instance_index = k.instance_index AND ap.path = k.path
+        WHERE ap.album_id = @albumId
+      )
+    `);
+
+    return rows.map(row => {
+      const { files, compliant } = compliance.get({ albumId: row.album_id, copies: row.copies }) as { files: number; compliant: number };
+      return {
+        albumId: row.album_id,
+        albumName: row.name ?? undefined,
+        copies: row.copies,
+        files,
+        compliantFiles: compliant
+      };
+    });
+  }
+
+  /**
+   * Set how many instances should hold each file of the library or an album
+   * @param albumId - The album's id, or null for the whole library
+   * @param copies - The number of copies, where 1 removes the policy
+   * @returns False if the album does not exist
+   */
+  setPolicy(albumId: number | null, copies: number): boolean {
+    if (albumId !== null && !albumStore.getAlbum(albumId)) {
+      return false;
+    }
+
+    const db = photoIndex.getDatabase();
+    db.transaction(() => {
+      db.prepare('DELETE FROM replication_policies WHERE album_id IS ?').run(albumId);
+      if (copies > 1) {
+        db.prepare('INSERT INTO replication_policies (album_id, copies) VALUES (?, ?)').run(albumId, copies);
+      }
+    })();
+
+    // Files that had nowhere to go may fit the new policy
+    this.failures.clear();
+    this.wake();
+    return true;
+  }
+
+  /**
+   * Get how well the library meets its policies and what is being copied
+   * @returns The policies, the overall compliance and the progress of the background job
+   */
+  getStatus(): ReplicationStatus {
+    const totals = photoIndex.getDatabase().prepare(`
+      ${FILES}
+      SELECT COUNT(*) AS files, COALESCE(SUM(copies >= required), 0) AS compliant,
+        COALESCE(SUM(CASE WHEN copies < required THEN size * (required - copies) ELSE 0 END), 0) AS missing_bytes
+      FROM files
+    `).get() as { files: number; compliant: number; missing_bytes: number };
+
+    return {
+      policies: this.getPolicies(),
+      files: totals.files,
+      compliantFiles: totals.compliant,
+      missingBytes: totals.missing_bytes,
+      pendingHashes: duplicateFinder.countPendingHashes(),
+      running: this.current !== null,
+      current: this.current ?? undefined,
+      copiedFiles: this.copiedFiles,
+      copiedBytes: this.copiedBytes,
+      failures: [...this.failures.values()].sort((a, b) => b.failedAt.getTime() - a.failedAt.getTime())
+    };
+  }
+
+  /**
+   * Get a page of files with fewer copies than their policies ask for, the furthest short first
+   * @param offset - Number of files to skip
+   * @param limit - Maximum number of files to return
+   * @returns The files, each with every copy
+   */
+  getUnderReplicatedFiles(offset: number, limit: number): UnderReplicatedFile[] {
+    return this.queryUnderReplicated(offset, limit).map(row => ({
+      contentHash: row.content_hash,
+      size: row.size,
+      copies: row.copies,
+      requiredCopies: row.required,
+      photos: this.getCopies(row)
+    }));
+  }
+
+  /**
+   * Copy the next batch of files that are short of copies
+   * @returns The number of files processed
+   */
+  async replicateBatch(): Promise<number> {
+    // The rebalancer changes which instances hold what while it runs
+    if (rebalancer.isRunning()) {
+      return 0;
+    }
+
+    const retryAfter = Date.now() - RETRY_MINUTES * 60 * 1000;
+    for (const [fileKey, failure] of this.failures) {
+      if (failure.failedAt.getTime() < retryAfter) {
+        this.failures.delete(fileKey);
+      }
+    }
+
+    // Files that failed recently are still under-replicated, so fetch enough to skip past them
+    const rows = this.queryUnderReplicated(0, BATCH_SIZE + this.failures.size)
+      .filter(row => !this.failures.has(row.file_key))
+      .slice(0, BATCH_SIZE);
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    const targets = await this.getTargets();
+    for (const row of rows) {
+      try {
+        await this.replicate(row, targets);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Failed to replicate ${row.path}:`, message);
+        this.failures.set(row.file_key, {
+          providerType: row.provider_type,
+          instanceIndex: row.instance_index,
+          path: row.path,
+          error: message,
+          failedAt: new Date()
+        });
+      }
+    }
+
+    return rows.length;
+  }
+
+  /**
+   * Copy a file to as many more instances as its policies ask for
+   * @param row - The file
+   * @param targets - The writable instances, whose free space is updated as copies are made
+   */
+  private async replicate(row: ReplicatedFileRow, targets: UploadTarget[]): Promise<void> {
+    const photos = this.getCopies(row);
+    const holders = new Set(photos.map(photo => `${photo.providerType}\0${photo.instanceIndex}`));
+
+    // Any copy on a connected instance can be read
+    const original = photos.find(photo => cloudProviderManager.providers[photo.providerType]?.[photo.instanceIndex]?.isAuthenticated());
+    if (!original) {
+      throw new Error('No connected provider instance holds the file');
+    }
+    const source = cloudProviderManager.providers[original.providerType][original.instanceIndex]!;
+
+    for (let copies = holders.size; copies < row.required; copies++) {
+      const target = targets
+        .filter(candidate => !holders.has(`${candidate.providerType}\0${candidate.instanceIndex}`) && candidate.freeBytes >= row.size)
+        .sort((a, b) => b.freeBytes - a.freeBytes)[0];
+      if (!target) {
+        throw new Error(`No writable instance without a copy has room for it (${copies} of ${row.required} copies)`);
+      }
+
+      this.current = {
+        providerType: original.providerType,
+        instanceIndex: original.instanceIndex,
+        path: original.path,
+        targetProviderType: target.providerType,
+        targetInstanceIndex: target.instanceIndex
+      };
+      const { copy, contentHash } = await copyFile(source, target.provider, original, target.instanceIndex, row.content_hash ?? undefined);
+
+      // The instance may have been removed (shifting indexes) while we were copying
+      if (cloudProviderManager.providers[target.providerType]?.[target.instanceIndex] !== target.provider) {
+        throw new Error('Provider instance was removed during the copy');
+      }
+      photoIndex.upsertPhotos([{ ...copy, mediaType: original.mediaType }]);
+      if (!copy.hash) {
+        photoIndex.setComputedHash(copy, contentHash);
+      }
+      // The original now has a file of the same size, and its hash is known already
+      if (!row.content_hash) {
+        photoIndex.setComputedHash(original, contentHash);
+      }
+
+      target.freeBytes -= row.size;
+      holders.add(`${target.providerType}\0${target.instanceIndex}`);
+      this.copiedFiles++;
+      this.copiedBytes += row.size;
+      console.log(`Copied ${original.path} to ${copy.path} on ${target.providerType} instance ${target.instanceIndex}`);
+    }
+  }
+
+  /**
+   * Find every writable instance with its free space
+   * @returns The instances that could report their free space
+   */
+  private async getTargets(): Promise<UploadTarget[]> {
+    const targets: UploadTarget[] = [];
+    for (const [providerType, providers] of Object.entries(cloudProviderManager.providers)) {
+      for (let i = 0; i < providers.length; i++) {
+        const provider = providers[i];
+        if (!provider || !provider.isAuthenticated() || !provider.supportsWrite()) continue;
+
+        try {
+          targets.push({ providerType, instanceIndex: i, provider, freeBytes: await provider.getStorage() });
+        } catch (error) {
+          console.warn(`Skipping ${providerType} instance ${i} for replication:`, error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Get every indexed copy of a file
+   * @param row - The file
+   * @returns The copies, oldest first
+   */
+  private getCopies(row: ReplicatedFileRow): PhotoMetadata[] {
+    if (!row.content_hash) {
+      const photo = photoIndex.getPhoto(row.provider_type, row.instance_index, row.path);
+      return photo ? [photo] : [];
+    }
+
+    const rows = photoIndex.getDatabase().prepare(`
+      SELECT * FROM photos WHERE COALESCE(hash, computed_hash) = ?
+      ORDER BY date_taken, provider_type, instance_index, path
+    `).all(row.content_hash) as PhotoRow[];
+    return rows.map(photoRow => photoIndex.fromRow(photoRow));
+  }
+
+  private queryUnderReplicated(offset: number, limit: number): ReplicatedFileRow[] {
+    return photoIndex.getDatabase().prepare(`
+      ${FILES}
+      SELECT * FROM files WHERE copies < required
+      ORDER BY required - copies DESC, size DESC, file_key
+      LIMIT ? OFFSET ?
+    `).all(limit, offset) as ReplicatedFileRow[];
+  }
+
+  /**
+   * Run a batch after a delay, then keep going until there is nothing left to copy
+   * @param delay - Milliseconds to wait
+   */
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      this.running = true;
+      this.woken = false;
+      let processed = 0;
+      try {
+        processed = await this.replicateBatch();
+      } catch (error) {
+        console.error('Error replicating files:', error instanceof Error ? error.message : 'Unknown error');
+      } finally {
+        this.running = false;
+        this.current = null;
+      }
+      this.schedule(processed > 0 || this.woken ? 0 : IDLE_SECONDS * 1000);
+    }, delay);
+  }
+}
+
+// Export a singleton instance
+const replicator = new Replicator();
+export default replicator;
@@ -0,0 +1,561 @@
+import express, { Request, Response } from 'express';
+import photoIndex from '../photo-index.js';
+import duplicateFinder from '../duplicate-finder.js';
+import similarPhotoFinder, { DEFAULT_SIMILARITY_THRESHOLD } from '../similar-photo-finder.js';
+import albumStore, { ALBUM_SORT_ORDERS } from '../album-store.js';
+import userMetadataStore, { MAX_RATING } from '../user-metadata-store.js';
+import replicator, { MAX_COPIES } from '../replicator.js';
+import EnvFileManager from '../env-file-manager.js';
+import { parsePhotoFilter, parsePhotoSort } from '../photo-query.js';
+import { DuplicatesResponse, SimilarPhotosResponse, GeoBounds, MapConfig, AlbumSortOrder, PhotoReference,
+  CreateAlbumRequest, UpdateAlbumRequest, AlbumPhotosRequest, UpdatePhotosRequest, TagPhotosRequest, PhotoFilter, PhotoSort,
+  TimelineResponse, SetReplicationPolicyRequest } from '../types.js';
+
+const router = express.Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// OpenStreetMap's public tiles, override MAP_TILE_URL to use a local tile server
+const DEFAULT_MAP_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const DEFAULT_MAP_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+const DEFAULT_MAP_MAX_ZOOM = 19;
+
+// Clusters are grid cells about a quarter of a 256px map tile across
+const CLUSTER_CELLS_PER_TILE = 4;
+
+/**
+ * Read a bounding box from query parameters
+ * @param query - The request's query parameters
+ * @returns The box, or an error message for missing or invalid values
+ */
+function parseBounds(query: Request['query']): GeoBounds | { error: string } {
+  const { north, south, east, west } = query;
+  if (north === undefined || south === undefined || east === undefined || west === undefined) {
+    return { error: 'Missing required query parameters: north, south, east, west' };
+  }
+
+  const bounds = {
+    north: parseFloat(north as string),
+    south: parseFloat(south as string),
+    east: parseFloat(east as string),
+    west: parseFloat(west as string)
+  };
+  if (Object.values(bounds).some(isNaN)) {
+    return { error: 'Bounds must be valid numbers' };
+  }
+  if (bounds.south > bounds.north || bounds.south < -90 || bounds.north > 90) {
+    return { error: 'South and north must be latitudes from -90 to 90, south first' };
+  }
+  if (bounds.west < -180 || bounds.west > 180 || bounds.east < -180 || bounds.east > 180) {
+    return { error: 'East and west must be longitudes from -180 to 180' };
+  }
+  return bounds;
+}
+
+// Groups of identical files across every provider instance, the most wasted space first
+router.get('/duplicates', async (req: Request, res: Response) => {
+  try {
+    const offset = req.query.offset === undefined ? 0 : parseInt(req.query.offset as string);
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(req.query.limit as string);
+
+    if (isNaN(offset) || isNaN(limit) || offset < 0 || limit <= 0) {
+      return res.status(400).json({ error: 'Offset must be non-negative and limit must be positive' });
+    }
+
+    const response: DuplicatesResponse = {
+      groups: duplicateFinder.getDuplicateGroups(offset, limit),
+      pendingHashes: duplicateFinder.countPendingHashes()
+    };
+    res.json(response);
+
+  } catch (error) {
+    console.error('Error finding duplicates:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error finding duplicates' });
+  }
+});
+
+// Groups of photos that look alike, each with a suggested copy to keep
+router.get('/similar', async (req: Request, res: Response) => {
+  try {
+    const offset = req.query.offset === undefined ? 0 : parseInt(req.query.offset as string);
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(req.query.limit as string);
+    const threshold = req.query.threshold === undefined ? DEFAULT_SIMILARITY_THRESHOLD : parseInt(req.query.threshold as string);
+
+    if (isNaN(offset) || isNaN(limit) || offset < 0 || limit <= 0) {
+      return res.status(400).json({ error: 'Offset must be non-negative and limit must be positive' });
+    }
+    if (isNaN(threshold) || threshold < 0 || threshold > 32) {
+      return res.status(400).json({ error: 'Threshold must be a number of bits from 0 to 32' });
+    }
+
+    const response: SimilarPhotosResponse = {
+      groups: similarPhotoFinder.getSimilarGroups(threshold, offset, limit),
+      pendingHashes: similarPhotoFinder.countPendingHashes()
+    };
+    res.json(response);
+
+  } catch (error) {
+    console.error('Error finding similar photos:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error finding similar photos' });
+  }
+});
+
+// Replication policies, how many files meet them and what is being copied
+router.get('/replication', async (req: Request, res: Response) => {
+  try {
+    res.json(replicator.getStatus());
+  } catch (error) {
+    console.error('Error getting replication status:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting replication status' });
+  }
+});
+
+// Set how many instances should hold each file of the library or an album
+router.put('/replication', async (req: Request, res: Response) => {
+  try {
+    const { albumId, copies }: SetReplicationPolicyRequest = req.body;
+
+    if (!Number.isInteger(copies) || copies < 1 || copies > MAX_COPIES) {
+      return res.status(400).json({ error: `copies must be a whole number from 1 to ${MAX_COPIES}` });
+    }
+    if (albumId !== undefined && albumId !== null && !Number.isInteger(albumId)) {
+      return res.status(400).json({ error: 'albumId must be an album id, or null for the whole library' });
+    }
+
+    if (!replicator.setPolicy(albumId ?? null, copies)) {
+      return res.status(404).json({ error: 'Album not found' });
+    }
+    res.json(replicator.getStatus());
+  } catch (error) {
+    console.error('Error setting replication policy:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error setting replication policy' });
+  }
+});
+
+// Files with fewer copies than their policies ask for, the furthest short first
+router.get('/replication/under-replicated', async (req: Request, res: Response) => {
+  try {
+    const offset = req.query.offset === undefined ? 0 : parseInt(req.query.offset as string);
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(req.query.limit as string);
+
+    if (isNaN(offset) || isNaN(limit) || offset < 0 || limit <= 0) {
+      return res.status(400).json({ error: 'Offset must be non-negative and limit must be positive' });
+    }
+
+    res.json(replicator.getUnderReplicatedFiles(offset, limit));
+  } catch (error) {
+    console.error('Error finding under-replicated files:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error finding under-replicated files' });
+  }
+});
+
+/**
+ * Read the photos listed in a request body
+ * @param photos - The request's photos field
+ * @returns The photo references, or an error message if any is malformed
+ */
+function parsePhotoReferences(photos: unknown): PhotoReference[] | { error: string } {
+  if (!Array.isArray(photos)) {
+    return { error: 'photos must be an array of { providerType, instanceIndex, path }' };
+  }
+
+  const references: PhotoReference[] = [];
+  for (const photo of photos) {
+    if (!photo || typeof photo.providerType !== 'string' || typeof photo.path !== 'string'
+      || !Number.isInteger(photo.instanceIndex) || photo.instanceIndex < 0) {
+      return { error: 'photos must be an array of { providerType, instanceIndex, path }' };
+    }
+    references.push({ providerType: photo.providerType.toLowerCase(), instanceIndex: photo.instanceIndex, path: photo.path });
+  }
+  return references;
+}
+
+/**
+ * Read the tags listed in a tagging request body
+ * @param tags - The request's tags field
+ * @returns The trimmed, distinct tags, or an error message if any is malformed
+ */
+function parseTags(tags: unknown): string[] | { error: string } {
+  if (!Array.isArray(tags) || tags.length === 0 || tags.some(tag => typeof tag !== 'string' || !tag.trim())) {
+    return { error: 'tags must be a non-empty array of non-empty strings' };
+  }
+  return [...new Set(tags.map(tag => (tag as string).trim()))];
+}
+
+/**
+ * Read the filters and date order of a timeline request
+ * @param query - The request's query parameters
+ * @returns The filter and sort direction, or an error message for invalid values
+ */
+function parseTimelineQuery(query: Request['query']): { filter: PhotoFilter; direction: PhotoSort['direction'] } | { error: string } {
+  const filter = parsePhotoFilter(query);
+  if ('error' in filter) {
+    return filter;
+  }
+  const sort = parsePhotoSort(query);
+  if ('error' in sort) {
+    return sort;
+  }
+  if (sort.by !== 'date') {
+    return { error: 'The timeline is only available sorted by date' };
+  }
+  return { filter, direction: sort.direction };
+}
+
+// Tile server settings for the map view
+router.get('/map-config', (req: Request, res: Response) => {
+  const config: MapConfig = {
+    tileUrl: EnvFileManager.getSetting('MAP_TILE_URL') || DEFAULT_MAP_TILE_URL,
+    attribution: EnvFileManager.getSetting('MAP_TILE_ATTRIBUTION') ?? DEFAULT_MAP_ATTRIBUTION,
+    maxZoom: parseInt(EnvFileManager.getSetting('MAP_MAX_ZOOM') || '') || DEFAULT_MAP_MAX_ZOOM
+  };
+  res.json(config);
+});
+
+// Geotagged photos in a bounding box, clustered for the given map zoom level
+router.get('/geo', async (req: Request, res: Response) => {
+  try {
+    const bounds = parseBounds(req.query);
+    if ('error' in bounds) {
+      return res.status(400).json({ error: bounds.error });
+    }
+
+    const zoom = req.query.zoom === undefined ? 0 : parseInt(req.query.zoom as string);
+    if (isNaN(zoom) || zoom < 0 || zoom > 24) {
+      return res.status(400).json({ error: 'Zoom must be a number from 0 to 24' });
+    }
+
+    const cellDegrees = 360 / Math.pow(2, zoom) / CLUSTER_CELLS_PER_TILE;
+    res.json(photoIndex.getGeoClusters(bounds, cellDegrees));
+
+  } catch (error) {
+    console.error('Error getting geotagged photos:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting geotagged photos' });
+  }
+});
+
+// The photos in a bounding box, e.g. a cluster's bounds, newest first
+router.get('/geo/photos', async (req: Request, res: Response) => {
+  try {
+    const bounds = parseBounds(req.query);
+    if ('error' in bounds) {
+      return res.status(400).json({ error: bounds.error });
+    }
+
+    const offset = req.query.offset === undefined ? 0 : parseInt(req.query.offset as string);
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(req.query.limit as string);
+    if (isNaN(offset) || isNaN(limit) || offset < 0 || limit <= 0) {
+      return res.status(400).json({ error: 'Offset must be non-negative and limit must be positive' });
+    }
+
+    res.json(userMetadataStore.withUserMetadata(photoIndex.getPhotosInBounds(bounds, offset, limit)));
+
+  } catch (error) {
+    console.error('Error getting geotagged photos:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting geotagged photos' });
+  }
+});
+
+router.get('/albums', async (req: Request, res: Response) => {
+  try {
+    res.json(albumStore.getAlbums());
+  } catch (error) {
+    console.error('Error getting albums:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting albums' });
+  }
+});
+
+router.post('/albums', async (req: Request, res: Response) => {
+  try {
+    const { name, sortOrder }: CreateAlbumRequest = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Missing required field: name' });
+    }
+    if (sortOrder !== undefined && !ALBUM_SORT_ORDERS.includes(sortOrder)) {
+      return res.status(400).json({ error: `sortOrder must be one of: ${ALBUM_SORT_ORDERS.join(', ')}` });
+    }
+
+    res.status(201).json(albumStore.createAlbum(name.trim(), sortOrder));
+  } catch (error) {
+    console.error('Error creating album:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error creating album' });
+  }
+});
+
+router.get('/albums/:albumId', async (req: Request, res: Response) => {
+  try {
+    const album = albumStore.getAlbum(parseInt(req.params.albumId));
+    if (!album) {
+      return res.status(404).json({ error: 'Album not found' });
+    }
+    res.json(album);
+  } catch (error) {
+    console.error('Error getting album:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting album' });
+  }
+});
+
+router.patch('/albums/:albumId', async (req: Request, res: Response) => {
+  try {
+    const { name, sortOrder, cover }: UpdateAlbumRequest = req.body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ error: 'name must be a non-empty string' });
+    }
+    if (sortOrder !== undefined && !ALBUM_SORT_ORDERS.includes(sortOrder as AlbumSortOrder)) {
+      return res.status(400).json({ error: `sortOrder must be one of: ${ALBUM_SORT_ORDERS.join(', ')}` });
+    }
+    let coverReference: PhotoReference | null | undefined = cover;
+    if (cover) {
+      const references = parsePhotoReferences([cover]);
+      if ('error' in references) {
+        return res.status(400).json({ error: 'cover must be { providerType, instanceIndex, path } or null' });
+      }
+      coverReference = references[0];
+    }
+
+    let album;
+    try {
+      album = albumStore.updateAlbum(parseInt(req.params.albumId), { name: name?.trim(), sortOrder, cover: coverReference });
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid album update' });
+    }
+    if (!album) {
+      return res.status(404).json({ error: 'Album not found' });
+    }
+    res.json(album);
+  } catch (error) {
+    console.error('Error updating album:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error updating album' });
+  }
+});
+
+router.delete('/albums/:albumId', async (req: Request, res: Response) => {
+  try {
+    if (!albumStore.deleteAlbum(parseInt(req.params.albumId))) {
+      return res.status(404).json({ error: 'Album not found' });
+    }
+    res.json({ message: 'Album deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting album:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error deleting album' });
+  }
+});
+
+// A page of an album's photos, in the same shape as /provider/get-thumbnails
+router.get('/albums/:albumId/photos', async (req: Request, res: Response) => {
+  try {
+    const indexNum = req.query.index === undefined ? 0 : parseInt(req.query.index as string);
+    const sizeNum = req.query.size === undefined ? DEFAULT_PAGE_SIZE : parseInt(req.query.size as string);
+    if (isNaN(indexNum) || isNaN(sizeNum) || indexNum < 0 || sizeNum <= 0) {
+      return res.status(400).json({ error: 'Index must be non-negative and size must be positive' });
+    }
+
+    const photos = albumStore.getPhotos(parseInt(req.params.albumId), indexNum, sizeNum);
+    if (!photos) {
+      return res.status(404).json({ error: 'Album not found' });
+    }
+    res.json(userMetadataStore.withUserMetadata(photos));
+  } catch (error) {
+    console.error('Error getting album photos:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting album photos' });
+  }
+});
+
+router.post('/albums/:albumId/photos', async (req: Request, res: Response) => {
+  try {
+    const photos = parsePhotoReferences((req.body as AlbumPhotosRequest).photos);
+    if ('error' in photos) {
+      return res.status(400).json({ error: photos.error });
+    }
+
+    const added = albumStore.addPhotos(parseInt(req.params.albumId), photos);
+    if (added === null) {
+      return res.status(404).json({ error: 'Album not found' });
+    }
+    res.json({ message: `Added ${added} photos to the album`, added });
+  } catch (error) {
+    console.error('Error adding photos to album:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error adding photos to album' });
+  }
+});
+
+router.delete('/albums/:albumId/photos', async (req: Request, res: Response) => {
+  try {
+    const photos = parsePhotoReferences((req.body as AlbumPhotosRequest).photos);
+    if ('error' in photos) {
+      return res.status(400).json({ error: photos.error });
+    }
+
+    const removed = albumStore.removePhotos(parseInt(req.params.albumId), photos);
+    if (removed === null) {
+      return res.status(404).json({ error: 'Album not found' });
+    }
+    res.json({ message: `Removed ${removed} photos from the album`, removed });
+  } catch (error) {
+    console.error('Error removing photos from album:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error removing photos from album' });
+  }
+});
+
+// Set the manual order, used when the album's sortOrder is 'manual'
+router.put('/albums/:albumId/order', async (req: Request, res: Response) => {
+  try {
+    const photos = parsePhotoReferences((req.body as AlbumPhotosRequest).photos);
+    if ('error' in photos) {
+      return res.status(400).json({ error: photos.error });
+    }
+
+    if (!albumStore.reorderPhotos(parseInt(req.params.albumId), photos)) {
+      return res.status(404).json({ error: 'Album not found' });
+    }
+    res.json({ message: 'Album order updated successfully' });
+  } catch (error) {
+    console.error('Error reordering album:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error reordering album' });
+  }
+});
+
+// A page of photos matching the filters in the query, in the same shape as /provider/get-thumbnails
+router.get('/search', async (req: Request, res: Response) => {
+  try {
+    const indexNum = req.query.index === undefined ? 0 : parseInt(req.query.index as string);
+    const sizeNum = req.query.size === undefined ? DEFAULT_PAGE_SIZE : parseInt(req.query.size as string);
+    if (isNaN(indexNum) || isNaN(sizeNum) || indexNum < 0 || sizeNum <= 0) {
+      return res.status(400).json({ error: 'Index must be non-negative and size must be positive' });
+    }
+
+    const filter = parsePhotoFilter(req.query);
+    if ('error' in filter) {
+      return res.status(400).json({ error: filter.error });
+    }
+    const sort = parsePhotoSort(req.query);
+    if ('error' in sort) {
+      return res.status(400).json({ error: sort.error });
+    }
+
+    res.json(userMetadataStore.withUserMetadata(photoIndex.getPhotos(indexNum, sizeNum, filter, sort)));
+  } catch (error) {
+    console.error('Error searching photos:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error searching photos' });
+  }
+});
+
+// Photo counts per month, with where each month starts in /library/search's results
+router.get('/timeline', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseTimelineQuery(req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    // Months are counted in UTC unless the client gives its time zone
+    const utcOffset = req.query.tzOffset === undefined ? 0 : parseInt(req.query.tzOffset as string);
+    if (isNaN(utcOffset) || Math.abs(utcOffset) > 14 * 60) {
+      return res.status(400).json({ error: 'tzOffset must be minutes east of UTC, from -840 to 840' });
+    }
+
+    const buckets = photoIndex.getTimeline(parsed.filter, parsed.direction, utcOffset);
+    const last = buckets[buckets.length - 1];
+    const response: TimelineResponse = { buckets, total: last ? last.offset + last.count : 0 };
+    res.json(response);
+  } catch (error) {
+    console.error('Error getting timeline:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting timeline' });
+  }
+});
+
+// Where a date falls in /library/search's results, for jumping straight to it
+router.get('/timeline/offset', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseTimelineQuery(req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const date = new Date(req.query.date as string);
+    if (req.query.date === undefined || isNaN(date.getTime())) {
+      return res.status(400).json({ error: 'Missing or invalid query parameter: date' });
+    }
+
+    res.json({ offset: photoIndex.getDateOffset(date, parsed.filter, parsed.direction) });
+  } catch (error) {
+    console.error('Error getting timeline offset:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting timeline offset' });
+  }
+});
+
+// Favorite or rate any number of photos at once
+router.patch('/photos', async (req: Request, res: Response) => {
+  try {
+    const { favorite, rating }: UpdatePhotosRequest = req.body;
+    const photos = parsePhotoReferences((req.body as UpdatePhotosRequest).photos);
+    if ('error' in photos) {
+      return res.status(400).json({ error: photos.error });
+    }
+    if (favorite === undefined && rating === undefined) {
+      return res.status(400).json({ error: 'Missing fields to change: favorite, rating' });
+    }
+    if (favorite !== undefined && typeof favorite !== 'boolean') {
+      return res.status(400).json({ error: 'favorite must be true or false' });
+    }
+    if (rating !== undefined && (!Number.isInteger(rating) || rating < 0 || rating > MAX_RATING)) {
+      return res.status(400).json({ error: `rating must be a whole number from 0 to ${MAX_RATING}` });
+    }
+
+    const updated = userMetadataStore.updatePhotos(photos, { favorite, rating });
+    res.json({ message: `Updated ${updated} photos`, updated });
+  } catch (error) {
+    console.error('Error updating photos:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error updating photos' });
+  }
+});
+
+// Tags in use, most used first
+router.get('/tags', async (req: Request, res: Response) => {
+  try {
+    res.json(userMetadataStore.getTags());
+  } catch (error) {
+    console.error('Error getting tags:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting tags' });
+  }
+});
+
+router.post('/tags', async (req: Request, res: Response) => {
+  try {
+    const photos = parsePhotoReferences((req.body as TagPhotosRequest).photos);
+    if ('error' in photos) {
+      return res.status(400).json({ error: photos.error });
+    }
+    const tags = parseTags((req.body as TagPhotosRequest).tags);
+    if ('error' in tags) {
+      return res.status(400).json({ error: tags.error });
+    }
+
+    const tagged = userMetadataStore.addTags(photos, tags);
+    res.json({ message: `Tagged ${tagged} photos`, tagged });
+  } catch (error) {
+    console.error('Error tagging photos:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error tagging photos' });
+  }
+});
+
+router.delete('/tags', async (req: Request, res: Response) => {
+  try {
+    const photos = parsePhotoReferences((req.body as TagPhotosRequest).photos);
+    if ('error' in photos) {
+      return res.status(400).json({ error: photos.error });
+    }
+    const tags = parseTags((req.body as TagPhotosRequest).tags);
+    if ('error' in tags) {
+      return res.status(400).json({ error: tags.error });
+    }
+
+    const untagged = userMetadataStore.removeTags(photos, tags);
+    res.json({ message: `Untagged ${untagged} photos`, untagged });
+  } catch (error) {
+    console.error('Error untagging photos:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error untagging photos' });
+  }
+});
+
+export default router;
@@ -99,6 +99,12 @@ router.get('/authorize', async (req: Request, res: Response) => {
       // If provider doesn't exist, create a new instance and add it to the manager
       providerInstance = await cloudProviderManager.addProvider((providerType as string).toLowerCase());
     }
+
+    if (!providerInstance.usesOAuth()) {
+      return res.status(400).json({ 
+        error: `${providerType} provider does not use OAuth authorization` 
+      });
+    }
     
     // Get the corresponding app key based on index
     const patterns = providerInstance.getEnvVariablePatterns(Number(index));
@@ -154,6 +160,12 @@ router.post('/refresh', async (req: Request, res: Response) => {
         error: `Provider not found: ${error instanceof Error ? error.message : 'Unknown error'}` 
       });
     }
+
+    if (!provider.usesOAuth()) {
+      return res.status(400).json({ 
+        error: `${providerType} provider does not use access tokens` 
+      });
+    }
     
     // Get credentials from environment variables
     const patterns = provider.getEnvVariablePatterns(indexNum);
@@ -1,10 +1,89 @@
-import express, { Request, Response } from 'express';
+import express, { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import path from 'path';
 import cloudProviderManager from '../cloud-provider-manager.js';
-import { ProviderInfo, AddProviderRequest, RemoveProviderRequest } from '../types.js';
-import { ThumbnailHandler } from '../thumbnail-handler.js';
+import syncManager from '../sync-manager.js';
+import rebalancer from '../rebalancer.js';
+import thumbnailCache from '../thumbnail-cache.js';
+import thumbnailGenerator from '../thumbnail-generator.js';
+import CloudProvider from '../cloud-provider.js';
+import { ProviderInfo, AddProviderRequest, RemoveProviderRequest, Credentials, UploadRequest, FileDownloadStream,
+  DeleteFileRequest, MoveFileRequest, RenameFileRequest, SyncRequest, ThumbnailOptions, ThumbnailSize, RebalanceRequest } from '../types.js';
+import { ThumbnailHandler, THUMBNAIL_SIZES, DEFAULT_THUMBNAIL_OPTIONS } from '../thumbnail-handler.js';
+import { parseRangeHeader, RANGE_NOT_SATISFIABLE } from '../byte-range.js';
+import { parsePhotoFilter } from '../photo-query.js';
 
 const router = express.Router();
 
+// Uploads are held in memory until they are sent on to the provider
+const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_UPLOAD_BYTES } });
+
+/**
+ * Receive an upload's multipart file, answering multer's errors as JSON instead of
+ * leaving them to Express's HTML error page
+ */
+function receiveUpload(req: Request, res: Response, next: NextFunction): void {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      res.status(413).json({ error: `File is larger than the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB upload limit` });
+    } else if (error instanceof multer.MulterError) {
+      res.status(400).json({ error: error.message });
+    } else {
+      next(error);
+    }
+  });
+}
+
+/**
+ * Look up a provider instance that can be written to, for the file routes
+ * @param providerType - The provider type from the request
+ * @param instanceIndex - The instance index from the request
+ * @returns The provider, or the status code and error to respond with
+ */
+function getWritableProvider(providerType: string, instanceIndex: number | string):
+  { provider: CloudProvider; instanceIndex: number } | { status: number; error: string } {
+  const indexNum = parseInt(instanceIndex.toString());
+  if (isNaN(indexNum) || indexNum < 0) {
+    return { status: 400, error: 'Instance index must be a non-negative number' };
+  }
+
+  let provider: CloudProvider;
+  try {
+    provider = cloudProviderManager.getProvider(providerType.toLowerCase(), indexNum);
+  } catch (error) {
+    return { status: 404, error: `Provider not found: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  if (!provider.isAuthenticated() || !provider.supportsWrite()) {
+    return { status: 400, error: `${providerType} instance ${indexNum} is not connected or is read-only` };
+  }
+
+  return { provider, instanceIndex: indexNum };
+}
+
+/**
+ * Read thumbnail options from query parameters, falling back to the defaults
+ * @param query - The request's query parameters
+ * @returns The options, or an error message for invalid values
+ */
+function parseThumbnailOptions(query: Request['query']): ThumbnailOptions | { error: string } {
+  const { size = DEFAULT_THUMBNAIL_OPTIONS.size, mode = DEFAULT_THUMBNAIL_OPTIONS.mode,
+    format = DEFAULT_THUMBNAIL_OPTIONS.format } = query;
+
+  if (typeof size !== 'string' || !(size in THUMBNAIL_SIZES)) {
+    return { error: `size must be one of: ${Object.keys(THUMBNAIL_SIZES).join(', ')}` };
+  }
+  if (mode !== 'strict' && mode !== 'bestfit') {
+    return { error: 'mode must be strict or bestfit' };
+  }
+  if (format !== 'jpeg' && format !== 'png') {
+    return { error: 'format must be jpeg or png' };
+  }
+
+  return { size: size as ThumbnailSize, mode, format };
+}
+
 // Provider endpoint to add a new provider
 router.post('/add-provider', async (req: Request, res: Response) => {
   try {
@@ -13,28 +92,44 @@ router.post('/add-provider', async (req: Request, res: Response) => {
     if (!providerType || !credentials) {
       return res.status(400).json({ error: 'Missing required fields: providerType, credentials' });
     }
+
+    if (!cloudProviderManager.isSupportedProviderType(providerType)) {
+      return res.status(400).json({ error: `Unsupported provider type: ${providerType}` });
+    }
         
-    // Validate credentials
-    if (!credentials.appKey || !credentials.appSecret) {
-      return res.status(400).json({ error: 'Missing required credentials: appKey and appSecret' });
+    // Validate credentials against what this provider type needs
+    const ProviderClass = cloudProviderManager.getProviderClass(providerType);
+    const requiredKeys = new ProviderClass(false).getRequiredCredentialKeys();
+    const missingKeys = requiredKeys.filter(key => !credentials[key]);
+    if (missingKeys.length > 0) {
+      return res.status(400).json({ error: `Missing required credentials: ${missingKeys.join(', ')}` });
     }
     
     // Add the provider to the manager
-    await cloudProviderManager.addProvider(providerType.toLowerCase());
+    const provider = await cloudProviderManager.addProvider(providerType.toLowerCase());
     const assignedInstanceIndex = cloudProviderManager.providers[providerType.toLowerCase()].length - 1;
     
-    // Write credentials to .env file
-    cloudProviderManager.writeEnvVariables(providerType.toLowerCase(), assignedInstanceIndex, {
-      appKey: credentials.appKey,
-      appSecret: credentials.appSecret,
-      refreshToken: credentials.refreshToken,
-      accessToken: credentials.accessToken
-    });
+    // Write every credential variable to .env file, leaving placeholders for the
+    // ones not provided yet (e.g. OAuth tokens filled in by the callback)
+    const patterns = provider.getEnvVariablePatterns(assignedInstanceIndex);
+    const credentialsToWrite: Credentials = {};
+    for (const key of Object.keys(patterns)) {
+      credentialsToWrite[key] = credentials[key] || '';
+    }
+    cloudProviderManager.writeEnvVariables(providerType.toLowerCase(), assignedInstanceIndex, credentialsToWrite);
+
+    // Providers without an OAuth step can connect straight away
+    let authenticated = false;
+    if (!provider.usesOAuth()) {
+      authenticated = await cloudProviderManager.connectProvider(providerType.toLowerCase(), assignedInstanceIndex);
+    }
     
     res.json({ 
       message: 'Provider added successfully',
       providerType: providerType.toLowerCase(),
-      instanceIndex: assignedInstanceIndex
+      instanceIndex: assignedInstanceIndex,
+      usesOAuth: provider.usesOAuth(),
+      authenticated: authenticated
     });
     
   } catch (error) {
@@ -55,7 +150,8 @@ router.get('/providers', async (req: Request, res: Response) => {
         const providerInfo: ProviderInfo = {
           type: providerType,
           instanceIndex: i,
-          authenticated: provider.isAuthenticated ? provider.isAuthenticated() : false
+          authenticated: provider.isAuthenticated ? provider.isAuthenticated() : false,
+          usesOAuth: provider.usesOAuth()
         };
         
         // Try to get account info if authenticated
@@ -96,7 +192,7 @@ router.delete('/remove-provider', async (req: Request, res: Response) => {
     }
     
     // Remove the provider from the manager
-    cloudProviderManager.removeProvider(providerType.toLowerCase(), indexNum);
+    await cloudProviderManager.removeProvider(providerType.toLowerCase(), indexNum);
     
     res.json({ 
       message: 'Provider removed successfully',
@@ -130,6 +226,12 @@ router.get('/get-thumbnails', async (req: Request, res: Response) => {
     if (indexNum < 0 || sizeNum <= 0) {
       return res.status(400).json({ error: 'Index must be non-negative and size must be positive' });
     }
+
+    // Takes the same optional filters as /library/search
+    const filter = parsePhotoFilter(req.query);
+    if ('error' in filter) {
+      return res.status(400).json({ error: filter.error });
+    }
     
     console.log(`Getting thumbnails: index=${indexNum}, size=${sizeNum}`);
     
@@ -149,26 +251,363 @@ router.get('/get-thumbnails', async (req: Request, res: Response) => {
       return res.json([]); // Return empty array if no providers are authenticated
     }
     
-    const thumbnails = await ThumbnailHandler.getThumbnailObjects(indexNum, sizeNum);
-    const enhancedThumbnails = await Promise.all(thumbnails.map(async (thumbnail) => {
-      const provider = cloudProviderManager.getProvider(thumbnail.providerType, thumbnail.instanceIndex);
-      const thumbnailResponse = await provider.getThumbnail(thumbnail.path);
-      return {
-        ...thumbnail,
-        thumbnail: thumbnailResponse.success ? {
-          data: thumbnailResponse.data?.toString('base64'),
-          mimeType: thumbnailResponse.mimeType
-        } : {
-          error: thumbnailResponse.error
-        }
-      };
-    }));
-    
-    res.json(enhancedThumbnails);
+    // Thumbnails themselves are served by /thumbnail so the browser can cache them
+    const thumbnails = await ThumbnailHandler.getThumbnailObjects(indexNum, sizeNum, filter);
+    res.json(thumbnails);
   } catch (error) {
     console.error('Error getting thumbnails:', error);
     res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting thumbnails' });
   }
 });
 
-export default router; 
\ No newline at end of file
+// Delete a file from its provider and drop it from the gallery
+router.delete('/file', async (req: Request, res: Response) => {
+  try {
+    const { providerType, instanceIndex, path: filePath }: DeleteFileRequest = req.body;
+
+    if (!providerType || instanceIndex === undefined || !filePath) {
+      return res.status(400).json({ error: 'Missing required fields: providerType, instanceIndex, path' });
+    }
+
+    const target = getWritableProvider(providerType, instanceIndex);
+    if ('error' in target) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    await target.provider.deleteFile(filePath);
+    await ThumbnailHandler.removeThumbnail(providerType.toLowerCase(), target.instanceIndex, filePath);
+
+    res.json({
+      message: 'File deleted successfully',
+      path: filePath
+    });
+
+  } catch (error) {
+    console.error('Error deleting file:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error deleting file' });
+  }
+});
+
+// Move a file to another folder on the same provider instance
+router.post('/move', async (req: Request, res: Response) => {
+  try {
+    const { providerType, instanceIndex, fromPath, toPath }: MoveFileRequest = req.body;
+
+    if (!providerType || instanceIndex === undefined || !fromPath || !toPath) {
+      return res.status(400).json({ error: 'Missing required fields: providerType, instanceIndex, fromPath, toPath' });
+    }
+
+    const target = getWritableProvider(providerType, instanceIndex);
+    if ('error' in target) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    const metadata = await target.provider.moveFile(fromPath, toPath, target.instanceIndex);
+    await ThumbnailHandler.updateThumbnail(fromPath, metadata);
+
+    res.json({
+      message: 'File moved successfully',
+      file: metadata
+    });
+
+  } catch (error) {
+    console.error('Error moving file:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error moving file' });
+  }
+});
+
+// Rename a file in place
+router.post('/rename', async (req: Request, res: Response) => {
+  try {
+    const { providerType, instanceIndex, path: filePath, newName }: RenameFileRequest = req.body;
+
+    if (!providerType || instanceIndex === undefined || !filePath || !newName) {
+      return res.status(400).json({ error: 'Missing required fields: providerType, instanceIndex, path, newName' });
+    }
+
+    if (newName.includes('/')) {
+      return res.status(400).json({ error: 'newName must be a file name, use /move to change folders' });
+    }
+
+    const target = getWritableProvider(providerType, instanceIndex);
+    if ('error' in target) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    const metadata = await target.provider.renameFile(filePath, newName, target.instanceIndex);
+    await ThumbnailHandler.updateThumbnail(filePath, metadata);
+
+    res.json({
+      message: 'File renamed successfully',
+      file: metadata
+    });
+
+  } catch (error) {
+    console.error('Error renaming file:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error renaming file' });
+  }
+});
+
+// Serve a thumbnail as an image from the disk cache, fetching it from the provider (or
+// generating it from the original) on a miss
+router.get('/thumbnail/:providerType/:instanceIndex', async (req: Request, res: Response) => {
+  try {
+    const { providerType, instanceIndex } = req.params;
+    const filePath = req.query.path;
+
+    if (typeof filePath !== 'string' || filePath === '') {
+      return res.status(400).json({ error: 'Missing required query parameter: path' });
+    }
+
+    const indexNum = parseInt(instanceIndex);
+    if (isNaN(indexNum) || indexNum < 0) {
+      return res.status(400).json({ error: 'Instance index must be a non-negative number' });
+    }
+
+    const options = parseThumbnailOptions(req.query);
+    if ('error' in options) {
+      return res.status(400).json({ error: options.error });
+    }
+
+    const photo = await ThumbnailHandler.getThumbnailObject(providerType.toLowerCase(), indexNum, filePath);
+    if (!photo) {
+      return res.status(404).json({ error: `No indexed photo at ${filePath}` });
+    }
+
+    // The ETag is the cache key, which changes with the file's content
+    const etag = `"${thumbnailCache.getKey(photo, options)}"`;
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    if (req.headers['if-none-match'] === etag) {
+      return res.status(304).end();
+    }
+
+    const thumbnail = await thumbnailCache.getThumbnail(photo, options, () => {
+      const provider = cloudProviderManager.getProvider(photo.providerType, photo.instanceIndex);
+      return thumbnailGenerator.getThumbnail(provider, photo, options);
+    });
+
+    if (!('etag' in thumbnail)) {
+      res.removeHeader('ETag');
+      res.removeHeader('Cache-Control');
+      return res.status(404).json({ error: thumbnail.error || 'Thumbnail not available' });
+    }
+
+    res.setHeader('Content-Type', thumbnail.mimeType);
+    res.setHeader('Content-Length', thumbnail.data.length);
+    res.end(thumbnail.data);
+
+  } catch (error) {
+    console.error('Error getting thumbnail:', error);
+    res.removeHeader('ETag');
+    res.removeHeader('Cache-Control');
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting thumbnail' });
+  }
+});
+
+// Stream the original photo or video, honouring a single-range Range header so large files can be seeked and played
+router.get('/photo/:providerType/:instanceIndex', async (req: Request, res: Response) => {
+  try {
+    const { providerType, instanceIndex } = req.params;
+    const filePath = req.query.path;
+
+    if (typeof filePath !== 'string' || filePath === '') {
+      return res.status(400).json({ error: 'Missing required query parameter: path' });
+    }
+
+    const indexNum = parseInt(instanceIndex);
+    if (isNaN(indexNum) || indexNum < 0) {
+      return res.status(400).json({ error: 'Instance index must be a non-negative number' });
+    }
+
+    let provider: CloudProvider;
+    try {
+      provider = cloudProviderManager.getProvider(providerType.toLowerCase(), indexNum);
+    } catch (error) {
+      return res.status(404).json({
+        error: `Provider not found: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+
+    if (!provider.isAuthenticated()) {
+      return res.status(400).json({ error: `${providerType} instance ${indexNum} is not authenticated` });
+    }
+
+    let download: FileDownloadStream;
+    try {
+      download = await provider.downloadFile(filePath, parseRangeHeader(req.headers.range));
+    } catch (error) {
+      if (error instanceof Error && error.message.includes(RANGE_NOT_SATISFIABLE)) {
+        return res.status(416).end();
+      }
+      throw error;
+    }
+
+    const { stream, start, end, totalSize, partial, contentType } = download;
+
+    // A generic type would make the browser download videos instead of playing them
+    if (contentType && contentType !== 'application/octet-stream') {
+      res.setHeader('Content-Type', contentType);
+    } else {
+      res.type(path.posix.extname(filePath) || 'application/octet-stream');
+    }
+    res.setHeader('Accept-Ranges', 'bytes');
+    if (!isNaN(end)) {
+      res.setHeader('Content-Length', end - start + 1);
+    }
+    if (partial) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${start}-${end}/${totalSize}`);
+    }
+
+    // Stop pulling from the provider if the browser goes away (e.g. after seeking)
+    res.on('close', () => stream.destroy());
+    stream.on('error', (error) => {
+      console.error('Error streaming photo:', error.message);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+
+  } catch (error) {
+    console.error('Error downloading photo:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error downloading photo' });
+  }
+});
+
+// Upload a photo, placing it on the instance with the most free space unless one is given
+router.post('/upload', receiveUpload, async (req: Request, res: Response) => {
+  try {
+    const { providerType, instanceIndex, folder }: UploadRequest = req.body;
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'Missing required multipart field: file' });
+    }
+
+    if ((providerType === undefined) !== (instanceIndex === undefined)) {
+      return res.status(400).json({ error: 'providerType and instanceIndex must be provided together' });
+    }
+
+    let targetType: string;
+    let targetIndex: number;
+    let provider: CloudProvider;
+
+    if (providerType !== undefined && instanceIndex !== undefined) {
+      const target = getWritableProvider(providerType, instanceIndex);
+      if ('error' in target) {
+        return res.status(target.status).json({ error: target.error });
+      }
+      targetType = providerType.toLowerCase();
+      targetIndex = target.instanceIndex;
+      provider = target.provider;
+    } else {
+      const target = await cloudProviderManager.findUploadTarget(req.file.size);
+      if (!target) {
+        return res.status(507).json({ error: 'No connected provider has enough free space for this file' });
+      }
+      targetType = target.providerType;
+      targetIndex = target.instanceIndex;
+      provider = target.provider;
+    }
+
+    // Normalize the folder to '' (root) or '/a/b'
+    const folderPath = `/${folder || ''}`.replace(/\/+/g, '/').replace(/\/$/, '');
+    const filePath = `${folderPath}/${req.file.originalname}`;
+
+    console.log(`Uploading ${filePath} (${req.file.size} bytes) to ${targetType} instance ${targetIndex}`);
+    const metadata = await provider.uploadFile(filePath, req.file.buffer, targetIndex);
+
+    // Make the new photo visible in the gallery right away
+    await ThumbnailHandler.addThumbnails([metadata]);
+
+    res.json({
+      message: 'File uploaded successfully',
+      file: metadata
+    });
+
+  } catch (error) {
+    console.error('Error uploading file:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error uploading file' });
+  }
+});
+
+// Pick up changes made outside the app now instead of waiting for the next poll
+router.post('/sync', async (req: Request, res: Response) => {
+  try {
+    const { providerType, instanceIndex }: SyncRequest = req.body || {};
+
+    if ((providerType === undefined) !== (instanceIndex === undefined)) {
+      return res.status(400).json({ error: 'providerType and instanceIndex must be provided together' });
+    }
+
+    let results;
+    if (providerType !== undefined && instanceIndex !== undefined) {
+      const indexNum = parseInt(instanceIndex.toString());
+      if (isNaN(indexNum) || indexNum < 0) {
+        return res.status(400).json({ error: 'Instance index must be a non-negative number' });
+      }
+      results = [await syncManager.syncInstance(providerType.toLowerCase(), indexNum)];
+    } else {
+      results = await syncManager.syncAll();
+    }
+
+    res.json({
+      message: 'Sync complete',
+      results: results
+    });
+
+  } catch (error) {
+    console.error('Error syncing providers:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error syncing providers' });
+  }
+});
+
+// Even out free space between writable instances, or with dryRun only show the moves it would make
+router.post('/rebalance', async (req: Request, res: Response) => {
+  try {
+    const { dryRun = false }: RebalanceRequest = req.body || {};
+
+    if (typeof dryRun !== 'boolean') {
+      return res.status(400).json({ error: 'dryRun must be true or false' });
+    }
+
+    if (dryRun) {
+      return res.json(await rebalancer.plan());
+    }
+    if (rebalancer.isRunning()) {
+      return res.status(409).json({ error: 'A rebalance is already running' });
+    }
+
+    // The moves are made in the background, GET /rebalance reports progress
+    res.status(202).json(await rebalancer.rebalance());
+
+  } catch (error) {
+    console.error('Error rebalancing providers:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error rebalancing providers' });
+  }
+});
+
+// Progress of the current or last rebalance
+router.get('/rebalance', async (req: Request, res: Response) => {
+  try {
+    res.json(rebalancer.getStatus());
+  } catch (error) {
+    console.error('Error getting rebalance status:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error getting rebalance status' });
+  }
+});
+
+// Stop a rebalance after the file being moved
+router.delete('/rebalance', async (req: Request, res: Response) => {
+  try {
+    const cancelled = rebalancer.cancel();
+    res.json({
+      message: `Cancelled ${cancelled} ${cancelled === 1 ? 'move' : 'moves'}`,
+      status: rebalancer.getStatus()
+    });
+  } catch (error) {
+    console.error('Error cancelling rebalance:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error cancelling rebalance' });
+  }
+});
+
+export default router;
\ No newline at end of file
@@ -3,7 +3,14 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import oauthRouter from './oauth-routes.js';
 import providerRouter from './provider-routes.js';
+import libraryRouter from './library-routes.js';
 import cloudProviderManager from '../cloud-provider-manager.js';
+import syncManager from '../sync-manager.js';
+import metadataEnricher from '../metadata-enricher.js';
+import duplicateFinder from '../duplicate-finder.js';
+import similarPhotoFinder from '../similar-photo-finder.js';
+import rebalancer from '../rebalancer.js';
+import replicator from '../replicator.js';
 import envFileManager from '../env-file-manager.js';
 
 // Get current directory and project root
@@ -15,6 +22,7 @@ const app = express();
 const PORT = 3000;
 const OAUTH_ROUTE = '/oauth';
 const PROVIDER_ROUTE = '/provider';
+const LIBRARY_ROUTE = '/library';
 
 // Export redirect URI configuration for use in other modules
 export const getRedirectUri = (req: Request): string => `${req.protocol}://${req.get('host')}${OAUTH_ROUTE}/`;
@@ -27,7 +35,7 @@ app.use(express.json());
 // Add CORS headers to allow frontend requests
 app.use((req: Request, res: Response, next) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
   res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
   
   // Handle preflight requests
@@ -43,6 +51,7 @@ app.use(express.static(path.join(__dirname, '../../../dist/frontend')));
 
 app.use(OAUTH_ROUTE, oauthRouter);
 app.use(PROVIDER_ROUTE, providerRouter);
+app.use(LIBRARY_ROUTE, libraryRouter);
 
 console.log('redirect URI:', getStaticRedirectUri());
 
@@ -54,6 +63,12 @@ app.get('/', (req: Request, res: Response) => {
 // Initialize CloudProviderManager before starting the server
 (async () => {
   await cloudProviderManager.initialize();
+  syncManager.start();
+  metadataEnricher.start();
+  duplicateFinder.start();
+  similarPhotoFinder.start();
+  rebalancer.start();
+  replicator.start();
 
   app.listen(PORT, () => {
     console.log(`Server is running on http://localhost:${PORT}`);
@@ -0,0 +1,39 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import photoIndex from './photo-index.js';
+import similarPhotoFinder from './similar-photo-finder.js';
+import { PhotoMetadata } from './types.js';
+
+process.env.PHOTO_INDEX_PATH = ':memory:';
+
+const photo = (name: string): PhotoMetadata => ({
+  id: `id:${name}`,
+  name,
+  path: `/${name}`,
+  date_taken: new Date(2020, 0, 1),
+  size: name.length,
+  providerType: 'local',
+  instanceIndex: 0,
+  mediaType: 'image'
+});
+
+test('similar groups never chain photos further apart than the threshold', () => {
+  // Each step is 8 bits, so a and c are 16 bits apart; d is 1 bit from c
+  const hashes: Record<string, string> = {
+    'a.jpg': '0000000000000000',
+    'b.jpg': '00000000000000ff',
+    'c.jpg': '000000000000ffff',
+    'd.jpg': '000000000001ffff'
+  };
+  const photos = Object.keys(hashes).map(photo);
+  photoIndex.upsertPhotos(photos);
+  for (const indexed of photos) {
+    photoIndex.setPerceptualHash(indexed, hashes[indexed.name]);
+  }
+
+  const groups = similarPhotoFinder.getSimilarGroups(10, 0, 10).map(group => group.photos.map(member => member.name).sort());
+  assert.deepEqual(groups.sort(), [['a.jpg', 'b.jpg'], ['c.jpg', 'd.jpg']]);
+
+  // With room for 17 bits every pair is close enough
+  assert.deepEqual(similarPhotoFinder.getSimilarGroups(17, 0, 10).map(group => group.photos.length), [4]);
+});
@@ -0,0 +1,257 @@
+import cloudProviderManager from './cloud-provider-manager.js';
+import CloudProvider from './cloud-provider.js';
+import photoIndex from './photo-index.js';
+import thumbnailGenerator from './thumbnail-generator.js';
+import { computeDHash, parseDHash, hammingDistance } from './perceptual-hash.js';
+import { PhotoMetadata, SimilarGroup, ThumbnailOptions } from './types.js';
+
+// A small thumbnail holds all the detail a 9x8 hash needs
+const HASH_THUMBNAIL_OPTIONS: ThumbnailOptions = { size: 'w128h128', mode: 'bestfit', format: 'jpeg' };
+
+const BATCH_SIZE = 50;
+
+// How long to wait before looking for new photos once everything is hashed
+const IDLE_SECONDS = 60;
+
+// Photos whose hashes differ in at most this many of 64 bits are treated as near-duplicates
+export const DEFAULT_SIMILARITY_THRESHOLD = 10;
+
+interface HashedPhoto {
+  photo: PhotoMetadata;
+  hash: [number, number];
+  contentHash: string | null;
+}
+
+// BK-tree over Hamming distance, so each lookup only visits hashes that could be in range
+interface BKNode {
+  item: number;
+  children: Map<number, BKNode>;
+}
+
+class SimilarPhotoFinder {
+  private static instance: SimilarPhotoFinder;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    if (SimilarPhotoFinder.instance) {
+      return SimilarPhotoFinder.instance;
+    }
+
+    SimilarPhotoFinder.instance = this;
+  }
+
+  /**
+   * Start hashing thumbnails in the background
+   */
+  start(): void {
+    const run = async () => {
+      const processed = await this.hashBatch();
+      this.timer = setTimeout(run, processed > 0 ? 0 : IDLE_SECONDS * 1000);
+    };
+
+    this.timer = setTimeout(run, 0);
+  }
+
+  /**
+   * Stop the background job
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Hash the thumbnails of the next batch of photos from every authenticated instance
+   * @returns The number of photos processed
+   */
+  async hashBatch(): Promise<number> {
+    let processed = 0;
+
+    for (const [providerType, instances] of Object.entries(cloudProviderManager.providers)) {
+      for (let i = 0; i < instances.length; i++) {
+        const provider = instances[i];
+        if (!provider || !provider.isAuthenticated()) {
+          continue;
+        }
+
+        for (const photo of photoIndex.getPhotosWithoutPerceptualHash(providerType, i, BATCH_SIZE)) {
+          const perceptualHash = await this.hashThumbnail(provider, photo);
+
+          // The instance may have been removed (shifting indexes) while we were reading
+          if (cloudProviderManager.providers[providerType]?.[i] !== provider) {
+            break;
+          }
+          photoIndex.setPerceptualHash(photo, perceptualHash);
+          processed++;
+        }
+      }
+    }
+
+    if (processed > 0) {
+      console.log(`Computed perceptual hashes for ${processed} photos`);
+    }
+    return processed;
+  }
+
+  /**
+   * Group photos that look alike: resized copies, re-encoded exports and burst shots.
+   * Groups made only of byte-identical copies are left to the duplicate finder.
+   * @param threshold - Maximum number of differing hash bits between any two photos of a group
+   * @param offset - Number of groups to skip
+   * @param limit - Maximum number of groups to return
+   * @returns The groups, largest first, each with a suggested copy to keep
+   */
+  getSimilarGroups(threshold: number, offset: number, limit: number): SimilarGroup[] {
+    const photos: HashedPhoto[] = photoIndex.getPerceptualHashes().map(({ photo, perceptualHash, contentHash }) => ({
+      photo,
+      hash: parseDHash(perceptualHash),
+      contentHash
+    }));
+
+    const newest = (members: HashedPhoto[]) => members.reduce((latest, member) => Math.max(latest, member.photo.date_taken.getTime()), 0);
+    const groups = this.cluster(photos, threshold)
+      .filter(members => new Set(members.map(member => member.contentHash
+        ?? `${member.photo.providerType}:${member.photo.instanceIndex}:${member.photo.path}`)).size > 1)
+      .sort((a, b) => b.length - a.length || newest(b) - newest(a));
+
+    return groups.slice(offset, offset + limit).map(members => {
+      const groupPhotos = members
+        .map(member => member.photo)
+        .sort((a, b) => a.date_taken.getTime() - b.date_taken.getTime());
+      return {
+        photos: groupPhotos.map(photo => ({ ...photo, writable: this.isWritable(photo) })),
+        best: this.pickBest(groupPhotos)
+      };
+    });
+  }
+
+  /**
+   * Count the photos still waiting for a perceptual hash
+   * @returns The number of photos
+   */
+  countPendingHashes(): number {
+    return photoIndex.countPhotosWithoutPerceptualHash();
+  }
+
+  /**
+   * Group photos around leaders: each photo not yet grouped starts a group, and its
+   * neighbours join, closest first, if they are within the threshold of every member.
+   * Chains of small differences therefore never join photos that look nothing alike.
+   * @param photos - The hashed photos
+   * @param threshold - Maximum Hamming distance between any two photos of a group
+   * @returns Groups of two or more photos
+   */
+  private cluster(photos: HashedPhoto[], threshold: number): HashedPhoto[][] {
+    if (photos.length === 0) {
+      return [];
+    }
+
+    const root: BKNode = { item: 0, children: new Map() };
+    for (let i = 1; i < photos.length; i++) {
+      this.insert(root, photos, i);
+    }
+
+    const grouped = new Array<boolean>(photos.length).fill(false);
+    const groups: HashedPhoto[][] = [];
+    for (let leader = 0; leader < photos.length; leader++) {
+      if (grouped[leader]) continue;
+
+      const distance = (item: number) => hammingDistance(photos[leader].hash, photos[item].hash);
+      const candidates = this.search(root, photos, photos[leader].hash, threshold)
+        .filter(item => item !== leader && !grouped[item])
+        .sort((a, b) => distance(a) - distance(b) || a - b);
+
+      const members = [leader];
+      for (const candidate of candidates) {
+        if (members.every(member => hammingDistance(photos[member].hash, photos[candidate].hash) <= threshold)) {
+          members.push(candidate);
+        }
+      }
+
+      if (members.length > 1) {
+        members.forEach(member => grouped[member] = true);
+        groups.push(members.map(member => photos[member]));
+      }
+    }
+    return groups;
+  }
+
+  private insert(root: BKNode, photos: HashedPhoto[], item: number): void {
+    let node = root;
+    for (;;) {
+      const distance = hammingDistance(photos[node.item].hash, photos[item].hash);
+      const child = node.children.get(distance);
+      if (!child) {
+        node.children.set(distance, { item, children: new Map() });
+        return;
+      }
+      node = child;
+    }
+  }
+
+  private search(root: BKNode, photos: HashedPhoto[], hash: [number, number], threshold: number): number[] {
+    const matches: number[] = [];
+    const pending = [root];
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      const distance = hammingDistance(photos[node.item].hash, hash);
+      if (distance <= threshold) {
+        matches.push(node.item);
+      }
+      // By the triangle inequality only these subtrees can hold hashes within range
+      for (const [childDistance, child] of node.children) {
+        if (Math.abs(childDistance - distance) <= threshold) {
+          pending.push(child);
+        }
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Suggest which photo of a group to keep: the highest resolution, then the largest file
+   * @param photos - The photos in the group
+   * @returns The index of the suggested photo
+   */
+  private pickBest(photos: PhotoMetadata[]): number {
+    let best = 0;
+    for (let i = 1; i < photos.length; i++) {
+      const pixels = (photos[i].width ?? 0) * (photos[i].height ?? 0);
+      const bestPixels = (photos[best].width ?? 0) * (photos[best].height ?? 0);
+      if (pixels > bestPixels || (pixels === bestPixels && photos[i].size > photos[best].size)) {
+        best = i;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Fetch a small thumbnail and hash it
+   * @param provider - The provider holding the photo
+   * @param photo - The indexed photo
+   * @returns The perceptual hash, or '' if no thumbnail could be read
+   */
+  private async hashThumbnail(provider: CloudProvider, photo: PhotoMetadata): Promise<string> {
+    try {
+      const thumbnail = await thumbnailGenerator.getThumbnail(provider, photo, HASH_THUMBNAIL_OPTIONS);
+      if (!thumbnail.success || !thumbnail.data) {
+        throw new Error(thumbnail.error || 'No thumbnail data');
+      }
+      return await computeDHash(thumbnail.data);
+    } catch (error) {
+      console.error(`Failed to hash thumbnail of ${photo.path}:`, error instanceof Error ? error.message : 'Unknown error');
+      return '';
+    }
+  }
+
+  private isWritable(photo: PhotoMetadata): boolean {
+    const provider = cloudProviderManager.providers[photo.providerType]?.[photo.instanceIndex];
+    return !!provider && provider.isAuthenticated() && provider.supportsWrite();
+  }
+}
+
+// Export a singleton instance
+const similarPhotoFinder = new SimilarPhotoFinder();
+export default similarPhotoFinder;
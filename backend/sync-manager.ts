@@ -0,0 +1,179 @@
+import cloudProviderManager from './cloud-provider-manager.js';
+import EnvFileManager from './env-file-manager.js';
+import CloudProvider from './cloud-provider.js';
+import { FileChanges, SyncResult } from './types.js';
+import { ThumbnailHandler } from './thumbnail-handler.js';
+
+// How often every connected instance is checked for changes, 0 turns polling off
+const DEFAULT_SYNC_INTERVAL_SECONDS = 60;
+
+class SyncManager {
+  private static instance: SyncManager;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Map<string, Promise<SyncResult>> = new Map();
+
+  constructor() {
+    if (SyncManager.instance) {
+      return SyncManager.instance;
+    }
+
+    SyncManager.instance = this;
+  }
+
+  /**
+   * Start polling all connected instances for changes
+   */
+  start(): void {
+    const setting = EnvFileManager.getSetting('SYNC_INTERVAL_SECONDS');
+    const intervalSeconds = setting !== undefined ? parseInt(setting) : DEFAULT_SYNC_INTERVAL_SECONDS;
+
+    if (isNaN(intervalSeconds) || intervalSeconds <= 0) {
+      console.log('Periodic sync disabled');
+      return;
+    }
+
+    const poll = async () => {
+      await this.syncAll();
+      this.timer = setTimeout(poll, intervalSeconds * 1000);
+    };
+
+    // Run the first pass right away so every instance gets a cursor
+    console.log(`Syncing providers every ${intervalSeconds} seconds`);
+    this.timer = setTimeout(poll, 0);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sync every authenticated provider instance
+   * @returns One result per instance
+   */
+  async syncAll(): Promise<SyncResult[]> {
+    const results: SyncResult[] = [];
+
+    for (const [providerType, instances] of Object.entries(cloudProviderManager.providers)) {
+      for (let i = 0; i < instances.length; i++) {
+        if (instances[i] && instances[i].isAuthenticated()) {
+          results.push(await this.syncInstance(providerType, i));
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Bring the photo index up to date with one provider instance. Concurrent
+   * calls for the same instance share a single run.
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index (0-based)
+   * @returns What changed in the index
+   */
+  async syncInstance(providerType: string, instanceIndex: number): Promise<SyncResult> {
+    const key = `${providerType}:${instanceIndex}`;
+    const pending = this.running.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const run = this.runSync(providerType, instanceIndex).finally(() => this.running.delete(key));
+    this.running.set(key, run);
+    return run;
+  }
+
+  private async runSync(providerType: string, instanceIndex: number): Promise<SyncResult> {
+    const result: SyncResult = { providerType, instanceIndex, added: 0, removed: 0, reset: false };
+
+    try {
+      const provider = cloudProviderManager.getProvider(providerType, instanceIndex);
+      if (!provider.isAuthenticated()) {
+        throw new Error('Provider not authenticated');
+      }
+
+      const changes = await this.fetchChanges(provider, providerType, instanceIndex);
+
+      // The instance may have been removed (shifting indexes) while we were waiting
+      if (cloudProviderManager.providers[providerType]?.[instanceIndex] !== provider) {
+        throw new Error('Provider instance was removed during sync');
+      }
+
+      if (changes.reset) {
+        await ThumbnailHandler.replaceThumbnails(providerType, instanceIndex, changes.added);
+      } else {
+        // Modified files are updated in place, keeping capture metadata if their content is unchanged
+        await ThumbnailHandler.removeThumbnails(providerType, instanceIndex, changes.removed);
+        await ThumbnailHandler.addThumbnails(changes.added);
+      }
+
+      if (provider.supportsChanges()) {
+        this.saveCursor(providerType, instanceIndex, changes.cursor);
+      }
+
+      result.added = changes.added.length;
+      result.removed = changes.removed.length;
+      result.reset = changes.reset;
+      if (result.added > 0 || result.removed > 0) {
+        console.log(`Synced ${providerType} instance ${instanceIndex}: ${result.added} added or modified, ${result.removed} removed${result.reset ? ' (full listing)' : ''}`);
+      }
+    } catch (error) {
+      console.error(`Failed to sync ${providerType} instance ${instanceIndex}:`, error instanceof Error ? error.message : 'Unknown error');
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return result;
+  }
+
+  /**
+   * Get changes from a provider, listing everything again for providers without change cursors
+   * @param provider - The provider instance
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index (0-based)
+   * @returns The changes to apply
+   */
+  private async fetchChanges(provider: CloudProvider, providerType: string, instanceIndex: number): Promise<FileChanges> {
+    if (!provider.supportsChanges()) {
+      return {
+        added: await provider.listFiles('', true, 2000, instanceIndex),
+        removed: [],
+        cursor: '',
+        reset: true
+      };
+    }
+
+    const cursor = EnvFileManager.getValue(this.getCursorVariable(providerType, instanceIndex)) || null;
+    return await provider.listChanges(cursor, instanceIndex);
+  }
+
+  /**
+   * Persist a cursor in .env next to the instance's credentials, so removing the
+   * instance removes (and re-indexes) its cursor too
+   * @param providerType - Type of the provider
+   * @param instanceIndex - Instance index (0-based)
+   * @param cursor - The cursor to store
+   */
+  private saveCursor(providerType: string, instanceIndex: number, cursor: string): void {
+    const variable = this.getCursorVariable(providerType, instanceIndex);
+
+    if (!EnvFileManager.hasKey(variable)) {
+      EnvFileManager.writeLines([`${variable}=${cursor}`], true);
+    } else if (EnvFileManager.getValue(variable) !== cursor) {
+      EnvFileManager.editLines([{ pattern: `^${variable}=`, newValue: cursor }]);
+    }
+  }
+
+  private getCursorVariable(providerType: string, instanceIndex: number): string {
+    return `${providerType.toUpperCase()}_SYNC_CURSOR_${instanceIndex}`;
+  }
+}
+
+// Export a singleton instance
+const syncManager = new SyncManager();
+export default syncManager;
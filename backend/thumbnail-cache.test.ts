@@ -0,0 +1,28 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import thumbnailCache from './thumbnail-cache.js';
+import { DEFAULT_THUMBNAIL_OPTIONS } from './thumbnail-handler.js';
+import { PhotoMetadata } from './types.js';
+
+const listed: PhotoMetadata = {
+  id: 'id:1',
+  name: 'beach.jpg',
+  path: '/beach.jpg',
+  date_taken: new Date(2024, 5, 1),
+  modified: new Date(2024, 5, 1),
+  size: 100,
+  providerType: 'local',
+  instanceIndex: 0
+};
+
+test('thumbnail cache keys survive enrichment but not file changes', () => {
+  const key = thumbnailCache.getKey(listed, DEFAULT_THUMBNAIL_OPTIONS);
+
+  // Enrichment replaces the listing date with the EXIF capture date
+  assert.equal(thumbnailCache.getKey({ ...listed, date_taken: new Date(2019, 6, 4) }, DEFAULT_THUMBNAIL_OPTIONS), key);
+
+  assert.notEqual(thumbnailCache.getKey({ ...listed, modified: new Date(2024, 5, 2) }, DEFAULT_THUMBNAIL_OPTIONS), key);
+  assert.notEqual(thumbnailCache.getKey({ ...listed, size: 101 }, DEFAULT_THUMBNAIL_OPTIONS), key);
+  assert.notEqual(thumbnailCache.getKey({ ...listed, id: 'id:2' }, DEFAULT_THUMBNAIL_OPTIONS), key);
+  assert.notEqual(thumbnailCache.getKey(listed, { ...DEFAULT_THUMBNAIL_OPTIONS, format: 'png' }), key);
+});
@@ -0,0 +1,193 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import EnvFileManager from './env-file-manager.js';
+import { PhotoMetadata, CachedThumbnail, ThumbnailResponse, ThumbnailOptions } from './types.js';
+import { BROWSER_IMAGE_TYPES } from './thumbnail-handler.js';
+
+const DEFAULT_MAX_CACHE_BYTES = 500 * 1024 * 1024;
+
+class ThumbnailCache {
+  private static instance: ThumbnailCache;
+  private cacheDir: string = '';
+  private maxBytes: number = DEFAULT_MAX_CACHE_BYTES;
+  private totalBytes: number = 0;
+  // Cache key -> file, least recently used first
+  private entries: Map<string, { fileName: string; size: number }> | null = null;
+  // Thumbnails being fetched, so concurrent misses for one key share a request
+  private pending: Map<string, Promise<CachedThumbnail | ThumbnailResponse>> = new Map();
+
+  constructor() {
+    if (ThumbnailCache.instance) {
+      return ThumbnailCache.instance;
+    }
+
+    ThumbnailCache.instance = this;
+  }
+
+  /**
+   * Get a thumbnail from the cache, fetching and storing it on a miss
+   * @param photo - The indexed photo
+   * @param options - The requested size, mode and format
+   * @param fetchThumbnail - Fetches the thumbnail from the provider
+   * @returns The cached thumbnail, or the provider's error response
+   */
+  async getThumbnail(photo: PhotoMetadata, options: ThumbnailOptions,
+    fetchThumbnail: () => Promise<ThumbnailResponse>): Promise<CachedThumbnail | ThumbnailResponse> {
+    this.load();
+    const key = this.getKey(photo, options);
+
+    const entry = this.entries!.get(key);
+    if (entry) {
+      this.touch(key);
+      try {
+        return {
+          data: await fs.promises.readFile(path.join(this.cacheDir, entry.fileName)),
+          mimeType: BROWSER_IMAGE_TYPES[path.extname(entry.fileName)] || 'image/jpeg',
+          etag: `"${key}"`
+        };
+      } catch {
+        // Evicted or deleted from disk since, fetch it again
+        this.remove(key);
+      }
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const fetching = (async () => {
+      const response = await fetchThumbnail();
+      if (!response.success || !response.data) {
+        return response;
+      }
+      return await this.store(key, response.data, response.mimeType || 'image/jpeg');
+    })().finally(() => this.pending.delete(key));
+
+    this.pending.set(key, fetching);
+    return fetching;
+  }
+
+  /**
+   * Build the cache key for a photo. The content hash is used when the provider
+   * has one, otherwise the file id, size and modified date stand in for it. The
+   * capture date is left out, enrichment changes it while the file stays the same.
+   * @param photo - The indexed photo
+   * @param options - The requested size, mode and format
+   * @returns A hex key that changes whenever the file does
+   */
+  getKey(photo: PhotoMetadata, options: ThumbnailOptions): string {
+    const version = photo.hash || `${photo.id}:${photo.size}:${(photo.modified ?? photo.date_taken).getTime()}`;
+    return crypto.createHash('sha1')
+      .update(`${photo.providerType}\0${photo.instanceIndex}\0${photo.path}\0${version}`)
+      .update(`\0${options.size}\0${options.mode}\0${options.format}`)
+      .digest('hex');
+  }
+
+  /**
+   * Read the cache directory on first use, oldest files first
+   */
+  private load(): void {
+    if (this.entries) {
+      return;
+    }
+
+    this.cacheDir = EnvFileManager.getSetting('THUMBNAIL_CACHE_DIR')
+      || path.join(path.dirname(EnvFileManager.envFilePath), 'thumbnail-cache');
+    const maxBytes = EnvFileManager.getSetting('THUMBNAIL_CACHE_MAX_BYTES');
+    if (maxBytes) {
+      this.maxBytes = parseInt(maxBytes) || DEFAULT_MAX_CACHE_BYTES;
+    }
+    fs.mkdirSync(this.cacheDir, { recursive: true });
+
+    const files = [];
+    for (const name of fs.readdirSync(this.cacheDir)) {
+      const filePath = path.join(this.cacheDir, name);
+      // Left over from a write that was interrupted
+      if (name.endsWith('.tmp')) {
+        fs.unlinkSync(filePath);
+        continue;
+      }
+      const stats = fs.statSync(filePath);
+      files.push({ name, size: stats.size, mtime: stats.mtimeMs });
+    }
+    files.sort((a, b) => a.mtime - b.mtime);
+
+    this.entries = new Map();
+    this.totalBytes = 0;
+    for (const file of files) {
+      this.entries.set(path.basename(file.name, path.extname(file.name)), { fileName: file.name, size: file.size });
+      this.totalBytes += file.size;
+    }
+
+    console.log(`Thumbnail cache at ${this.cacheDir}: ${files.length} files, ${this.totalBytes} bytes`);
+    this.evict();
+  }
+
+  /**
+   * Write a thumbnail to disk and evict old ones if the cache is over its limit
+   * @param key - The cache key
+   * @param data - The thumbnail bytes
+   * @param mimeType - The thumbnail's MIME type
+   * @returns The cached thumbnail
+   */
+  private async store(key: string, data: Buffer, mimeType: string): Promise<CachedThumbnail> {
+    const extension = Object.keys(BROWSER_IMAGE_TYPES).find(ext => BROWSER_IMAGE_TYPES[ext] === mimeType) || '.jpg';
+    const fileName = key + extension;
+
+    // Write to a temporary name first so readers never see a partial file
+    const filePath = path.join(this.cacheDir, fileName);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, filePath);
+
+    this.remove(key);
+    this.entries!.set(key, { fileName, size: data.length });
+    this.totalBytes += data.length;
+    this.evict();
+
+    return { data, mimeType, etag: `"${key}"` };
+  }
+
+  /**
+   * Mark a thumbnail as most recently used, in memory and on disk so the order survives restarts
+   * @param key - The cache key
+   */
+  private touch(key: string): void {
+    const entry = this.entries!.get(key)!;
+    this.entries!.delete(key);
+    this.entries!.set(key, entry);
+
+    const now = new Date();
+    fs.promises.utimes(path.join(this.cacheDir, entry.fileName), now, now).catch(() => {});
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries!.get(key);
+    if (entry) {
+      this.entries!.delete(key);
+      this.totalBytes -= entry.size;
+    }
+  }
+
+  /**
+   * Delete least recently used thumbnails until the cache fits its size limit
+   */
+  private evict(): void {
+    for (const [key, entry] of this.entries!) {
+      if (this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      this.entries!.delete(key);
+      this.totalBytes -= entry.size;
+      fs.promises.unlink(path.join(this.cacheDir, entry.fileName)).catch(error => {
+        console.warn(`Failed to evict cached thumbnail ${entry.fileName}:`, error instanceof Error ? error.message : 'Unknown error');
+      });
+    }
+  }
+}
+
+// Export a singleton instance
+const thumbnailCache = new ThumbnailCache();
+export default thumbnailCache;
@@ -0,0 +1,133 @@
+import path from 'path';
+import sharp from 'sharp';
+import CloudProvider from './cloud-provider.js';
+import EnvFileManager from './env-file-manager.js';
+import { PhotoMetadata, ThumbnailOptions, ThumbnailResponse, FileDownloadStream } from './types.js';
+import { THUMBNAIL_SIZES } from './thumbnail-handler.js';
+
+// Formats the bundled image decoder can read
+const DECODABLE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.tif', '.tiff', '.avif', '.svg'];
+
+// Originals are streamed into the decoder, but the decoded image is held in memory
+const MAX_SOURCE_BYTES = 100 * 1024 * 1024;
+
+// Decoding is CPU heavy, so only a few thumbnails are generated at once
+const DEFAULT_CONCURRENCY = 2;
+
+class ThumbnailGenerator {
+  private static instance: ThumbnailGenerator;
+  private active: number = 0;
+  private waiting: (() => void)[] = [];
+  // Read on first use rather than from .env for every thumbnail
+  private limit: number | null = null;
+
+  constructor() {
+    if (ThumbnailGenerator.instance) {
+      return ThumbnailGenerator.instance;
+    }
+
+    ThumbnailGenerator.instance = this;
+  }
+
+  /**
+   * Get a thumbnail from the provider, generating one from the original when the
+   * provider has none
+   * @param provider - The provider holding the photo
+   * @param photo - The indexed photo
+   * @param options - The requested size, mode and format
+   * @returns The provider's thumbnail, a generated one, or the provider's error
+   */
+  async getThumbnail(provider: CloudProvider, photo: PhotoMetadata, options: ThumbnailOptions): Promise<ThumbnailResponse> {
+    const response = await provider.getThumbnail(photo.path, options);
+    if (response.success || !this.canGenerate(photo)) {
+      return response;
+    }
+
+    console.log(`Generating thumbnail for ${photo.path} (${response.error})`);
+    const generated = await this.generate(provider, photo, options);
+    return generated.success ? generated : response;
+  }
+
+  /**
+   * Check whether a thumbnail can be generated for a photo
+   * @param photo - The indexed photo
+   * @returns True if the format can be decoded and the file is not too large
+   */
+  canGenerate(photo: PhotoMetadata): boolean {
+    return DECODABLE_EXTENSIONS.includes(path.extname(photo.name).toLowerCase())
+      && photo.size <= MAX_SOURCE_BYTES;
+  }
+
+  /**
+   * Download the original and resize it
+   * @param provider - The provider holding the photo
+   * @param photo - The indexed photo
+   * @param options - The requested size, mode and format
+   * @returns Promise containing thumbnail data or error
+   */
+  async generate(provider: CloudProvider, photo: PhotoMetadata, options: ThumbnailOptions): Promise<ThumbnailResponse> {
+    await this.acquire();
+    let download: FileDownloadStream | null = null;
+    try {
+      const { width, height } = THUMBNAIL_SIZES[options.size];
+      download = await provider.downloadFile(photo.path);
+
+      // rotate() with no angle applies the EXIF orientation
+      const transformer = sharp({ failOn: 'none' })
+        .rotate()
+        .resize(width, height, {
+          fit: options.mode === 'strict' ? 'cover' : 'inside',
+          withoutEnlargement: options.mode === 'bestfit'
+        });
+      if (options.format === 'png') {
+        transformer.png();
+      } else {
+        transformer.jpeg({ quality: 80 });
+      }
+
+      const source = download.stream;
+      source.on('error', error => transformer.destroy(error));
+      source.pipe(transformer);
+
+      return {
+        success: true,
+        data: await transformer.toBuffer(),
+        mimeType: `image/${options.format}`
+      };
+    } catch (error) {
+      download?.stream.destroy();
+      console.error(`Failed to generate thumbnail for ${photo.path}:`, error instanceof Error ? error.message : 'Unknown error');
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to generate thumbnail'
+      };
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.limit === null) {
+      this.limit = parseInt(EnvFileManager.getSetting('THUMBNAIL_GENERATOR_CONCURRENCY') || '') || DEFAULT_CONCURRENCY;
+    }
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    // The releasing caller hands its slot over
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// Export a singleton instance
+const thumbnailGenerator = new ThumbnailGenerator();
+export default thumbnailGenerator;
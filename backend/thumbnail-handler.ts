@@ -1,4 +1,40 @@
-import { PhotoMetadata } from "./types";
+import { PhotoMetadata, ThumbnailOptions, ThumbnailSize, MediaMetadata, PhotoFilter } from "./types";
+import photoIndex from "./photo-index.js";
+import mediaClassifier from "./media-classifier.js";
+import userMetadataStore from "./user-metadata-store.js";
+
+// Formats a browser can display directly, used by providers without a preview
+// service to serve small originals in place of a thumbnail
+export const BROWSER_IMAGE_TYPES: { [extension: string]: string } = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.bmp': 'image/bmp'
+};
+
+// Pixel dimensions of each thumbnail size preset
+export const THUMBNAIL_SIZES: { [size in ThumbnailSize]: { width: number; height: number } } = {
+    w32h32: { width: 32, height: 32 },
+    w64h64: { width: 64, height: 64 },
+    w128h128: { width: 128, height: 128 },
+    w256h256: { width: 256, height: 256 },
+    w480h320: { width: 480, height: 320 },
+    w640h480: { width: 640, height: 480 },
+    w960h640: { width: 960, height: 640 },
+    w1024h768: { width: 1024, height: 768 },
+    w2048h1536: { width: 2048, height: 1536 }
+};
+
+export const DEFAULT_THUMBNAIL_OPTIONS: ThumbnailOptions = {
+    size: 'w256h256',
+    mode: 'strict',
+    format: 'jpeg'
+};
+
+// Largest original file that will be sent in place of a thumbnail
+export const MAX_PASSTHROUGH_THUMBNAIL_BYTES = 2 * 1024 * 1024;
 
 export interface FileMetadata {
     id: string;
@@ -9,12 +45,11 @@ export interface FileMetadata {
     providerType: string;
     instanceIndex: number;
     hash?: string;
+    mimeType?: string;
 }
 
 export class ThumbnailHandler {
     private static instance: ThumbnailHandler;
-    static dateSortedThumbnails: FileMetadata[] = [];
-    static renderPointer: number = 0; // (starts from end, goes backwards)
 
     public static getInstance(): ThumbnailHandler {
         if (!ThumbnailHandler.instance) {
@@ -23,77 +58,79 @@ export class ThumbnailHandler {
         return ThumbnailHandler.instance;
     }
 
-    // add the batch of photos in sorted order (newest first)
+    // add (or update) a batch of photos and videos in the index, which keeps them sorted by date
     static async addThumbnails(files: FileMetadata[]) {
-        // Filter to only image files
-        const imageFiles = files.filter(file => ThumbnailHandler.isImage(file));
+        const mediaFiles = await ThumbnailHandler.withMediaTypes(files);
         
-        // If no images to add, return early
-        if (imageFiles.length === 0) {
+        // If no media to add, return early
+        if (mediaFiles.length === 0) {
             return;
         }
         
-        // Sort new images by date (oldest first, newest last)
-        imageFiles.sort((a, b) => a.date_taken.getTime() - b.date_taken.getTime());
-        
-        // If existing array is empty, just assign the sorted images
-        if (ThumbnailHandler.dateSortedThumbnails.length === 0) {
-            ThumbnailHandler.dateSortedThumbnails = imageFiles;
-            return;
-        }
-        
-        // Merge the sorted arrays efficiently
-        const merged: FileMetadata[] = [];
-        let i = 0; // pointer for existing photos
-        let j = 0; // pointer for new photos
-        
-        while (i < ThumbnailHandler.dateSortedThumbnails.length && j < imageFiles.length) {
-            if (ThumbnailHandler.dateSortedThumbnails[i].date_taken <= imageFiles[j].date_taken) {
-                merged.push(ThumbnailHandler.dateSortedThumbnails[i]);
-                i++;
-            } else {
-                merged.push(imageFiles[j]);
-                j++;
-            }
-        }
-        
-        // Add remaining photos from either array
-        while (i < ThumbnailHandler.dateSortedThumbnails.length) {
-            merged.push(ThumbnailHandler.dateSortedThumbnails[i]);
-            i++;
-        }
-        
-        while (j < imageFiles.length) {
-            merged.push(imageFiles[j]);
-            j++;
-        }
-        
-        ThumbnailHandler.dateSortedThumbnails = merged;
-        ThumbnailHandler.renderPointer = merged.length; // Reset pointer to end after merge
+        photoIndex.upsertPhotos(mediaFiles);
     };
 
-    static async isImage(file: FileMetadata): Promise<boolean> {
-        const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.tiff', '.tif', '.svg', '.ico', '.heic', '.heif', '.raw', '.cr2', '.nef', '.arw', '.dng'];
-        
-        const lastDotIndex = file.name.lastIndexOf('.');
-        
-        // If no extension found, or if the dot is at the beginning (hidden file), return false
-        if (lastDotIndex === -1 || lastDotIndex === 0) {
-            return false;
+    // replace everything indexed for an instance with a full listing
+    static async replaceThumbnails(providerType: string, instanceIndex: number, files: FileMetadata[]) {
+        photoIndex.replaceInstance(providerType, instanceIndex, await ThumbnailHandler.withMediaTypes(files));
+    }
+
+    // keep only photos, raws and videos, tagged with which one they are
+    static async withMediaTypes(files: FileMetadata[]): Promise<PhotoMetadata[]> {
+        const mediaFiles: PhotoMetadata[] = [];
+        for (const file of files) {
+            const mediaClass = await mediaClassifier.classify(file);
+            if (mediaClass !== 'other') {
+                mediaFiles.push({ ...file, mediaType: mediaClass });
+            }
         }
-        
-        const extension = file.name.toLowerCase().substring(lastDotIndex);
-        return imageExtensions.includes(extension);
-    };
+        return mediaFiles;
+    }
+
+    // whether an instance already has photos indexed from an earlier run
+    static async hasThumbnails(providerType: string, instanceIndex: number): Promise<boolean> {
+        return photoIndex.hasInstance(providerType, instanceIndex);
+    }
 
+    // the instance was removed, so later instances of the same type move down one index
     static async removeProvider(providerType: string, instanceIndex: number) {
-        ThumbnailHandler.dateSortedThumbnails = ThumbnailHandler.dateSortedThumbnails.filter(thumbnail => 
-            thumbnail.providerType !== providerType ||
-             thumbnail.instanceIndex !== instanceIndex);
-        ThumbnailHandler.renderPointer = ThumbnailHandler.dateSortedThumbnails.length; // Reset pointer after removal
+        photoIndex.removeInstance(providerType, instanceIndex);
+    }
+
+    // remove a single file, e.g. after it was deleted from its provider
+    static async removeThumbnail(providerType: string, instanceIndex: number, path: string) {
+        photoIndex.removePaths(providerType, instanceIndex, [path]);
+    }
+
+    // remove files and anything below them, e.g. after a folder was deleted
+    static async removeThumbnails(providerType: string, instanceIndex: number, paths: string[]) {
+        if (paths.length === 0) {
+            return;
+        }
+        photoIndex.removePaths(providerType, instanceIndex, paths);
+    }
+
+    // move a file's entry after it was moved or renamed, keeping it in its albums
+    static async updateThumbnail(oldPath: string, file: FileMetadata) {
+        const [mediaFile] = await ThumbnailHandler.withMediaTypes([file]);
+        if (mediaFile) {
+            photoIndex.movePhoto(oldPath, mediaFile);
+        } else {
+            await ThumbnailHandler.removeThumbnail(file.providerType, file.instanceIndex, oldPath);
+        }
     }
     
-    static async convertToPhotoMetadata(id: string, name: string, path: string, date_taken: Date, size: number, providerType: string, instanceIndex: number, hash?: string): Promise<PhotoMetadata> {
+    // store capture metadata read from a file; the index is ordered by date_taken,
+    // so a corrected date moves the photo to its place in the timeline
+    static async updateMediaMetadata(photo: PhotoMetadata, media: MediaMetadata | null) {
+        photoIndex.setMediaMetadata(photo, media);
+    }
+
+    static async getUnenrichedThumbnails(providerType: string, instanceIndex: number, limit: number): Promise<PhotoMetadata[]> {
+        return photoIndex.getUnenrichedPhotos(providerType, instanceIndex, limit);
+    }
+
+    static async convertToPhotoMetadata(id: string, name: string, path: string, date_taken: Date, size: number, providerType: string, instanceIndex: number, hash?: string, mimeType?: string): Promise<PhotoMetadata> {
         return {
             id: id,
             name: name,
@@ -102,21 +139,21 @@ export class ThumbnailHandler {
             size: size,
             providerType: providerType,
             instanceIndex: instanceIndex,
-            hash: hash
+            hash: hash,
+            mimeType: mimeType
         }
     }
 
-    static async getThumbnailObjects(index: number, size: number): Promise<PhotoMetadata[]> {
-        const totalLength = ThumbnailHandler.dateSortedThumbnails.length;
-        
-        if (totalLength === 0 || index < 0 || size <= 0 || index >= totalLength) {
+    static async getThumbnailObject(providerType: string, instanceIndex: number, path: string): Promise<PhotoMetadata | null> {
+        return photoIndex.getPhoto(providerType, instanceIndex, path);
+    }
+
+    static async getThumbnailObjects(index: number, size: number, filter: PhotoFilter = {}): Promise<PhotoMetadata[]> {
+        if (index < 0 || size <= 0) {
             return [];
         }
         
         // index 0 = newest photo
-        const startIndex = totalLength - 1 - index;
-        const endIndex = Math.max(0, startIndex - size + 1);
-        
-        return ThumbnailHandler.dateSortedThumbnails.slice(endIndex, startIndex + 1).reverse();
+        return userMetadataStore.withUserMetadata(photoIndex.getPhotos(index, size, filter));
     }
-}
\ No newline at end of file
+}
@@ -1,11 +1,10 @@
 import CloudProvider from "./cloud-provider";
+import { Readable } from "stream";
 
 // cloud-provider.ts
+// Maps a credential key (e.g. appKey, rootPath) to its env variable name
 export interface EnvVariablePatterns {
-  appKey: string;
-  appSecret: string;
-  accessToken: string;
-  refreshToken: string;
+  [key: string]: string;
 }
 
 export interface TokenResponse {
@@ -14,10 +13,11 @@ export interface TokenResponse {
 }
 
 export interface Credentials {
-  appKey: string;
-  appSecret: string;
+  appKey?: string;
+  appSecret?: string;
   accessToken?: string;
   refreshToken?: string;
+  [key: string]: string | undefined;
 }
 
 export interface StorageInfo {
@@ -43,6 +43,30 @@ export interface FileDownloadResult {
   fileBlob: Blob;
 }
 
+// Inclusive byte range, open-ended when end is undefined
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+export interface FileDownloadStream {
+  stream: Readable;
+  start: number;
+  end: number;
+  totalSize: number;
+  partial: boolean;
+  contentType?: string;
+}
+
+// Changes to a provider's files since a sync cursor, paths are as stored in PhotoMetadata
+export interface FileChanges {
+  added: PhotoMetadata[];
+  removed: string[];
+  cursor: string;
+  // True when the changes are a full listing that replaces everything indexed for the instance
+  reset: boolean;
+}
+
 export interface MediaInfoResult {
   metadata: any;
   mediaInfo: any;
@@ -53,10 +77,47 @@ export interface PhotoMetadata {
   name: string;
   path: string;
   date_taken: Date;
+  // The provider's modified date; date_taken starts out as this until capture metadata replaces it
+  modified?: Date;
   size: number;
   providerType: string;
   instanceIndex: number;
   hash?: string;
+  // The content type the provider lists the file with, if it has one
+  mimeType?: string;
+  mediaType?: MediaType;
+  // Playback length of a video in milliseconds
+  duration?: number;
+  latitude?: number;
+  longitude?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+  width?: number;
+  height?: number;
+  orientation?: number;
+  // The user's own metadata, filled in by the user metadata store
+  favorite?: boolean;
+  rating?: number;
+  tags?: string[];
+}
+
+export type MediaType = 'image' | 'raw' | 'video';
+
+// What media-classifier.ts makes of a listed file; other files are left out of the index
+export type MediaClass = MediaType | 'other';
+
+// Capture details read from EXIF or a provider's media info
+export interface MediaMetadata {
+  dateTaken?: Date;
+  dateSource: 'exif' | 'media_info';
+  cameraMake?: string;
+  cameraModel?: string;
+  width?: number;
+  height?: number;
+  orientation?: number;
+  duration?: number;
+  latitude?: number;
+  longitude?: number;
 }
 
 export interface AccountInfo {
@@ -79,6 +140,7 @@ export interface ProviderInfo {
   type: string;
   instanceIndex: number;
   authenticated: boolean;
+  usesOAuth: boolean;
   accountInfo?: {
     accountId: string;
     name: string;
@@ -96,6 +158,37 @@ export interface RemoveProviderRequest {
   instanceIndex: number;
 }
 
+export interface DeleteFileRequest {
+  providerType: string;
+  instanceIndex: number;
+  path: string;
+}
+
+export interface MoveFileRequest {
+  providerType: string;
+  instanceIndex: number;
+  fromPath: string;
+  toPath: string;
+}
+
+export interface RenameFileRequest {
+  providerType: string;
+  instanceIndex: number;
+  path: string;
+  newName: string;
+}
+
+export interface SyncRequest {
+  providerType?: string;
+  instanceIndex?: number | string;
+}
+
+export interface UploadRequest {
+  providerType?: string;
+  instanceIndex?: number | string;
+  folder?: string;
+}
+
 // providers/dropbox-provider.ts
 
 export interface DropboxAccount {
@@ -106,6 +199,449 @@ export interface DropboxAccount {
   email: string;
 }
 
+// providers/google-drive-provider.ts
+export interface GoogleDriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  size?: string;
+  modifiedTime: string;
+  thumbnailLink?: string;
+  imageMediaMetadata?: {
+    time?: string;
+    cameraMake?: string;
+    cameraModel?: string;
+    width?: number;
+    height?: number;
+    location?: {
+      latitude?: number;
+      longitude?: number;
+    };
+  };
+  videoMediaMetadata?: {
+    width?: number;
+    height?: number;
+    durationMillis?: string;
+  };
+}
+
+export interface GoogleDriveFileList {
+  files: GoogleDriveFile[];
+  nextPageToken?: string;
+}
+
+export interface GoogleDriveAbout {
+  storageQuota: {
+    limit?: string;
+    usage: string;
+  };
+  user: {
+    permissionId: string;
+    displayName: string;
+    emailAddress: string;
+  };
+}
+
+// providers/onedrive-provider.ts
+export interface OneDriveItem {
+  id: string;
+  name: string;
+  size: number;
+  lastModifiedDateTime: string;
+  file?: {
+    mimeType: string;
+  };
+  folder?: {
+    childCount: number;
+  };
+  photo?: {
+    takenDateTime?: string;
+    cameraMake?: string;
+    cameraModel?: string;
+    orientation?: number;
+  };
+  image?: {
+    width?: number;
+    height?: number;
+  };
+  video?: {
+    width?: number;
+    height?: number;
+    duration?: number;
+  };
+  location?: {
+    latitude?: number;
+    longitude?: number;
+  };
+  '@microsoft.graph.downloadUrl'?: string;
+}
+
+export interface OneDriveItemPage {
+  value: OneDriveItem[];
+  '@odata.nextLink'?: string;
+}
+
+export interface OneDriveDrive {
+  quota: {
+    remaining: number;
+  };
+}
+
+export interface OneDriveUser {
+  id: string;
+  displayName: string;
+  mail?: string;
+  userPrincipalName: string;
+}
+
+export interface OneDriveThumbnailSets {
+  value: Record<string, { url: string }>[];
+}
+
+// providers/webdav-provider.ts
+export interface WebDavResource {
+  path: string;
+  isCollection: boolean;
+  size: number;
+  lastModified: Date;
+  contentType?: string;
+  fileId?: string;
+  quotaAvailable?: number;
+}
+
+// sync-manager.ts
+export interface SyncResult {
+  providerType: string;
+  instanceIndex: number;
+  added: number;
+  removed: number;
+  reset: boolean;
+  error?: string;
+}
+
+// duplicate-finder.ts
+export interface DuplicatePhoto extends PhotoMetadata {
+  // Whether the copy can be deleted through its provider
+  writable: boolean;
+}
+
+export interface DuplicateGroup {
+  contentHash: string;
+  size: number;
+  // Space that deleting every copy but one would free
+  wastedBytes: number;
+  photos: DuplicatePhoto[];
+}
+
+export interface DuplicatesResponse {
+  groups: DuplicateGroup[];
+  // Files that may be duplicates but have not been hashed yet
+  pendingHashes: number;
+}
+
+// similar-photo-finder.ts
+export interface SimilarGroup {
+  photos: DuplicatePhoto[];
+  // Index in photos of the suggested copy to keep: the highest resolution, then the largest file
+  best: number;
+}
+
+export interface SimilarPhotosResponse {
+  groups: SimilarGroup[];
+  // Photos whose thumbnails have not been hashed yet
+  pendingHashes: number;
+}
+
+// routes/library-routes.ts, photo-index.ts
+export interface GeoBounds {
+  north: number;
+  south: number;
+  // west > east for a box that crosses the antimeridian
+  east: number;
+  west: number;
+}
+
+export interface GeoCluster {
+  latitude: number;
+  longitude: number;
+  count: number;
+  // The box around every photo in the cluster, for fetching them with /library/geo/photos
+  bounds: GeoBounds;
+  // The newest photo in the cluster, shown as its preview
+  photo: PhotoMetadata;
+}
+
+export interface MapConfig {
+  tileUrl: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+// album-store.ts, routes/library-routes.ts
+export type AlbumSortOrder = 'date_desc' | 'date_asc' | 'manual';
+
+export interface PhotoReference {
+  providerType: string;
+  instanceIndex: number;
+  path: string;
+}
+
+export interface Album {
+  id: number;
+  name: string;
+  sortOrder: AlbumSortOrder;
+  // The chosen cover, or the album's first photo if none was chosen
+  cover: PhotoMetadata | null;
+  photoCount: number;
+  createdAt: Date;
+}
+
+export interface CreateAlbumRequest {
+  name: string;
+  sortOrder?: AlbumSortOrder;
+}
+
+export interface UpdateAlbumRequest {
+  name?: string;
+  sortOrder?: AlbumSortOrder;
+  cover?: PhotoReference | null;
+}
+
+export interface AlbumPhotosRequest {
+  photos: PhotoReference[];
+}
+
+export interface AlbumRow {
+  id: number;
+  name: string;
+  sort_order: string;
+  cover_provider_type: string | null;
+  cover_instance_index: number | null;
+  cover_path: string | null;
+  created_at: number;
+  photo_count: number;
+}
+
+// photo-query.ts, photo-index.ts
+export interface PhotoFilter {
+  // Case-insensitive part of the file name
+  name?: string;
+  // Photos anywhere below this folder
+  folder?: string;
+  // Capture date range, from inclusive and to exclusive
+  from?: Date;
+  to?: Date;
+  providerType?: string;
+  instanceIndex?: number;
+  // Size range in bytes, both inclusive
+  minSize?: number;
+  maxSize?: number;
+  // Lower-case file extensions without the dot
+  extensions?: string[];
+  favorite?: boolean;
+  minRating?: number;
+  // Photos must carry every one of these tags
+  tags?: string[];
+}
+
+export type PhotoSortField = 'date' | 'name' | 'size';
+
+export interface PhotoSort {
+  by: PhotoSortField;
+  direction: 'asc' | 'desc';
+}
+
+// photo-index.ts, routes/library-routes.ts
+export interface TimelineBucket {
+  year: number;
+  // 1-12
+  month: number;
+  count: number;
+  // Position of the month's first photo in the sorted library
+  offset: number;
+}
+
+export interface TimelineResponse {
+  buckets: TimelineBucket[];
+  total: number;
+}
+
+// user-metadata-store.ts, routes/library-routes.ts
+
+export interface UserMetadataChanges {
+  favorite?: boolean;
+  rating?: number;
+}
+
+export interface UpdatePhotosRequest extends UserMetadataChanges {
+  photos: PhotoReference[];
+}
+
+export interface TagPhotosRequest {
+  photos: PhotoReference[];
+  tags: string[];
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// rebalancer.ts, routes/provider-routes.ts
+export interface RebalanceRequest {
+  // Only plan the moves, without making them
+  dryRun?: boolean;
+}
+
+export interface RebalanceInstance {
+  providerType: string;
+  instanceIndex: number;
+  freeBytes: number;
+  // Free space once every planned move is made
+  plannedFreeBytes: number;
+}
+
+export interface RebalanceMove {
+  providerType: string;
+  instanceIndex: number;
+  path: string;
+  size: number;
+  targetProviderType: string;
+  targetInstanceIndex: number;
+}
+
+export interface RebalancePlan {
+  instances: RebalanceInstance[];
+  moves: RebalanceMove[];
+  totalBytes: number;
+}
+
+// pending until copied, copied until the original is deleted
+export type RebalanceMoveStatus = 'pending' | 'copied' | 'done' | 'failed' | 'skipped' | 'cancelled';
+
+export interface RebalanceStatus {
+  running: boolean;
+  counts: { [status in RebalanceMoveStatus]: number };
+  movedBytes: number;
+  totalBytes: number;
+  // The file being moved right now
+  current?: RebalanceMove;
+  failures: (RebalanceMove & { status: RebalanceMoveStatus; error: string })[];
+}
+
+export interface RebalanceMoveRow {
+  id: number;
+  provider_type: string;
+  instance_index: number;
+  path: string;
+  size: number;
+  target_provider_type: string;
+  target_instance_index: number;
+  status: RebalanceMoveStatus;
+  content_hash: string | null;
+  target_path: string | null;
+  target_id: string | null;
+  target_modified: number | null;
+  target_hash: string | null;
+  error: string | null;
+}
+
+// replicator.ts, routes/library-routes.ts
+export interface ReplicationPolicy {
+  // null for the policy covering the whole library
+  albumId: number | null;
+  albumName?: string;
+  // How many different provider instances should hold each file
+  copies: number;
+  // Files the policy covers, and how many of them have enough copies
+  files: number;
+  compliantFiles: number;
+}
+
+export interface SetReplicationPolicyRequest {
+  // Leave out for the whole library
+  albumId?: number | null;
+  // 1 removes the policy
+  copies: number;
+}
+
+export interface ReplicationFailure extends PhotoReference {
+  error: string;
+  failedAt: Date;
+}
+
+export interface ReplicationStatus {
+  policies: ReplicationPolicy[];
+  // Files covered by any policy, and how many of them have enough copies
+  files: number;
+  compliantFiles: number;
+  // Bytes still to upload before every file has enough copies
+  missingBytes: number;
+  // Files whose copies cannot be counted until their content hash is computed
+  pendingHashes: number;
+  running: boolean;
+  // The file being copied right now, and where to
+  current?: PhotoReference & { targetProviderType: string; targetInstanceIndex: number };
+  // Copies made since the server started
+  copiedFiles: number;
+  copiedBytes: number;
+  failures: ReplicationFailure[];
+}
+
+export interface UnderReplicatedFile {
+  contentHash: string | null;
+  size: number;
+  copies: number;
+  requiredCopies: number;
+  // Every copy of the file
+  photos: PhotoMetadata[];
+}
+
+// A row of the files query in replicator.ts
+export interface ReplicatedFileRow {
+  file_key: string;
+  content_hash: string | null;
+  provider_type: string;
+  instance_index: number;
+  path: string;
+  size: number;
+  copies: number;
+  required: number;
+}
+
+// photo-index.ts
+export interface PhotoRow {
+  provider_type: string;
+  instance_index: number;
+  path: string;
+  id: string;
+  name: string;
+  date_taken: number;
+  size: number;
+  hash: string | null;
+  media_type: string;
+  duration: number | null;
+  modified: number | null;
+  computed_hash: string | null;
+  perceptual_hash: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  date_source: string;
+  enriched: number;
+  camera_make: string | null;
+  camera_model: string | null;
+  width: number | null;
+  height: number | null;
+  orientation: number | null;
+}
+
+// thumbnail-cache.ts
+export interface CachedThumbnail {
+  data: Buffer;
+  mimeType: string;
+  etag: string;
+}
+
 // env-file-manager.ts
 export interface EditObject {
   pattern: string;
@@ -122,6 +658,24 @@ export interface ProviderInstances {
   [key: string]: CloudProvider[];
 }
 
+export interface UploadTarget {
+  providerType: string;
+  instanceIndex: number;
+  provider: CloudProvider;
+  freeBytes: number;
+}
+
+// Dropbox's thumbnail sizes, used as size presets for every provider
+export type ThumbnailSize = 'w32h32' | 'w64h64' | 'w128h128' | 'w256h256' | 'w480h320'
+  | 'w640h480' | 'w960h640' | 'w1024h768' | 'w2048h1536';
+
+export interface ThumbnailOptions {
+  size: ThumbnailSize;
+  // strict crops to exactly the preset's box, bestfit scales to fit inside it
+  mode: 'strict' | 'bestfit';
+  format: 'jpeg' | 'png';
+}
+
 export interface ThumbnailResponse {
   success: boolean;
   data?: Buffer;
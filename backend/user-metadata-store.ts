@@ -0,0 +1,174 @@
+import photoIndex from './photo-index.js';
+import { PhotoMetadata, PhotoReference, TagCount, UserMetadataChanges } from './types.js';
+
+export const MAX_RATING = 5;
+
+interface FileKey {
+  provider_type: string;
+  instance_index: number;
+  file_id: string;
+}
+
+/**
+ * Favorites, star ratings and tags the user sets on photos. They are stored by the
+ * provider's file id rather than the path, so they follow a file through renames and
+ * are still there when an instance is listed again from scratch.
+ */
+class UserMetadataStore {
+  private static instance: UserMetadataStore;
+
+  constructor() {
+    if (UserMetadataStore.instance) {
+      return UserMetadataStore.instance;
+    }
+
+    UserMetadataStore.instance = this;
+  }
+
+  /**
+   * Set the favorite flag or rating of photos
+   * @param photos - The photos to change
+   * @param changes - The favorite flag, the rating (0 clears it), or both
+   * @returns The number of indexed photos that were changed
+   */
+  updatePhotos(photos: PhotoReference[], changes: UserMetadataChanges): number {
+    const db = photoIndex.getDatabase();
+    const keys = this.resolve(photos);
+
+    const upsert = db.prepare(`
+      INSERT INTO photo_user_metadata (provider_type, instance_index, file_id, favorite, rating)
+      VALUES (@provider_type, @instance_index, @file_id, COALESCE(@favorite, 0), COALESCE(@rating, 0))
+      ON CONFLICT (provider_type, instance_index, file_id) DO UPDATE SET
+        favorite = COALESCE(@favorite, favorite),
+        rating = COALESCE(@rating, rating)
+    `);
+    // Rows that no longer say anything are dropped rather than kept as zeros
+    const prune = db.prepare(`
+      DELETE FROM photo_user_metadata
+      WHERE provider_type = @provider_type AND instance_index = @instance_index AND file_id = @file_id
+        AND favorite = 0 AND rating = 0
+    `);
+
+    const values = {
+      favorite: changes.favorite === undefined ? null : Number(changes.favorite),
+      rating: changes.rating ?? null
+    };
+    db.transaction(() => {
+      for (const key of keys) {
+        upsert.run({ ...key, ...values });
+        prune.run(key);
+      }
+    })();
+    return keys.length;
+  }
+
+  /**
+   * Tag photos. Tags are compared case-insensitively, and tags a photo already has are skipped.
+   * @param photos - The photos to tag
+   * @param tags - The tags to add
+   * @returns The number of indexed photos that were tagged
+   */
+  addTags(photos: PhotoReference[], tags: string[]): number {
+    const db = photoIndex.getDatabase();
+    const keys = this.resolve(photos);
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO photo_tags (provider_type, instance_index, file_id, tag)
+      VALUES (@provider_type, @instance_index, @file_id, @tag)
+    `);
+
+    db.transaction(() => {
+      for (const key of keys) {
+        for (const tag of tags) {
+          insert.run({ ...key, tag });
+        }
+      }
+    })();
+    return keys.length;
+  }
+
+  /**
+   * Remove tags from photos
+   * @param photos - The photos to untag
+   * @param tags - The tags to remove
+   * @returns The number of indexed photos that were untagged
+   */
+  removeTags(photos: PhotoReference[], tags: string[]): number {
+    const db = photoIndex.getDatabase();
+    const keys = this.resolve(photos);
+    const remove = db.prepare(`
+      DELETE FROM photo_tags
+      WHERE provider_type = @provider_type AND instance_index = @instance_index AND file_id = @file_id AND tag = @tag
+    `);
+
+    db.transaction(() => {
+      for (const key of keys) {
+        for (const tag of tags) {
+          remove.run({ ...key, tag });
+        }
+      }
+    })();
+    return keys.length;
+  }
+
+  /**
+   * Get every tag in use on an indexed photo, most used first
+   * @returns The tags with the number of photos carrying each
+   */
+  getTags(): TagCount[] {
+    return photoIndex.getDatabase().prepare(`
+      SELECT t.tag AS tag, COUNT(*) AS count FROM photo_tags AS t
+      JOIN photos AS p ON p.provider_type = t.provider_type AND p.instance_index = t.instance_index AND p.id = t.file_id
+      GROUP BY t.tag
+      ORDER BY count DESC, t.tag
+    `).all() as TagCount[];
+  }
+
+  /**
+   * Fill in the favorite flag, rating and tags of photos
+   * @param photos - Photos from the index
+   * @returns The same photos with their user metadata
+   */
+  withUserMetadata(photos: PhotoMetadata[]): PhotoMetadata[] {
+    const db = photoIndex.getDatabase();
+    const getMetadata = db.prepare(`
+      SELECT favorite, rating FROM photo_user_metadata WHERE provider_type = ? AND instance_index = ? AND file_id = ?
+    `);
+    const getTags = db.prepare(`
+      SELECT tag FROM photo_tags WHERE provider_type = ? AND instance_index = ? AND file_id = ? ORDER BY tag
+    `).pluck();
+
+    return photos.map(photo => {
+      const metadata = getMetadata.get(photo.providerType, photo.instanceIndex, photo.id) as { favorite: number; rating: number } | undefined;
+      return {
+        ...photo,
+        favorite: metadata?.favorite === 1,
+        rating: metadata?.rating ?? 0,
+        tags: getTags.all(photo.providerType, photo.instanceIndex, photo.id) as string[]
+      };
+    });
+  }
+
+  /**
+   * Look up the file ids of photos, skipping any that are not indexed
+   * @param photos - The photos
+   * @returns One key per distinct indexed file
+   */
+  private resolve(photos: PhotoReference[]): FileKey[] {
+    const keys = new Map<string, FileKey>();
+    for (const photo of photos) {
+      const found = photoIndex.getPhoto(photo.providerType, photo.instanceIndex, photo.path);
+      if (found) {
+        keys.set(`${found.providerType}\0${found.instanceIndex}\0${found.id}`, {
+          provider_type: found.providerType,
+          instance_index: found.instanceIndex,
+          file_id: found.id
+        });
+      }
+    }
+    return [...keys.values()];
+  }
+}
+
+// Export a singleton instance
+const userMetadataStore = new UserMetadataStore();
+export default userMetadataStore;
@@ -1,14 +1,74 @@
-import { useState, useEffect, useCallback } from 'react';
-import { AddProviderRequest, RemoveProviderRequest, AddProviderResponse, StatusType } from './types';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { AddProviderRequest, RemoveProviderRequest, AddProviderResponse, ProviderCredentials, StatusType, PhotoMetadata, PhotoAction, PhotoFilter } from './types';
 import StatusAlert from './components/StatusAlert';
 import ProviderForms from './components/ProviderForms';
 import ProviderList from './components/ProviderList';
 import PhotoGallery from './components/PhotoGallery';
+import DuplicateFinder from './components/DuplicateFinder';
+import SimilarPhotos from './components/SimilarPhotos';
+import MapView from './components/MapView';
+import Rebalance from './components/Rebalance';
+import Replication from './components/Replication';
+import Albums from './components/Albums';
+import AddToAlbumDialog from './components/AddToAlbumDialog';
+import PhotoFilterBar from './components/PhotoFilterBar';
 
 function App() {
   const [status, setStatus] = useState<{ message: string; type: StatusType } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [albumTarget, setAlbumTarget] = useState<PhotoMetadata | null>(null);
+  const [albumsRefreshTrigger, setAlbumsRefreshTrigger] = useState(0);
+
+  const [photoFilter, setPhotoFilter] = useState<PhotoFilter>({});
+
+  // Stable across renders, so sections can depend on them in effects without reloading
+  const showError = useCallback((message: string) => setStatus({ message, type: 'error' }), []);
+  const showSuccess = useCallback((message: string) => setStatus({ message, type: 'success' }), []);
+
+  const galleryActions = useMemo((): PhotoAction[] => [
+    { label: 'Add to album', onClick: setAlbumTarget }
+  ], []);
+
+  // Query parameters for /library/search
+  const filterQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    const megabytes = (value: number) => String(Math.round(value * 1024 * 1024));
+    // Whole local days, so the end of the range is the start of the next day
+    const startOfDay = (day: string, offset: number = 0) => {
+      const date = new Date(`${day}T00:00`);
+      date.setDate(date.getDate() + offset);
+      return date.toISOString();
+    };
+
+    if (photoFilter.name) params.set('name', photoFilter.name);
+    if (photoFilter.folder) params.set('folder', photoFilter.folder);
+    if (photoFilter.from) params.set('from', startOfDay(photoFilter.from));
+    if (photoFilter.to) params.set('to', startOfDay(photoFilter.to, 1));
+    if (photoFilter.providerType) {
+      params.set('providerType', photoFilter.providerType);
+      params.set('instanceIndex', String(photoFilter.instanceIndex ?? 0));
+    }
+    if (photoFilter.minSizeMB !== undefined) params.set('minSize', megabytes(photoFilter.minSizeMB));
+    if (photoFilter.maxSizeMB !== undefined) params.set('maxSize', megabytes(photoFilter.maxSizeMB));
+    if (photoFilter.extensions) params.set('ext', photoFilter.extensions.replace(/\s+/g, ''));
+    if (photoFilter.favorite) params.set('favorite', 'true');
+    if (photoFilter.minRating) params.set('minRating', String(photoFilter.minRating));
+    if (photoFilter.tag) params.set('tag', photoFilter.tag);
+    if (photoFilter.sort) params.set('sort', photoFilter.sort);
+    if (photoFilter.order) params.set('order', photoFilter.order);
+    return params.toString();
+  }, [photoFilter]);
+
+  const galleryPhotosUrl = useCallback(
+    (index: number, size: number) => `/library/search?index=${index}&size=${size}${filterQuery ? `&${filterQuery}` : ''}`,
+    [filterQuery]
+  );
+
+  // Month headers and the date scrubber only make sense in date order
+  const galleryTimelineUrl = !photoFilter.sort || photoFilter.sort === 'date'
+    ? `/library/timeline?${filterQuery ? `${filterQuery}&` : ''}tzOffset=${-new Date().getTimezoneOffset()}`
+    : undefined;
 
   const checkOAuthCallback = useCallback(() => {
     const urlParams = new URLSearchParams(window.location.search);
@@ -18,7 +78,7 @@ function App() {
 
     if (code && state) {
       setStatus({
-        message: 'Authorization successful! Your Dropbox provider has been configured.',
+        message: 'Authorization successful! Your provider has been configured.',
         type: 'success'
       });
       // Trigger refresh of providers list
@@ -36,8 +96,8 @@ function App() {
     checkOAuthCallback();
   }, [checkOAuthCallback]);
 
-  const handleFormSubmit = async (formData: { appKey: string; appSecret: string }) => {
-    if (!formData.appKey || !formData.appSecret) {
+  const handleFormSubmit = async (providerType: string, credentials: ProviderCredentials) => {
+    if (Object.keys(credentials).length === 0) {
       setStatus({
         message: 'Please fill in all required fields.',
         type: 'error'
@@ -59,11 +119,8 @@ function App() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          providerType: 'DROPBOX',
-          credentials: {
-            appKey: formData.appKey,
-            appSecret: formData.appSecret
-          }
+          providerType: providerType,
+          credentials: credentials
         } as AddProviderRequest)
       });
 
@@ -73,6 +130,19 @@ function App() {
       }
 
       const addResponseData = await addResponse.json() as AddProviderResponse;
+
+      // Providers without OAuth are connected as soon as they are added
+      if (addResponseData.usesOAuth === false) {
+        setStatus({
+          message: addResponseData.authenticated
+            ? 'Provider added and connected successfully!'
+            : 'Provider added, but it could not connect with the given credentials.',
+          type: addResponseData.authenticated ? 'success' : 'error'
+        });
+        setRefreshTrigger(prev => prev + 1);
+        return;
+      }
+
       setStatus({
         message: 'Provider added successfully! Initiating authorization...',
         type: 'success'
@@ -80,7 +150,7 @@ function App() {
 
       // Step 2: Redirect to OAuth authorization
       const instanceIndex = addResponseData.instanceIndex || 0;
-      window.location.href = `/oauth/authorize?providerType=dropbox&index=${instanceIndex}`;
+      window.location.href = `/oauth/authorize?providerType=${providerType}&index=${instanceIndex}`;
 
     } catch (error) {
       console.error('Error:', error);
@@ -161,6 +231,15 @@ function App() {
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <StatusAlert status={status} onClose={() => setStatus(null)} />
+      <AddToAlbumDialog
+        photo={albumTarget}
+        onClose={() => setAlbumTarget(null)}
+        onAdded={(message) => {
+          showSuccess(message);
+          setAlbumsRefreshTrigger(prev => prev + 1);
+        }}
+        onError={showError}
+      />
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
         {/* Header */}
         <header className="text-center mb-10">
@@ -182,8 +261,52 @@ function App() {
 
           {/* Photo Gallery Section */}
           <PhotoGallery
-            onError={(message) => setStatus({ message, type: 'error' })}
+            // Reload from the start whenever the filter changes
+            key={filterQuery}
+            onError={showError}
             onLoading={setIsLoading}
+            photosUrl={galleryPhotosUrl}
+            timelineUrl={galleryTimelineUrl}
+            photoActions={galleryActions}
+            emptyMessage={filterQuery
+              ? 'No photos match the filter.'
+              : 'Connect and authenticate a cloud provider to see your photos here.'}
+            toolbar={<PhotoFilterBar filter={photoFilter} onChange={setPhotoFilter} />}
+          />
+
+          {/* Albums Section */}
+          <Albums
+            onError={showError}
+            onSuccess={showSuccess}
+            onLoading={setIsLoading}
+            refreshTrigger={albumsRefreshTrigger}
+          />
+
+          {/* Map Section */}
+          <MapView onError={showError} />
+
+          {/* Duplicate Review Section */}
+          <DuplicateFinder
+            onError={showError}
+            onSuccess={showSuccess}
+          />
+
+          {/* Near-Duplicate Review Section */}
+          <SimilarPhotos
+            onError={showError}
+            onSuccess={showSuccess}
+          />
+
+          {/* Storage Rebalance Section */}
+          <Rebalance
+            onError={showError}
+            onSuccess={showSuccess}
+          />
+
+          {/* Replication Section */}
+          <Replication
+            onError={showError}
+            onSuccess={showSuccess}
           />
         </main>
       </div>
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { Album, PhotoMetadata, CreateAlbumRequest, AlbumPhotosRequest } from '../types';
+
+interface AddToAlbumDialogProps {
+  photo: PhotoMetadata | null;
+  onClose: () => void;
+  onAdded: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+function AddToAlbumDialog({ photo, onClose, onAdded, onError }: AddToAlbumDialogProps) {
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    if (!photo) {
+      return;
+    }
+
+    const loadAlbums = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch('/library/albums');
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to load albums');
+        }
+        setAlbums(await response.json() as Album[]);
+      } catch (error) {
+        onError(`Error loading albums: ${(error as Error).message}`);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    setNewName('');
+    loadAlbums();
+  }, [photo, onError]); // Reload whenever the dialog opens
+
+  if (!photo) {
+    return null;
+  }
+
+  const addToAlbum = async (album: Album) => {
+    const response = await fetch(`/library/albums/${album.id}/photos`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        photos: [{ providerType: photo.providerType, instanceIndex: photo.instanceIndex, path: photo.path }]
+      } as AlbumPhotosRequest)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `Failed to add ${photo.name} to ${album.name}`);
+    }
+    const { added } = await response.json() as { added: number };
+    onAdded(added > 0 ? `Added ${photo.name} to ${album.name}.` : `${photo.name} is already in ${album.name}.`);
+    onClose();
+  };
+
+  const handleSelect = async (album: Album) => {
+    setIsSaving(true);
+    try {
+      await addToAlbum(album);
+    } catch (error) {
+      onError(`Error adding to album: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/library/albums', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: newName.trim() } as CreateAlbumRequest)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create album');
+      }
+      await addToAlbum(await response.json() as Album);
+    } catch (error) {
+      onError(`Error creating album: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-50" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-lg p-6 w-full max-w-sm" onClick={(event) => event.stopPropagation()}>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Add to album</h3>
+        <p className="text-sm text-gray-500 truncate mb-4" title={photo.path}>{photo.name}</p>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+          </div>
+        ) : albums.length > 0 && (
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 mb-4">
+            {albums.map(album => (
+              <li key={album.id}>
+                <button
+                  onClick={() => handleSelect(album)}
+                  disabled={isSaving}
+                  className="w-full text-left px-2 py-2 hover:bg-gray-50 disabled:text-gray-400 text-sm text-gray-900"
+                >
+                  {album.name}
+                  <span className="ml-2 text-xs text-gray-500">{album.photoCount} photos</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            placeholder="New album name"
+            className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !newName.trim()}
+            className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white text-sm px-3 py-2 rounded transition-colors"
+          >
+            Create
+          </button>
+        </form>
+
+        <button
+          onClick={onClose}
+          className="mt-4 w-full text-sm text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default AddToAlbumDialog;
@@ -0,0 +1,304 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Album, AlbumSortOrder, PhotoAction, PhotoMetadata, CreateAlbumRequest, UpdateAlbumRequest, AlbumPhotosRequest } from '../types';
+import PhotoGallery from './PhotoGallery';
+
+interface AlbumsProps {
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+  onLoading: (loading: boolean) => void;
+  refreshTrigger?: number;
+}
+
+const SORT_ORDER_LABELS: Record<AlbumSortOrder, string> = {
+  date_desc: 'Newest first',
+  date_asc: 'Oldest first',
+  manual: 'Custom order'
+};
+
+const toReference = (photo: PhotoMetadata) => ({
+  providerType: photo.providerType,
+  instanceIndex: photo.instanceIndex,
+  path: photo.path
+});
+
+function Albums({ onError, onSuccess, onLoading, refreshTrigger }: AlbumsProps) {
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [openAlbumId, setOpenAlbumId] = useState<number | null>(null);
+  // Bumped to remount the album's gallery after its photos change
+  const [galleryVersion, setGalleryVersion] = useState(0);
+
+  const openAlbum = albums.find(album => album.id === openAlbumId) || null;
+
+  const loadAlbums = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/library/albums');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load albums');
+      }
+      setAlbums(await response.json() as Album[]);
+    } catch (error) {
+      onError(`Error loading albums: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    loadAlbums();
+  }, [loadAlbums, refreshTrigger]);
+
+  const request = useCallback(async (url: string, method: string, body?: object) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `Request to ${url} failed`);
+    }
+    return response.json();
+  }, []);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) {
+      return;
+    }
+
+    try {
+      const album = await request('/library/albums', 'POST', { name: newName.trim() } as CreateAlbumRequest) as Album;
+      setAlbums(prev => [...prev, album]);
+      setNewName('');
+      onSuccess(`Created album ${album.name}.`);
+    } catch (error) {
+      onError(`Error creating album: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDelete = async (album: Album) => {
+    if (!confirm(`Delete the album ${album.name}? The photos themselves are kept.`)) {
+      return;
+    }
+
+    try {
+      await request(`/library/albums/${album.id}`, 'DELETE');
+      setAlbums(prev => prev.filter(item => item.id !== album.id));
+      if (openAlbumId === album.id) {
+        setOpenAlbumId(null);
+      }
+      onSuccess(`Deleted album ${album.name}.`);
+    } catch (error) {
+      onError(`Error deleting album: ${(error as Error).message}`);
+    }
+  };
+
+  const updateAlbum = useCallback(async (albumId: number, update: UpdateAlbumRequest) => {
+    const album = await request(`/library/albums/${albumId}`, 'PATCH', update) as Album;
+    setAlbums(prev => prev.map(item => item.id === album.id ? album : item));
+    return album;
+  }, [request]);
+
+  const handleRename = async (album: Album) => {
+    const name = prompt('Album name', album.name);
+    if (!name || !name.trim() || name.trim() === album.name) {
+      return;
+    }
+
+    try {
+      await updateAlbum(album.id, { name: name.trim() });
+    } catch (error) {
+      onError(`Error renaming album: ${(error as Error).message}`);
+    }
+  };
+
+  const handleSortOrderChange = async (album: Album, sortOrder: AlbumSortOrder) => {
+    try {
+      await updateAlbum(album.id, { sortOrder });
+    } catch (error) {
+      onError(`Error changing album order: ${(error as Error).message}`);
+    }
+  };
+
+  const photosUrl = useCallback(
+    (index: number, size: number) => `/library/albums/${openAlbumId}/photos?index=${index}&size=${size}`,
+    [openAlbumId]
+  );
+
+  // Memoized so the gallery does not rebuild its grid cells on every render
+  const photoActions = useMemo((): PhotoAction[] => {
+    if (openAlbumId === null) {
+      return [];
+    }
+
+    const refresh = async (albumId: number) => {
+      const album = await request(`/library/albums/${albumId}`, 'GET') as Album;
+      setAlbums(prev => prev.map(item => item.id === album.id ? album : item));
+      setGalleryVersion(prev => prev + 1);
+    };
+
+    return [
+      {
+        label: 'Set as cover',
+        onClick: async (photo) => {
+          try {
+            await updateAlbum(openAlbumId, { cover: toReference(photo) });
+            onSuccess(`${photo.name} is now the album cover.`);
+          } catch (error) {
+            onError(`Error setting album cover: ${(error as Error).message}`);
+          }
+        }
+      },
+      {
+        label: 'Move to front',
+        onClick: async (photo) => {
+          try {
+            // Listed photos move ahead of the rest, which keep their order
+            await request(`/library/albums/${openAlbumId}/order`, 'PUT', { photos: [toReference(photo)] } as AlbumPhotosRequest);
+            await updateAlbum(openAlbumId, { sortOrder: 'manual' });
+            setGalleryVersion(prev => prev + 1);
+          } catch (error) {
+            onError(`Error reordering album: ${(error as Error).message}`);
+          }
+        }
+      },
+      {
+        label: 'Remove',
+        onClick: async (photo) => {
+          try {
+            await request(`/library/albums/${openAlbumId}/photos`, 'DELETE', { photos: [toReference(photo)] } as AlbumPhotosRequest);
+            await refresh(openAlbumId);
+            onSuccess(`Removed ${photo.name} from the album.`);
+          } catch (error) {
+            onError(`Error removing photo from album: ${(error as Error).message}`);
+          }
+        }
+      }
+    ];
+  }, [openAlbumId, request, updateAlbum, onError, onSuccess]);
+
+  if (openAlbum) {
+    return (
+      <div className="space-y-4">
+        <div className="bg-white rounded-xl shadow-lg p-6 flex flex-wrap items-center gap-4">
+          <button
+            onClick={() => setOpenAlbumId(null)}
+            className="text-blue-600 hover:text-blue-700 text-sm font-medium transition-colors"
+          >
+            ← All albums
+          </button>
+          <span className="text-sm text-gray-500">{openAlbum.photoCount} photos</span>
+          <div className="ml-auto flex items-center gap-3">
+            <button
+              onClick={() => handleRename(openAlbum)}
+              className="text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Rename
+            </button>
+            <select
+              value={openAlbum.sortOrder}
+              onChange={(event) => handleSortOrderChange(openAlbum, event.target.value as AlbumSortOrder)}
+              className="border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(SORT_ORDER_LABELS) as AlbumSortOrder[]).map(sortOrder => (
+                <option key={sortOrder} value={sortOrder}>{SORT_ORDER_LABELS[sortOrder]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <PhotoGallery
+          key={`${openAlbum.id}:${openAlbum.sortOrder}:${galleryVersion}`}
+          title={openAlbum.name}
+          photosUrl={photosUrl}
+          photoActions={photoActions}
+          emptyMessage="Add photos to this album from the photo gallery."
+          onError={onError}
+          onLoading={onLoading}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8">
+      <div className="flex justify-between items-center mb-6 pb-4 border-b-2 border-blue-500">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Albums
+        </h2>
+        <button
+          onClick={loadAlbums}
+          className="text-blue-600 hover:text-blue-700 text-sm font-medium transition-colors"
+          title="Refresh albums"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <form onSubmit={handleCreate} className="flex gap-2 mb-6">
+        <input
+          type="text"
+          value={newName}
+          onChange={(event) => setNewName(event.target.value)}
+          placeholder="New album name"
+          className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white text-sm px-4 py-2 rounded transition-colors"
+        >
+          Create album
+        </button>
+      </form>
+
+      {isLoading && albums.length === 0 ? (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          <span className="ml-2 text-gray-600">Loading albums...</span>
+        </div>
+      ) : albums.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No albums yet. Create one, then add photos from the gallery.</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {albums.map(album => (
+            <div key={album.id} className="group relative">
+              <button
+                onClick={() => setOpenAlbumId(album.id)}
+                className="block w-full text-left"
+              >
+                <div className="aspect-square rounded-lg overflow-hidden bg-gradient-to-br from-gray-100 to-gray-200">
+                  {album.cover && (
+                    <img
+                      src={`/provider/thumbnail/${album.cover.providerType}/${album.cover.instanceIndex}?path=${encodeURIComponent(album.cover.path)}&size=w256h256&mode=bestfit`}
+                      alt={album.name}
+                      className="w-full h-full object-cover"
+                      loading="lazy"
+                    />
+                  )}
+                </div>
+                <p className="mt-2 text-sm font-medium text-gray-900 truncate">{album.name}</p>
+                <p className="text-xs text-gray-500">{album.photoCount} photos</p>
+              </button>
+              <button
+                onClick={() => handleDelete(album)}
+                className="absolute top-2 right-2 px-2 py-1 rounded text-xs bg-red-500 hover:bg-red-600 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Albums;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { TimelineBucket } from '../types';
+
+interface DateScrubberProps {
+  buckets: TimelineBucket[];
+  // The month name shown for each bucket
+  labels: string[];
+  // Where each bucket's month header sits in the scrolled list, in pixels
+  bucketTops: number[];
+  contentHeight: number;
+  height: number;
+  scrollOffset: number;
+  onScrollTo: (offset: number) => void;
+}
+
+// Year labels closer together than this are skipped
+const MIN_LABEL_GAP = 16;
+
+function DateScrubber({ buckets, labels, bucketTops, contentHeight, height, scrollOffset, onScrollTo }: DateScrubberProps) {
+  const [hoverY, setHoverY] = useState<number | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  // Position on the scrubber of a point in the list
+  const toScrubber = (offset: number) => contentHeight > 0 ? (offset / contentHeight) * height : 0;
+
+  // The month whose section contains a point on the scrubber
+  const bucketAt = (y: number) => {
+    const offset = (y / height) * contentHeight;
+    let index = 0;
+    while (index + 1 < bucketTops.length && bucketTops[index + 1] <= offset) {
+      index++;
+    }
+    return index;
+  };
+
+  const jumpTo = (event: React.MouseEvent<HTMLDivElement>) => {
+    const y = event.clientY - event.currentTarget.getBoundingClientRect().top;
+    onScrollTo(bucketTops[bucketAt(y)]);
+  };
+
+  const yearLabels: { year: number; top: number }[] = [];
+  buckets.forEach((bucket, index) => {
+    const top = toScrubber(bucketTops[index]);
+    const previous = yearLabels[yearLabels.length - 1];
+    if (previous && (previous.year === bucket.year || top - previous.top < MIN_LABEL_GAP)) {
+      return;
+    }
+    yearLabels.push({ year: bucket.year, top });
+  });
+
+  const hoverIndex = hoverY === null ? null : bucketAt(hoverY);
+
+  return (
+    <div
+      className="relative select-none cursor-pointer w-14 flex-shrink-0 border-l border-gray-200"
+      style={{ height }}
+      onMouseDown={(event) => {
+        setDragging(true);
+        jumpTo(event);
+      }}
+      onMouseMove={(event) => {
+        setHoverY(event.clientY - event.currentTarget.getBoundingClientRect().top);
+        if (dragging && event.buttons === 1) {
+          jumpTo(event);
+        }
+      }}
+      onMouseUp={() => setDragging(false)}
+      onMouseLeave={() => {
+        setHoverY(null);
+        setDragging(false);
+      }}
+    >
+      {yearLabels.map(label => (
+        <span
+          key={label.year}
+          className="absolute right-1 text-xs text-gray-500"
+          style={{ top: Math.min(label.top, height - MIN_LABEL_GAP) }}
+        >
+          {label.year}
+        </span>
+      ))}
+
+      {/* Where the list is scrolled to */}
+      <div
+        className="absolute left-0 right-0 h-0.5 bg-blue-500"
+        style={{ top: Math.min(toScrubber(scrollOffset), height - 2) }}
+      ></div>
+
+      {hoverIndex !== null && hoverY !== null && (
+        <div
+          className="absolute right-full mr-2 px-2 py-1 rounded bg-gray-800 text-white text-xs whitespace-nowrap pointer-events-none"
+          style={{ top: Math.max(0, hoverY - 12) }}
+        >
+          {labels[hoverIndex]} · {buckets[hoverIndex].count}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DateScrubber;
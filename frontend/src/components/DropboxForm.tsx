@@ -27,7 +27,7 @@ const DropboxForm: React.FC<DropboxFormProps> = ({ onSubmit, isLoading }) => {
   return (
     <div className="bg-white rounded-xl shadow-lg p-8">
       <h2 className="text-2xl font-bold text-gray-900 mb-6 pb-4 border-b-2 border-blue-500">
-        Provider Setup
+        Dropbox Setup
       </h2>
       
       <form onSubmit={handleFormSubmit} className="space-y-6">
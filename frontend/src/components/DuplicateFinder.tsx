@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DuplicateGroup, DuplicatePhoto, DuplicatesResponse, DeleteFileRequest } from '../types';
+
+interface DuplicateFinderProps {
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+const photoKey = (photo: DuplicatePhoto) => `${photo.providerType}:${photo.instanceIndex}:${photo.path}`;
+
+const formatFileSize = (bytes: number) => {
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  if (bytes === 0) return '0 Bytes';
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+function DuplicateFinder({ onError, onSuccess }: DuplicateFinderProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [pendingHashes, setPendingHashes] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingHash, setDeletingHash] = useState<string | null>(null);
+  // Content hash -> key of the copy to keep
+  const [kept, setKept] = useState<{ [contentHash: string]: string }>({});
+
+  const loadDuplicates = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/library/duplicates');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load duplicates');
+      }
+      const data = await response.json() as DuplicatesResponse;
+      setGroups(data.groups);
+      setPendingHashes(data.pendingHashes);
+    } catch (error) {
+      onError(`Error loading duplicates: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, [loadDuplicates]);
+
+  // Keep the first copy that cannot be deleted, otherwise the oldest
+  const getKeptKey = (group: DuplicateGroup) => {
+    if (kept[group.contentHash]) {
+      return kept[group.contentHash];
+    }
+    const readOnly = group.photos.find(photo => !photo.writable);
+    return photoKey(readOnly || group.photos[0]);
+  };
+
+  const deleteRedundantCopies = async (group: DuplicateGroup) => {
+    const keptKey = getKeptKey(group);
+    const redundant = group.photos.filter(photo => photoKey(photo) !== keptKey && photo.writable);
+    if (!confirm(`Delete ${redundant.length} redundant ${redundant.length === 1 ? 'copy' : 'copies'} of this file? This action cannot be undone.`)) {
+      return;
+    }
+
+    setDeletingHash(group.contentHash);
+    try {
+      for (const photo of redundant) {
+        const response = await fetch('/provider/file', {
+          method: 'DELETE',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            providerType: photo.providerType,
+            instanceIndex: photo.instanceIndex,
+            path: photo.path
+          } as DeleteFileRequest)
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || `Failed to delete ${photo.path}`);
+        }
+      }
+      onSuccess(`Deleted ${redundant.length} redundant ${redundant.length === 1 ? 'copy' : 'copies'}.`);
+    } catch (error) {
+      onError(`Error deleting duplicates: ${(error as Error).message}`);
+    } finally {
+      setDeletingHash(null);
+      loadDuplicates();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8">
+      <div className="flex justify-between items-center mb-6 pb-4 border-b-2 border-orange-500">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Duplicates
+        </h2>
+        <button
+          onClick={loadDuplicates}
+          className="text-orange-600 hover:text-orange-700 text-sm font-medium transition-colors"
+          title="Refresh duplicates"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {pendingHashes > 0 && (
+        <p className="text-sm text-gray-500 mb-4">
+          Still comparing {pendingHashes} {pendingHashes === 1 ? 'file' : 'files'}, more duplicates may appear.
+        </p>
+      )}
+
+      {isLoading && groups.length === 0 ? (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+          <span className="ml-2 text-gray-600">Looking for duplicates...</span>
+        </div>
+      ) : groups.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No duplicates found.</p>
+      ) : (
+        <div className="space-y-6">
+          {groups.map(group => {
+            const keptKey = getKeptKey(group);
+            const deletable = group.photos.filter(photo => photoKey(photo) !== keptKey && photo.writable).length;
+
+            return (
+              <div key={group.contentHash} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex justify-between items-center mb-3">
+                  <p className="text-sm text-gray-700">
+                    {group.photos.length} copies of {formatFileSize(group.size)}, {formatFileSize(group.wastedBytes)} redundant
+                  </p>
+                  <button
+                    onClick={() => deleteRedundantCopies(group)}
+                    disabled={deletable === 0 || deletingHash !== null}
+                    className="bg-red-500 hover:bg-red-600 disabled:bg-gray-300 text-white text-sm px-3 py-1 rounded-lg transition-colors"
+                  >
+                    {deletingHash === group.contentHash ? 'Deleting...' : `Delete ${deletable} ${deletable === 1 ? 'copy' : 'copies'}`}
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {group.photos.map(photo => {
+                    const key = photoKey(photo);
+                    return (
+                      <label
+                        key={key}
+                        className={`block rounded-lg border-2 p-2 cursor-pointer ${key === keptKey ? 'border-green-500' : 'border-transparent'}`}
+                      >
+                        <img
+                          src={`/provider/thumbnail/${photo.providerType}/${photo.instanceIndex}?path=${encodeURIComponent(photo.path)}&size=w128h128`}
+                          alt={photo.name}
+                          className="w-full aspect-square object-cover rounded bg-gray-100"
+                          loading="lazy"
+                        />
+                        <div className="mt-2 flex items-start">
+                          <input
+                            type="radio"
+                            name={`keep-${group.contentHash}`}
+                            checked={key === keptKey}
+                            onChange={() => setKept(prev => ({ ...prev, [group.contentHash]: key }))}
+                            className="mt-0.5 mr-2"
+                          />
+                          <div className="min-w-0">
+                            <p className="text-xs font-medium text-gray-900 truncate" title={photo.path}>{photo.path}</p>
+                            <p className="text-xs text-gray-500">
+                              {photo.providerType.toUpperCase()} #{photo.instanceIndex}{photo.writable ? '' : ' (read-only)'}
+                            </p>
+                          </div>
+                        </div>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DuplicateFinder;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+
+interface GoogleDriveFormProps {
+  onSubmit: (formData: { appKey: string; appSecret: string }) => Promise<void>;
+  isLoading: boolean;
+}
+
+const GoogleDriveForm: React.FC<GoogleDriveFormProps> = ({ onSubmit, isLoading }) => {
+  const [formData, setFormData] = useState({
+    appKey: '',
+    appSecret: ''
+  });
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev: { appKey: string; appSecret: string }) => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSubmit(formData);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6 pb-4 border-b-2 border-blue-500">
+        Google Drive Setup
+      </h2>
+      
+      <form onSubmit={handleFormSubmit} className="space-y-6">
+        <div className="space-y-2">
+          <label htmlFor="googleDriveAppKey" className="block text-sm font-semibold text-gray-700 uppercase tracking-wide">
+            Client ID:
+          </label>
+          <input
+            type="text"
+            id="googleDriveAppKey"
+            name="appKey"
+            value={formData.appKey}
+            onChange={handleInputChange}
+            required
+            placeholder="Enter your Google OAuth client ID"
+            className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-colors"
+          />
+        </div>
+        
+        <div className="space-y-2">
+          <label htmlFor="googleDriveAppSecret" className="block text-sm font-semibold text-gray-700 uppercase tracking-wide">
+            Client Secret:
+          </label>
+          <input
+            type="password"
+            id="googleDriveAppSecret"
+            name="appSecret"
+            value={formData.appSecret}
+            onChange={handleInputChange}
+            required
+            placeholder="Enter your Google OAuth client secret"
+            className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-colors"
+          />
+        </div>
+        
+        <div className="pt-4">
+          <button 
+            type="submit" 
+            disabled={isLoading}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 hover:shadow-lg disabled:cursor-not-allowed disabled:shadow-none"
+          >
+            {isLoading ? 'Adding Provider...' : 'Authorize Google Drive'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default GoogleDriveForm; 
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { useState, useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { GeoBounds, GeoCluster, MapConfig, PhotoMetadata } from '../types';
+
+interface MapViewProps {
+  onError: (message: string) => void;
+}
+
+// Leaflet reports longitudes past ±180 once the map is panned around the world
+const wrapLongitude = (longitude: number) => ((longitude + 180) % 360 + 360) % 360 - 180;
+
+const toBoundsQuery = (bounds: GeoBounds | L.LatLngBounds) => {
+  let north, south, east, west;
+  if (bounds instanceof L.LatLngBounds) {
+    const wholeWorld = bounds.getEast() - bounds.getWest() >= 360;
+    north = Math.min(bounds.getNorth(), 90);
+    south = Math.max(bounds.getSouth(), -90);
+    east = wholeWorld ? 180 : wrapLongitude(bounds.getEast());
+    west = wholeWorld ? -180 : wrapLongitude(bounds.getWest());
+  } else {
+    ({ north, south, east, west } = bounds);
+  }
+  return `north=${north}&south=${south}&east=${east}&west=${west}`;
+};
+
+function MapView({ onError }: MapViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const clusterLayerRef = useRef<L.LayerGroup | null>(null);
+  const [selectedPhotos, setSelectedPhotos] = useState<PhotoMetadata[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadClusters = async () => {
+      const map = mapRef.current;
+      if (!map) return;
+
+      try {
+        const response = await fetch(`/library/geo?${toBoundsQuery(map.getBounds())}&zoom=${map.getZoom()}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to load map');
+        }
+        const clusters = await response.json() as GeoCluster[];
+
+        clusterLayerRef.current?.clearLayers();
+        for (const cluster of clusters) {
+          const size = cluster.count < 10 ? 32 : cluster.count < 100 ? 40 : 48;
+          const marker = L.marker([cluster.latitude, cluster.longitude], {
+            icon: L.divIcon({
+              className: '',
+              html: `<div class="flex items-center justify-center rounded-full bg-blue-500 bg-opacity-80 border-2 border-white text-white text-xs font-bold shadow" style="width:${size}px;height:${size}px">${cluster.count}</div>`,
+              iconSize: [size, size]
+            })
+          });
+          marker.on('click', () => openCluster(cluster));
+          clusterLayerRef.current?.addLayer(marker);
+        }
+      } catch (error) {
+        onError(`Error loading map: ${(error as Error).message}`);
+      }
+    };
+
+    const openCluster = async (cluster: GeoCluster) => {
+      try {
+        const response = await fetch(`/library/geo/photos?${toBoundsQuery(cluster.bounds)}&limit=100`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to load photos');
+        }
+        setSelectedPhotos(await response.json() as PhotoMetadata[]);
+      } catch (error) {
+        onError(`Error loading photos: ${(error as Error).message}`);
+      }
+    };
+
+    const createMap = async () => {
+      try {
+        const response = await fetch('/library/map-config');
+        const config = await response.json() as MapConfig;
+        if (cancelled || !containerRef.current) return;
+
+        const map = L.map(containerRef.current, { worldCopyJump: true }).setView([20, 0], 2);
+        L.tileLayer(config.tileUrl, { attribution: config.attribution, maxZoom: config.maxZoom }).addTo(map);
+        clusterLayerRef.current = L.layerGroup().addTo(map);
+        mapRef.current = map;
+
+        map.on('moveend', loadClusters);
+        loadClusters();
+      } catch (error) {
+        onError(`Error loading map: ${(error as Error).message}`);
+      }
+    };
+
+    createMap();
+
+    return () => {
+      cancelled = true;
+      mapRef.current?.remove();
+      mapRef.current = null;
+    };
+  }, [onError]); // Created once, onError is stable
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6 pb-4 border-b-2 border-teal-500">
+        Map
+      </h2>
+      <div ref={containerRef} className="h-96 rounded-lg overflow-hidden z-0" />
+
+      {selectedPhotos && (
+        <div className="mt-6">
+          <div className="flex justify-between items-center mb-3">
+            <p className="text-sm text-gray-700">
+              {selectedPhotos.length} {selectedPhotos.length === 1 ? 'photo' : 'photos'}{selectedPhotos.length === 100 ? ' (newest shown)' : ''}
+            </p>
+            <button
+              onClick={() => setSelectedPhotos(null)}
+              className="text-teal-600 hover:text-teal-700 text-sm font-medium transition-colors"
+            >
+              Close
+            </button>
+          </div>
+          <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+            {selectedPhotos.map(photo => (
+              <a
+                key={`${photo.providerType}:${photo.instanceIndex}:${photo.path}`}
+                href={`/provider/photo/${photo.providerType}/${photo.instanceIndex}?path=${encodeURIComponent(photo.path)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <img
+                  src={`/provider/thumbnail/${photo.providerType}/${photo.instanceIndex}?path=${encodeURIComponent(photo.path)}&size=w128h128`}
+                  alt={photo.name}
+                  title={photo.path}
+                  className="w-full aspect-square object-cover rounded bg-gray-100"
+                  loading="lazy"
+                />
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MapView;
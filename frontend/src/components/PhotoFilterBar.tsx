@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { PhotoFilter, PhotoSortField, Provider, TagCount } from '../types';
+
+interface PhotoFilterBarProps {
+  filter: PhotoFilter;
+  onChange: (filter: PhotoFilter) => void;
+}
+
+const SORT_OPTIONS: { label: string; sort: PhotoSortField; order: 'asc' | 'desc' }[] = [
+  { label: 'Newest first', sort: 'date', order: 'desc' },
+  { label: 'Oldest first', sort: 'date', order: 'asc' },
+  { label: 'Name A–Z', sort: 'name', order: 'asc' },
+  { label: 'Name Z–A', sort: 'name', order: 'desc' },
+  { label: 'Largest first', sort: 'size', order: 'desc' },
+  { label: 'Smallest first', sort: 'size', order: 'asc' }
+];
+
+const inputClass = 'border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function PhotoFilterBar({ filter, onChange }: PhotoFilterBarProps) {
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  // Typed fields apply on Enter or Search, choices apply at once
+  const [draft, setDraft] = useState<PhotoFilter>(filter);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [tagsResponse, providersResponse] = await Promise.all([
+          fetch('/library/tags'),
+          fetch('/provider/providers')
+        ]);
+        if (tagsResponse.ok) {
+          setTags(await tagsResponse.json() as TagCount[]);
+        }
+        if (providersResponse.ok) {
+          setProviders(await providersResponse.json() as Provider[]);
+        }
+      } catch (error) {
+        // The filter still works without the option lists
+        console.error('Error loading filter options:', error);
+      }
+    };
+    loadOptions();
+  }, []);
+
+  const apply = (changes: Partial<PhotoFilter>) => {
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    onChange(next);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onChange(draft);
+  };
+
+  const parseNumber = (value: string) => value === '' ? undefined : Math.max(0, parseFloat(value));
+
+  const providerValue = draft.providerType ? `${draft.providerType}:${draft.instanceIndex}` : '';
+  const sortValue = SORT_OPTIONS.findIndex(option =>
+    option.sort === (draft.sort || 'date') && option.order === (draft.order || 'desc'));
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full flex flex-wrap items-center gap-2 text-sm">
+      <input
+        type="search"
+        value={draft.name || ''}
+        onChange={(event) => setDraft({ ...draft, name: event.target.value || undefined })}
+        placeholder="File name"
+        className={`${inputClass} w-36`}
+      />
+      <input
+        type="text"
+        value={draft.folder || ''}
+        onChange={(event) => setDraft({ ...draft, folder: event.target.value || undefined })}
+        placeholder="Folder, e.g. /Photos/2023"
+        className={`${inputClass} w-48`}
+      />
+      <input
+        type="text"
+        value={draft.extensions || ''}
+        onChange={(event) => setDraft({ ...draft, extensions: event.target.value || undefined })}
+        placeholder="jpg, heic"
+        title="File extensions"
+        className={`${inputClass} w-24`}
+      />
+      <label className="inline-flex items-center gap-1 text-gray-700">
+        Taken
+        <input
+          type="date"
+          value={draft.from || ''}
+          onChange={(event) => setDraft({ ...draft, from: event.target.value || undefined })}
+          className={inputClass}
+        />
+        to
+        <input
+          type="date"
+          value={draft.to || ''}
+          onChange={(event) => setDraft({ ...draft, to: event.target.value || undefined })}
+          className={inputClass}
+        />
+      </label>
+      <label className="inline-flex items-center gap-1 text-gray-700">
+        Size
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={draft.minSizeMB ?? ''}
+          onChange={(event) => setDraft({ ...draft, minSizeMB: parseNumber(event.target.value) })}
+          placeholder="min"
+          className={`${inputClass} w-20`}
+        />
+        –
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={draft.maxSizeMB ?? ''}
+          onChange={(event) => setDraft({ ...draft, maxSizeMB: parseNumber(event.target.value) })}
+          placeholder="max"
+          className={`${inputClass} w-20`}
+        />
+        MB
+      </label>
+
+      <select
+        value={providerValue}
+        onChange={(event) => {
+          const [providerType, instanceIndex] = event.target.value.split(':');
+          apply(providerType
+            ? { providerType, instanceIndex: parseInt(instanceIndex) }
+            : { providerType: undefined, instanceIndex: undefined });
+        }}
+        className={inputClass}
+      >
+        <option value="">All accounts</option>
+        {providers.map(provider => (
+          <option key={`${provider.type}:${provider.instanceIndex}`} value={`${provider.type}:${provider.instanceIndex}`}>
+            {provider.type} #{provider.instanceIndex}{provider.accountInfo?.email ? ` (${provider.accountInfo.email})` : ''}
+          </option>
+        ))}
+      </select>
+
+      <label className="inline-flex items-center gap-1 text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!draft.favorite}
+          onChange={(event) => apply({ favorite: event.target.checked || undefined })}
+          className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+        />
+        Favorites
+      </label>
+
+      <select
+        value={draft.minRating || 0}
+        onChange={(event) => apply({ minRating: parseInt(event.target.value) || undefined })}
+        className={inputClass}
+      >
+        <option value={0}>Any rating</option>
+        {[1, 2, 3, 4, 5].map(rating => (
+          <option key={rating} value={rating}>{'★'.repeat(rating)}{rating < 5 ? ' & up' : ''}</option>
+        ))}
+      </select>
+
+      <select
+        value={draft.tag || ''}
+        onChange={(event) => apply({ tag: event.target.value || undefined })}
+        className={inputClass}
+      >
+        <option value="">Any tag</option>
+        {tags.map(({ tag, count }) => (
+          <option key={tag} value={tag}>{tag} ({count})</option>
+        ))}
+      </select>
+
+      <select
+        value={sortValue}
+        onChange={(event) => {
+          const option = SORT_OPTIONS[parseInt(event.target.value)];
+          apply({ sort: option.sort, order: option.order });
+        }}
+        className={inputClass}
+      >
+        {SORT_OPTIONS.map((option, index) => (
+          <option key={option.label} value={index}>{option.label}</option>
+        ))}
+      </select>
+
+      <button
+        type="submit"
+        className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded transition-colors"
+      >
+        Search
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          setDraft({});
+          onChange({});
+        }}
+        className="text-gray-600 hover:text-gray-800 px-2 py-1 transition-colors"
+      >
+        Clear
+      </button>
+    </form>
+  );
+}
+
+export default PhotoFilterBar;
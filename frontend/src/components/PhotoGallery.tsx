@@ -1,35 +1,96 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { FixedSizeGrid as Grid, GridChildComponentProps } from 'react-window';
-import { PhotoMetadata } from '../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { VariableSizeList as List, ListChildComponentProps, ListOnItemsRenderedProps } from 'react-window';
+import { PhotoMetadata, PhotoAction, UpdatePhotosRequest, TimelineBucket, TimelineResponse } from '../types';
 import PhotoItem from './PhotoItem';
+import TagDialog from './TagDialog';
+import DateScrubber from './DateScrubber';
+
+// Thumbnail size presets accepted by /provider/thumbnail, smallest first
+const THUMBNAIL_SIZES = [
+  { name: 'w32h32', width: 32, height: 32 },
+  { name: 'w64h64', width: 64, height: 64 },
+  { name: 'w128h128', width: 128, height: 128 },
+  { name: 'w256h256', width: 256, height: 256 },
+  { name: 'w480h320', width: 480, height: 320 },
+  { name: 'w640h480', width: 640, height: 480 },
+  { name: 'w960h640', width: 960, height: 640 },
+  { name: 'w1024h768', width: 1024, height: 768 },
+  { name: 'w2048h1536', width: 2048, height: 1536 }
+];
+
+// Smallest preset whose shorter side covers a square cell of the given device pixels
+const pickThumbnailSize = (pixels: number): string => {
+  const preset = THUMBNAIL_SIZES.find(size => Math.min(size.width, size.height) >= pixels);
+  return (preset || THUMBNAIL_SIZES[THUMBNAIL_SIZES.length - 1]).name;
+};
+
+// A month header, or one row of photos by their position in the sorted results
+type GalleryRow =
+  | { type: 'header'; label: string; offset: number }
+  | { type: 'photos'; start: number; count: number };
+
+const formatMonth = (bucket: TimelineBucket) =>
+  new Date(bucket.year, bucket.month - 1).toLocaleString('en-US', { month: 'long', year: 'numeric' });
 
 interface PhotoGalleryProps {
   onError: (message: string) => void;
   onLoading: (loading: boolean) => void;
+  title?: string;
+  // Builds the URL of a page of photos, e.g. an album's instead of the whole library
+  photosUrl?: (index: number, size: number) => string;
+  // Month counts matching photosUrl's results; groups the grid by month and adds a date scrubber
+  timelineUrl?: string;
+  photoActions?: PhotoAction[];
+  emptyMessage?: string;
+  // Shown next to the title, e.g. filters
+  toolbar?: React.ReactNode;
 }
 
-const PhotoGallery: React.FC<PhotoGalleryProps> = ({ onError, onLoading }) => {
-  const [photos, setPhotos] = useState<PhotoMetadata[]>([]);
+const defaultPhotosUrl = (index: number, size: number) => `/provider/get-thumbnails?index=${index}&size=${size}`;
+
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({
+  onError,
+  onLoading,
+  title = 'Photo Gallery',
+  photosUrl = defaultPhotosUrl,
+  timelineUrl,
+  photoActions,
+  emptyMessage = 'Connect and authenticate a cloud provider to see your photos here.',
+  toolbar
+}) => {
+  // Indexed by position in the results; pages load as they scroll into view, so there are gaps
+  const [photos, setPhotos] = useState<(PhotoMetadata | undefined)[]>([]);
+  const [timeline, setTimeline] = useState<TimelineResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [hasMore, setHasMore] = useState(true);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const gridRef = useRef<Grid>(null);
+  const listRef = useRef<List>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const requestedPages = useRef(new Set<number>());
+  const pendingRequests = useRef(0);
   const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const [pixelRatio, setPixelRatio] = useState(window.devicePixelRatio || 1);
+  const [scrollOffset, setScrollOffset] = useState(0);
+  const [taggingPhoto, setTaggingPhoto] = useState<PhotoMetadata | null>(null);
   
   const PHOTOS_PER_PAGE = 50; // Increased since virtualization handles performance
   const COLUMNS = 5;
   const ITEM_SIZE = 220; // Size of each grid item including padding
+  const ITEM_PADDING = 8;
+  const HEADER_SIZE = 40;
+  const SCRUBBER_WIDTH = 56;
 
-  const loadPhotos = useCallback(async (index: number = 0, size: number = PHOTOS_PER_PAGE) => {
-    if (loading) return;
-    
-    console.log(`Frontend requesting thumbnails: index=${index}, size=${size}`);
+  const loadPage = useCallback(async (page: number) => {
+    if (requestedPages.current.has(page)) return;
+    requestedPages.current.add(page);
+
+    const index = page * PHOTOS_PER_PAGE;
+    console.log(`Frontend requesting thumbnails: index=${index}, size=${PHOTOS_PER_PAGE}`);
+    pendingRequests.current++;
     setLoading(true);
     onLoading(true);
     
     try {
-      const response = await fetch(`/provider/get-thumbnails?index=${index}&size=${size}`);
+      const response = await fetch(photosUrl(index, PHOTOS_PER_PAGE));
       
       if (!response.ok) {
         // Try to get error details from response
@@ -54,29 +115,82 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ onError, onLoading }) => {
         date_taken: new Date(photo.date_taken)
       }));
       
-      if (index === 0) {
-        // Initial load or refresh
-        setPhotos(processedPhotos);
-      } else {
-        // Append new photos for lazy loading
-        setPhotos(prev => [...prev, ...processedPhotos]);
-      }
+      setPhotos(prev => {
+        const next = [...prev];
+        processedPhotos.forEach((photo, offset) => {
+          next[index + offset] = photo;
+        });
+        return next;
+      });
       
       // If we received fewer photos than requested, we've reached the end
-      setHasMore(processedPhotos.length === size);
-      setCurrentIndex(index + processedPhotos.length);
+      setHasMore(processedPhotos.length === PHOTOS_PER_PAGE);
       
     } catch (error) {
+      // Let the page be asked for again when it next scrolls into view
+      requestedPages.current.delete(page);
       console.error('Error loading photos:', error);
       onError(`Failed to load photos: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      pendingRequests.current--;
+      if (pendingRequests.current === 0) {
+        setLoading(false);
+        onLoading(false);
+      }
+    }
+  }, [onError, onLoading, photosUrl]);
+
+  const loadTimeline = useCallback(async (url: string) => {
+    setLoading(true);
+    onLoading(true);
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch the timeline');
+      }
+      const loaded: TimelineResponse = await response.json();
+      setTimeline(loaded);
+      setHasMore(false);
+    } catch (error) {
+      console.error('Error loading timeline:', error);
+      onError(`Failed to load timeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setLoading(false);
       onLoading(false);
     }
-  }, [loading, onError, onLoading]);
+  }, [onError, onLoading]);
 
-  // Calculate grid dimensions
-  const rowCount = Math.ceil(photos.length / COLUMNS);
+  // Month headers followed by their photos in rows, or one run of every loaded photo without a timeline
+  const { rows, bucketTops, contentHeight } = useMemo(() => {
+    const sections = timeline
+      ? timeline.buckets.map(bucket => ({ label: formatMonth(bucket), offset: bucket.offset, count: bucket.count }))
+      : [{ label: null, offset: 0, count: photos.length }];
+
+    const rows: GalleryRow[] = [];
+    const bucketTops: number[] = [];
+    let top = 0;
+    const addRow = (row: GalleryRow) => {
+      rows.push(row);
+      top += row.type === 'header' ? HEADER_SIZE : ITEM_SIZE;
+    };
+
+    for (const section of sections) {
+      if (section.label !== null) {
+        bucketTops.push(top);
+        addRow({ type: 'header', label: section.label, offset: section.offset });
+      }
+      for (let start = 0; start < section.count; start += COLUMNS) {
+        addRow({ type: 'photos', start: section.offset + start, count: Math.min(COLUMNS, section.count - start) });
+      }
+    }
+    return { rows, bucketTops, contentHeight: top };
+  }, [timeline, photos.length]);
+
+  // Row sizes are cached by index, and new rows can shift them
+  useEffect(() => {
+    listRef.current?.resetAfterIndex(0);
+  }, [rows]);
   
   // Resize observer to handle container size changes
   useEffect(() => {
@@ -88,6 +202,8 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ onError, onLoading }) => {
           height: Math.min(600, window.innerHeight - 200) // Max height with some padding
         });
       }
+      // Changes when zooming or moving the window to another screen
+      setPixelRatio(window.devicePixelRatio || 1);
     };
 
     updateSize();
@@ -95,94 +211,237 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ onError, onLoading }) => {
     return () => window.removeEventListener('resize', updateSize);
   }, []);
 
-  // Initial load
+  // Initial load; with a timeline, pages load once the months are laid out
   useEffect(() => {
-    loadPhotos(0, PHOTOS_PER_PAGE);
+    if (timelineUrl) {
+      loadTimeline(timelineUrl);
+    } else {
+      loadPage(0);
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Empty dependency array for initial load only - prevent infinite loop
 
-  // Handle infinite scroll with react-window
+  // Load the pages behind the rows in view, and the next page when nearing the end without a timeline
   const handleItemsRendered = useCallback(
-    ({ visibleRowStopIndex }: { visibleRowStopIndex: number }) => {
-      const totalVisibleItems = (visibleRowStopIndex + 1) * COLUMNS;
-      const loadThreshold = photos.length - COLUMNS * 2; // Load more when near the end
-      
-      if (totalVisibleItems >= loadThreshold && hasMore && !loading) {
-        loadPhotos(currentIndex, PHOTOS_PER_PAGE);
+    ({ overscanStartIndex, overscanStopIndex }: ListOnItemsRenderedProps) => {
+      for (let index = overscanStartIndex; index <= overscanStopIndex; index++) {
+        const row = rows[index];
+        if (row?.type !== 'photos') continue;
+        const firstPage = Math.floor(row.start / PHOTOS_PER_PAGE);
+        const lastPage = Math.floor((row.start + row.count - 1) / PHOTOS_PER_PAGE);
+        for (let page = firstPage; page <= lastPage; page++) {
+          if (timeline || photos[page * PHOTOS_PER_PAGE] === undefined) {
+            loadPage(page);
+          }
+        }
+      }
+
+      if (!timeline && hasMore && !loading && overscanStopIndex >= rows.length - 2) {
+        loadPage(Math.floor(photos.length / PHOTOS_PER_PAGE));
       }
     },
-    [photos.length, hasMore, loading, currentIndex, loadPhotos, COLUMNS, PHOTOS_PER_PAGE]
+    [rows, timeline, photos, hasMore, loading, loadPage]
+  );
+
+  const showScrubber = !!timeline && timeline.buckets.length > 1;
+  const listWidth = containerSize.width - (showScrubber ? SCRUBBER_WIDTH : 0);
+
+  // Request thumbnails at the cell's size in device pixels so they stay sharp on high-DPI screens
+  const cellPixels = Math.ceil((Math.min(listWidth / COLUMNS, ITEM_SIZE) - ITEM_PADDING * 2) * pixelRatio);
+  const thumbnailSize = pickThumbnailSize(cellPixels);
+
+  // Ask the server where a month starts, so months without photos land on the nearest one
+  const jumpToMonth = async (value: string) => {
+    if (!timelineUrl || !value) return;
+    const [year, month] = value.split('-').map(Number);
+    const url = new URL(timelineUrl, window.location.origin);
+    // Newest first starts a month after every newer photo, oldest first after every older one
+    const descending = url.searchParams.get('order') !== 'asc';
+    url.pathname += '/offset';
+    url.searchParams.set('date', new Date(year, month - (descending ? 0 : 1)).toISOString());
+
+    try {
+      const response = await fetch(url.pathname + url.search);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to find the month');
+      }
+      const { offset } = await response.json() as { offset: number };
+      const rowIndex = rows.findIndex(row => row.type === 'header'
+        ? row.offset === offset
+        : offset < row.start + row.count);
+      listRef.current?.scrollToItem(rowIndex === -1 ? rows.length - 1 : rowIndex, 'start');
+    } catch (error) {
+      onError(`Error jumping to month: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const replacePhoto = useCallback((updated: PhotoMetadata) => {
+    setPhotos(prev => prev.map(photo =>
+      photo && photo.providerType === updated.providerType && photo.instanceIndex === updated.instanceIndex && photo.path === updated.path
+        ? updated
+        : photo
+    ));
+  }, []);
+
+  const updatePhoto = useCallback(async (photo: PhotoMetadata, changes: { favorite?: boolean; rating?: number }) => {
+    try {
+      const response = await fetch('/library/photos', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          photos: [{ providerType: photo.providerType, instanceIndex: photo.instanceIndex, path: photo.path }],
+          ...changes
+        } as UpdatePhotosRequest)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to update ${photo.name}`);
+      }
+      replacePhoto({ ...photo, ...changes });
+    } catch (error) {
+      onError(`Error updating photo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [onError, replacePhoto]);
+
+  const actions = useMemo(
+    (): PhotoAction[] => [...(photoActions || []), { label: 'Tags', onClick: setTaggingPhoto }],
+    [photoActions]
   );
 
-  // Memoized PhotoItem with photos prop
-  const itemRenderer = useCallback(
-    (props: GridChildComponentProps) => (
-      <PhotoItem {...props} photos={photos} columns={COLUMNS} />
-    ),
-    [photos, COLUMNS]
+  const rowRenderer = useCallback(
+    ({ index, style }: ListChildComponentProps) => {
+      const row = rows[index];
+      if (row.type === 'header') {
+        return (
+          <div style={style} className="flex items-end px-2 pb-2">
+            <h3 className="text-lg font-semibold text-gray-800">{row.label}</h3>
+          </div>
+        );
+      }
+      return (
+        <div style={style} className="flex">
+          {Array.from({ length: row.count }, (_, column) => (
+            <PhotoItem
+              key={column}
+              photo={photos[row.start + column]}
+              style={{ width: listWidth / COLUMNS, height: ITEM_SIZE }}
+              thumbnailSize={thumbnailSize}
+              actions={actions}
+              onToggleFavorite={(photo) => updatePhoto(photo, { favorite: !photo.favorite })}
+              onRate={(photo, rating) => updatePhoto(photo, { rating })}
+            />
+          ))}
+        </div>
+      );
+    },
+    [rows, photos, listWidth, thumbnailSize, actions, updatePhoto]
   );
 
+  const loadedCount = photos.filter(Boolean).length;
+  const isEmpty = timelineUrl ? timeline?.total === 0 : photos.length === 0 && !loading;
+
   return (
     <section className="bg-white rounded-xl shadow-lg p-6">
-      <h2 className="text-2xl font-bold text-gray-900 mb-6">Photo Gallery</h2>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
+        {toolbar}
+      </div>
+
+      <TagDialog
+        photo={taggingPhoto}
+        onClose={() => setTaggingPhoto(null)}
+        onChange={(photo) => {
+          replacePhoto(photo);
+          setTaggingPhoto(photo);
+        }}
+        onError={onError}
+      />
+
+      {showScrubber && (
+        <div className="flex justify-end mb-4">
+          <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+            Jump to
+            <input
+              type="month"
+              onChange={(event) => jumpToMonth(event.target.value)}
+              className="border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        </div>
+      )}
       
-      {photos.length === 0 && !loading ? (
-        <div className="text-center py-12">
-          <div className="inline-flex items-center justify-center w-16 h-16 bg-gray-100 rounded-full mb-4">
-            <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-            </svg>
+      {/* Always rendered so its width is known before the first photos arrive */}
+      <div ref={containerRef} className="w-full">
+        {isEmpty ? (
+          <div className="text-center py-12">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-gray-100 rounded-full mb-4">
+              <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No photos found</h3>
+            <p className="text-gray-500">{emptyMessage}</p>
           </div>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">No photos found</h3>
-          <p className="text-gray-500">Connect and authenticate a cloud provider to see your photos here.</p>
-        </div>
-      ) : (
-        <>
-          <div ref={containerRef} className="w-full">
-            {containerSize.width > 0 && (
-              <Grid
-                ref={gridRef}
-                columnCount={COLUMNS}
-                columnWidth={containerSize.width / COLUMNS}
+        ) : containerSize.width > 0 && (!timelineUrl || timeline) && (
+          <div className="flex">
+            <List
+              ref={listRef}
+              height={containerSize.height}
+              itemCount={rows.length}
+              itemSize={(index) => rows[index].type === 'header' ? HEADER_SIZE : ITEM_SIZE}
+              width={listWidth}
+              onItemsRendered={handleItemsRendered}
+              onScroll={({ scrollOffset }) => setScrollOffset(scrollOffset)}
+            >
+              {rowRenderer}
+            </List>
+            {showScrubber && timeline && (
+              <DateScrubber
+                buckets={timeline.buckets}
+                labels={rows.flatMap(row => row.type === 'header' ? [row.label] : [])}
+                bucketTops={bucketTops}
+                contentHeight={contentHeight}
                 height={containerSize.height}
-                rowCount={rowCount}
-                rowHeight={ITEM_SIZE}
-                width={containerSize.width}
-                onItemsRendered={handleItemsRendered}
-              >
-                {itemRenderer}
-              </Grid>
+                scrollOffset={scrollOffset}
+                onScrollTo={(offset) => listRef.current?.scrollTo(offset)}
+              />
             )}
           </div>
+        )}
+      </div>
 
-          {/* Loading indicator */}
-          {loading && (
-            <div className="flex justify-center items-center py-8">
-              <div className="flex items-center space-x-2 text-gray-500">
-                <svg className="animate-spin w-5 h-5" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                <span>Loading more photos...</span>
-              </div>
-            </div>
-          )}
-
-          {/* Status messages */}
-          {!hasMore && photos.length > 0 && (
-            <div className="text-center py-8 text-gray-500">
-              <p>You've reached the end of your photo collection!</p>
-              <p className="text-sm mt-1">Total photos: {photos.length}</p>
-            </div>
-          )}
-
-          {hasMore && !loading && photos.length > 0 && (
-            <div className="text-center py-4 text-gray-400 text-sm">
-              Scroll down to load more photos
-            </div>
-          )}
-        </>
+      {/* Loading indicator */}
+      {loading && (
+        <div className="flex justify-center items-center py-8">
+          <div className="flex items-center space-x-2 text-gray-500">
+            <svg className="animate-spin w-5 h-5" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+            <span>Loading more photos...</span>
+          </div>
+        </div>
       )}
+
+      {/* Status messages */}
+      {!isEmpty && (timeline ? (
+        <div className="text-center py-4 text-gray-400 text-sm">
+          Total photos: {timeline.total}
+        </div>
+      ) : !hasMore && loadedCount > 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>You've reached the end of your photo collection!</p>
+          <p className="text-sm mt-1">Total photos: {loadedCount}</p>
+        </div>
+      ) : hasMore && !loading && loadedCount > 0 && (
+        <div className="text-center py-4 text-gray-400 text-sm">
+          Scroll down to load more photos
+        </div>
+      ))}
     </section>
   );
 };
@@ -1,21 +1,25 @@
-import React from 'react';
-import { GridChildComponentProps } from 'react-window';
-import { PhotoMetadata } from '../types';
+import React, { useState } from 'react';
+import { PhotoMetadata, PhotoAction } from '../types';
 
-interface PhotoItemProps extends GridChildComponentProps {
-  photos: PhotoMetadata[];
-  columns?: number;
+interface PhotoItemProps {
+  // Undefined while the page holding the photo is loading
+  photo: PhotoMetadata | undefined;
+  style: React.CSSProperties;
+  thumbnailSize?: string;
+  actions?: PhotoAction[];
+  onToggleFavorite?: (photo: PhotoMetadata) => void;
+  onRate?: (photo: PhotoMetadata, rating: number) => void;
 }
 
 const PhotoItem: React.FC<PhotoItemProps> = ({ 
-  columnIndex, 
-  rowIndex, 
+  photo,
   style, 
-  photos,
-  columns = 5
+  thumbnailSize = 'w256h256',
+  actions = [],
+  onToggleFavorite,
+  onRate
 }) => {
-  const photoIndex = rowIndex * columns + columnIndex;
-  const photo = photos[photoIndex];
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
 
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
@@ -34,52 +38,159 @@ const PhotoItem: React.FC<PhotoItemProps> = ({
     return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
   };
 
+  const formatDuration = (milliseconds: number) => {
+    const totalSeconds = Math.round(milliseconds / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+  };
+
+  // The tile is a link to the full-size photo, so its buttons must not follow it
+  const handleClick = (event: React.MouseEvent, action: () => void) => {
+    event.preventDefault();
+    event.stopPropagation();
+    action();
+  };
+
+  // Many cameras already repeat the make in the model name
+  const formatCamera = (make?: string, model?: string) => {
+    if (make && model && !model.toLowerCase().startsWith(make.toLowerCase())) {
+      return `${make} ${model}`;
+    }
+    return model || make;
+  };
+
   if (!photo) {
-    return <div style={style}></div>;
+    return (
+      <div style={{ ...style, padding: '8px' }}>
+        <div className="h-full rounded-lg bg-gray-100 animate-pulse"></div>
+      </div>
+    );
   }
 
+  const fullSizeUrl = `/provider/photo/${photo.providerType}/${photo.instanceIndex}?path=${encodeURIComponent(photo.path)}`;
+  const thumbnailUrl = `/provider/thumbnail/${photo.providerType}/${photo.instanceIndex}?path=${encodeURIComponent(photo.path)}&size=${thumbnailSize}&mode=bestfit`;
+  const isVideo = photo.mediaType === 'video';
+
   return (
     <div style={{ ...style, padding: '8px' }}>
-      <div className="group relative bg-gray-50 rounded-lg overflow-hidden hover:shadow-md transition-shadow duration-200 h-full">
+      <a
+        href={fullSizeUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="group relative block bg-gray-50 rounded-lg overflow-hidden hover:shadow-md transition-shadow duration-200 h-full"
+      >
         <div className="aspect-square bg-gradient-to-br from-gray-100 to-gray-200 flex items-center justify-center">
-          {photo.thumbnail && 'data' in photo.thumbnail ? (
+          {failedSrc !== thumbnailUrl ? (
             <img 
-              src={`data:${photo.thumbnail.mimeType};base64,${photo.thumbnail.data}`}
+              src={thumbnailUrl}
               alt={photo.name}
               className="w-full h-full object-cover"
               loading="lazy"
+              onError={() => setFailedSrc(thumbnailUrl)}
             />
-          ) : photo.thumbnail && 'error' in photo.thumbnail ? (
+          ) : isVideo ? (
+            // Not every provider renders poster frames for videos
             <div className="text-center p-4">
-              <svg className="w-8 h-8 text-red-400 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              <svg className="w-10 h-10 text-gray-400 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
               </svg>
-              <p className="text-xs text-red-500 font-medium">Error loading thumbnail</p>
+              <p className="text-xs text-gray-500 font-medium">Video</p>
             </div>
           ) : (
             <div className="text-center p-4">
-              <svg className="w-12 h-12 text-gray-400 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 002 2z" />
+              <svg className="w-8 h-8 text-red-400 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
-              <p className="text-xs text-gray-500 font-medium truncate">{photo.name}</p>
+              <p className="text-xs text-red-500 font-medium">Error loading thumbnail</p>
             </div>
           )}
         </div>
-        
+
+        {/* Video badge with the playback length once it is known */}
+        {isVideo && (
+          <div className="absolute top-2 right-2 inline-flex items-center px-2 py-1 rounded bg-black bg-opacity-60 text-white text-xs font-medium">
+            <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M8 5v14l11-7z" />
+            </svg>
+            {photo.duration ? formatDuration(photo.duration) : 'Video'}
+          </div>
+        )}
+
+        {/* Camera raw badge */}
+        {photo.mediaType === 'raw' && (
+          <div className="absolute top-2 right-2 px-2 py-1 rounded bg-black bg-opacity-60 text-white text-xs font-medium">
+            RAW
+          </div>
+        )}
+
+        {/* Favorite toggle, always shown for favorites */}
+        {onToggleFavorite && (
+          <button
+            onClick={(event) => handleClick(event, () => onToggleFavorite(photo))}
+            className={`absolute top-2 left-2 z-10 p-1 rounded-full bg-black bg-opacity-40 transition-opacity ${
+              photo.favorite ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+            }`}
+            title={photo.favorite ? 'Remove from favorites' : 'Add to favorites'}
+          >
+            <svg className={`w-4 h-4 ${photo.favorite ? 'text-red-500' : 'text-white'}`} fill={photo.favorite ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+            </svg>
+          </button>
+        )}
+
         {/* Hover overlay with metadata */}
         <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-75 transition-all duration-200 flex items-end opacity-0 group-hover:opacity-100">
           <div className="text-white p-3 w-full">
             <p className="text-sm font-medium truncate mb-1">{photo.name}</p>
             <p className="text-xs opacity-90 mb-1">{formatDate(photo.date_taken)}</p>
-            <p className="text-xs opacity-75">{formatFileSize(photo.size)}</p>
+            {(photo.cameraMake || photo.cameraModel) && (
+              <p className="text-xs opacity-75 truncate mb-1">{formatCamera(photo.cameraMake, photo.cameraModel)}</p>
+            )}
+            <p className="text-xs opacity-75">
+              {formatFileSize(photo.size)}
+              {photo.width && photo.height ? ` · ${photo.width} × ${photo.height}` : ''}
+            </p>
             <div className="flex items-center mt-2">
               <span className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-blue-500 bg-opacity-75 text-white">
                 {photo.providerType.toUpperCase()}
               </span>
+              {onRate && (
+                <div className="flex items-center ml-auto">
+                  {/* Clicking the current rating clears it */}
+                  {[1, 2, 3, 4, 5].map(rating => (
+                    <button
+                      key={rating}
+                      onClick={(event) => handleClick(event, () => onRate(photo, photo.rating === rating ? 0 : rating))}
+                      className={`text-sm leading-none ${rating <= (photo.rating || 0) ? 'text-yellow-400' : 'text-white opacity-50 hover:opacity-100'}`}
+                      title={`${rating} ${rating === 1 ? 'star' : 'stars'}`}
+                    >
+                      ★
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
+            {photo.tags && photo.tags.length > 0 && (
+              <p className="text-xs opacity-75 truncate mt-1">{photo.tags.join(', ')}</p>
+            )}
+            {actions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {actions.map(action => (
+                  <button
+                    key={action.label}
+                    onClick={(event) => handleClick(event, () => action.onClick(photo))}
+                    className="px-2 py-1 rounded text-xs bg-white bg-opacity-20 hover:bg-opacity-40 text-white transition-colors"
+                  >
+                    {action.label}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         </div>
-      </div>
+      </a>
     </div>
   );
 };
@@ -1,8 +1,13 @@
 import React from 'react';
+import { ProviderCredentials } from '../types';
 import DropboxForm from './DropboxForm';
+import GoogleDriveForm from './GoogleDriveForm';
+import OneDriveForm from './OneDriveForm';
+import S3Form from './S3Form';
+import WebDavForm from './WebDavForm';
 
 interface ProviderFormsProps {
-  onSubmit: (formData: { appKey: string; appSecret: string }) => Promise<void>;
+  onSubmit: (providerType: string, credentials: ProviderCredentials) => Promise<void>;
   isLoading: boolean;
 }
 
@@ -10,13 +15,21 @@ const ProviderForms: React.FC<ProviderFormsProps> = ({ onSubmit, isLoading }) =>
   return (
     <div className="space-y-6">
       {/* Dropbox Provider Form */}
-      <DropboxForm onSubmit={onSubmit} isLoading={isLoading} />
+      <DropboxForm onSubmit={(formData) => onSubmit('dropbox', formData)} isLoading={isLoading} />
+
+      {/* Google Drive Provider Form */}
+      <GoogleDriveForm onSubmit={(formData) => onSubmit('googledrive', formData)} isLoading={isLoading} />
+
+      {/* OneDrive Provider Form */}
+      <OneDriveForm onSubmit={(formData) => onSubmit('onedrive', formData)} isLoading={isLoading} />
+
+      {/* S3-Compatible Storage Form */}
+      <S3Form onSubmit={(formData) => onSubmit('s3', formData)} isLoading={isLoading} />
+
+      {/* WebDAV / Nextcloud Form */}
+      <WebDavForm onSubmit={(formData) => onSubmit('webdav', formData)} isLoading={isLoading} />
       
       {/* Future provider forms can be added here */}
-      {/* Example:
-      <GoogleDriveForm onSubmit={onSubmit} isLoading={isLoading} />
-      <OneDriveForm onSubmit={onSubmit} isLoading={isLoading} />
-      */}
     </div>
   );
 };
@@ -19,7 +19,7 @@ const ProviderItem: React.FC<ProviderItemProps> = ({
           {provider.type} Provider (Instance {provider.instanceIndex})
         </h4>
         <div className="flex gap-2 items-center">
-          {!provider.authenticated && (
+          {!provider.authenticated && provider.usesOAuth && (
             <button
               onClick={() => onAuthenticate(provider.type, provider.instanceIndex)}
               className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white text-xs font-semibold rounded transition-all duration-200 hover:shadow-md"
@@ -0,0 +1,232 @@
+import { useState, useEffect, useCallback } from 'react';
+import { RebalancePlan, RebalanceRequest, RebalanceStatus, RebalanceMove } from '../types';
+
+interface RebalanceProps {
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+// How often progress is fetched while files are being moved
+const POLL_INTERVAL = 2000;
+
+// Only the largest moves of a preview are listed
+const PREVIEW_LIMIT = 50;
+
+const formatFileSize = (bytes: number) => {
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  if (bytes <= 0) return '0 Bytes';
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+const formatInstance = (providerType: string, instanceIndex: number) => `${providerType.toUpperCase()} #${instanceIndex}`;
+
+const formatMove = (move: RebalanceMove) =>
+  `${formatInstance(move.providerType, move.instanceIndex)} → ${formatInstance(move.targetProviderType, move.targetInstanceIndex)}`;
+
+function Rebalance({ onError, onSuccess }: RebalanceProps) {
+  const [plan, setPlan] = useState<RebalancePlan | null>(null);
+  const [status, setStatus] = useState<RebalanceStatus | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/provider/rebalance');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load rebalance status');
+      }
+      setStatus(await response.json() as RebalanceStatus);
+    } catch (error) {
+      onError(`Error loading rebalance status: ${(error as Error).message}`);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  useEffect(() => {
+    if (!status?.running) {
+      return;
+    }
+    const timer = setTimeout(loadStatus, POLL_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [status, loadStatus]);
+
+  const requestRebalance = async (dryRun: boolean) => {
+    const response = await fetch('/provider/rebalance', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ dryRun } as RebalanceRequest)
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to plan the rebalance');
+    }
+    return await response.json() as RebalancePlan;
+  };
+
+  const previewRebalance = async () => {
+    setIsPlanning(true);
+    try {
+      setPlan(await requestRebalance(true));
+    } catch (error) {
+      onError(`Error planning rebalance: ${(error as Error).message}`);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const startRebalance = async () => {
+    if (!plan || !confirm(`Move ${plan.moves.length} ${plan.moves.length === 1 ? 'file' : 'files'} (${formatFileSize(plan.totalBytes)}) between accounts?`)) {
+      return;
+    }
+
+    setIsPlanning(true);
+    try {
+      const started = await requestRebalance(false);
+      setPlan(null);
+      onSuccess(`Moving ${started.moves.length} ${started.moves.length === 1 ? 'file' : 'files'} in the background.`);
+    } catch (error) {
+      onError(`Error starting rebalance: ${(error as Error).message}`);
+    } finally {
+      setIsPlanning(false);
+      loadStatus();
+    }
+  };
+
+  const cancelRebalance = async () => {
+    try {
+      const response = await fetch('/provider/rebalance', { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to cancel the rebalance');
+      }
+      const data = await response.json() as { message: string; status: RebalanceStatus };
+      setStatus(data.status);
+      onSuccess(data.message);
+    } catch (error) {
+      onError(`Error cancelling rebalance: ${(error as Error).message}`);
+    }
+  };
+
+  const finishedCount = status ? status.counts.done + status.counts.failed + status.counts.skipped + status.counts.cancelled : 0;
+  const totalCount = status ? finishedCount + status.counts.pending + status.counts.copied : 0;
+  const progress = status && status.totalBytes > 0 ? Math.min(100, (status.movedBytes / status.totalBytes) * 100) : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8">
+      <div className="flex justify-between items-center mb-6 pb-4 border-b-2 border-teal-500">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Rebalance Storage
+        </h2>
+        <button
+          onClick={previewRebalance}
+          disabled={isPlanning || !!status?.running}
+          className="bg-teal-500 hover:bg-teal-600 disabled:bg-gray-300 text-white text-sm px-3 py-1 rounded-lg transition-colors"
+        >
+          {isPlanning ? 'Planning...' : 'Preview'}
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Moves files between writable accounts until their free space is even. Each file is copied, checked against the original and only then deleted from its old account.
+      </p>
+
+      {/* Progress of the current or last rebalance */}
+      {status && totalCount > 0 && (
+        <div className="border border-gray-200 rounded-lg p-4 mb-4">
+          <div className="flex justify-between items-center mb-2">
+            <p className="text-sm text-gray-700">
+              {status.running ? 'Moving' : 'Moved'} {status.counts.done} of {totalCount} {totalCount === 1 ? 'file' : 'files'},{' '}
+              {formatFileSize(status.movedBytes)} of {formatFileSize(status.totalBytes)}
+              {status.counts.skipped > 0 && `, ${status.counts.skipped} skipped`}
+              {status.counts.failed > 0 && `, ${status.counts.failed} failed`}
+              {status.counts.cancelled > 0 && `, ${status.counts.cancelled} cancelled`}
+            </p>
+            {status.running && (
+              <button
+                onClick={cancelRebalance}
+                className="bg-red-500 hover:bg-red-600 text-white text-sm px-3 py-1 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div className="h-full bg-teal-500 transition-all" style={{ width: `${progress}%` }}></div>
+          </div>
+          {status.current && (
+            <p className="text-xs text-gray-500 mt-2 truncate" title={status.current.path}>
+              {status.current.path} ({formatMove(status.current)})
+            </p>
+          )}
+          {status.failures.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {status.failures.map(failure => (
+                <li key={`${failure.providerType}:${failure.instanceIndex}:${failure.path}`} className="text-xs text-red-600 truncate">
+                  {failure.path}: {failure.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Dry run of the moves a rebalance would make */}
+      {plan && (
+        plan.instances.length < 2 ? (
+          <p className="text-gray-500 text-center py-8">Connect at least two writable accounts to rebalance them.</p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg p-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-4">
+              {plan.instances.map(instance => (
+                <div key={`${instance.providerType}:${instance.instanceIndex}`} className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-sm font-medium text-gray-900">{formatInstance(instance.providerType, instance.instanceIndex)}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(instance.freeBytes)} free → {formatFileSize(instance.plannedFreeBytes)} free
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {plan.moves.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">Free space is already as even as moving whole files can make it.</p>
+            ) : (
+              <>
+                <div className="flex justify-between items-center mb-3">
+                  <p className="text-sm text-gray-700">
+                    {plan.moves.length} {plan.moves.length === 1 ? 'file' : 'files'} to move, {formatFileSize(plan.totalBytes)} in total
+                  </p>
+                  <button
+                    onClick={startRebalance}
+                    disabled={isPlanning}
+                    className="bg-teal-500 hover:bg-teal-600 disabled:bg-gray-300 text-white text-sm px-3 py-1 rounded-lg transition-colors"
+                  >
+                    Start
+                  </button>
+                </div>
+                <ul className="divide-y divide-gray-100 text-xs">
+                  {plan.moves.slice(0, PREVIEW_LIMIT).map(move => (
+                    <li key={`${move.providerType}:${move.instanceIndex}:${move.path}`} className="flex justify-between py-1 gap-4">
+                      <span className="truncate text-gray-900" title={move.path}>{move.path}</span>
+                      <span className="whitespace-nowrap text-gray-500">{formatFileSize(move.size)} · {formatMove(move)}</span>
+                    </li>
+                  ))}
+                </ul>
+                {plan.moves.length > PREVIEW_LIMIT && (
+                  <p className="text-xs text-gray-500 mt-2">and {plan.moves.length - PREVIEW_LIMIT} more</p>
+                )}
+              </>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+export default Rebalance;
@@ -0,0 +1,255 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Album, ReplicationStatus, ReplicationPolicy, SetReplicationPolicyRequest, UnderReplicatedFile } from '../types';
+
+interface ReplicationProps {
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+// How often compliance is fetched while files are short of copies
+const POLL_INTERVAL = 10000;
+
+// Offered in the copy pickers; 1 means no policy
+const COPY_OPTIONS = [1, 2, 3, 4, 5];
+
+// Only the files furthest short of copies are listed
+const FILE_LIMIT = 20;
+
+const formatFileSize = (bytes: number) => {
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  if (bytes <= 0) return '0 Bytes';
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+const formatCopies = (copies: number) => copies === 1 ? 'Off' : `${copies} copies`;
+
+const percent = (part: number, total: number) => total > 0 ? Math.round((part / total) * 100) : 100;
+
+function Replication({ onError, onSuccess }: ReplicationProps) {
+  const [status, setStatus] = useState<ReplicationStatus | null>(null);
+  const [files, setFiles] = useState<UnderReplicatedFile[]>([]);
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [newAlbumId, setNewAlbumId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const [statusResponse, filesResponse] = await Promise.all([
+        fetch('/library/replication'),
+        fetch(`/library/replication/under-replicated?limit=${FILE_LIMIT}`)
+      ]);
+      if (!statusResponse.ok) {
+        const errorData = await statusResponse.json();
+        throw new Error(errorData.error || 'Failed to load replication status');
+      }
+      setStatus(await statusResponse.json() as ReplicationStatus);
+      if (filesResponse.ok) {
+        setFiles(await filesResponse.json() as UnderReplicatedFile[]);
+      }
+    } catch (error) {
+      onError(`Error loading replication status: ${(error as Error).message}`);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    const loadAlbums = async () => {
+      try {
+        const response = await fetch('/library/albums');
+        if (response.ok) {
+          setAlbums(await response.json() as Album[]);
+        }
+      } catch (error) {
+        // Library-wide policies still work without the album list
+        console.error('Error loading albums:', error);
+      }
+    };
+    loadAlbums();
+    loadStatus();
+  }, [loadStatus]);
+
+  useEffect(() => {
+    if (!status || status.compliantFiles >= status.files) {
+      return;
+    }
+    const timer = setTimeout(loadStatus, POLL_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [status, loadStatus]);
+
+  const setPolicy = async (albumId: number | null, copies: number) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/library/replication', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ albumId, copies } as SetReplicationPolicyRequest)
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to set the replication policy');
+      }
+      setStatus(await response.json() as ReplicationStatus);
+      onSuccess(copies > 1 ? `Keeping ${copies} copies of every file${albumId === null ? '' : ' in the album'}.` : 'Replication policy removed.');
+    } catch (error) {
+      onError(`Error setting replication policy: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+      loadStatus();
+    }
+  };
+
+  const libraryPolicy = status?.policies.find(policy => policy.albumId === null);
+  const albumPolicies = status?.policies.filter(policy => policy.albumId !== null) || [];
+  const albumsWithoutPolicy = albums.filter(album => !albumPolicies.some(policy => policy.albumId === album.id));
+
+  const renderCompliance = (policy: ReplicationPolicy) => (
+    <span className="text-xs text-gray-500">
+      {policy.compliantFiles} of {policy.files} {policy.files === 1 ? 'file' : 'files'} ({percent(policy.compliantFiles, policy.files)}%)
+    </span>
+  );
+
+  const renderCopyPicker = (albumId: number | null, copies: number) => (
+    <select
+      value={copies}
+      onChange={(event) => setPolicy(albumId, parseInt(event.target.value))}
+      disabled={isSaving}
+      className="border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+    >
+      {COPY_OPTIONS.map(option => (
+        <option key={option} value={option}>{formatCopies(option)}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8">
+      <div className="flex justify-between items-center mb-6 pb-4 border-b-2 border-indigo-500">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Replication
+        </h2>
+        <button
+          onClick={loadStatus}
+          className="text-indigo-600 hover:text-indigo-700 text-sm font-medium transition-colors"
+          title="Refresh replication status"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Keeps each file on several accounts, so losing one account loses nothing. Copies are counted by content and made on the writable accounts with the most free space.
+      </p>
+
+      {!status ? (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+          <span className="ml-2 text-gray-600">Checking replication...</span>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Policies with how many of their files have enough copies */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <span className="text-sm font-medium text-gray-900 w-40">Whole library</span>
+              {renderCopyPicker(null, libraryPolicy?.copies || 1)}
+              {libraryPolicy && renderCompliance(libraryPolicy)}
+            </div>
+            {albumPolicies.map(policy => (
+              <div key={policy.albumId} className="flex items-center gap-3">
+                <span className="text-sm text-gray-900 w-40 truncate" title={policy.albumName}>{policy.albumName}</span>
+                {renderCopyPicker(policy.albumId, policy.copies)}
+                {renderCompliance(policy)}
+              </div>
+            ))}
+            {albumsWithoutPolicy.length > 0 && (
+              <div className="flex items-center gap-3">
+                <select
+                  value={newAlbumId}
+                  onChange={(event) => setNewAlbumId(event.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1 text-sm w-40 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Add an album...</option>
+                  {albumsWithoutPolicy.map(album => (
+                    <option key={album.id} value={album.id}>{album.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    setPolicy(parseInt(newAlbumId), 2);
+                    setNewAlbumId('');
+                  }}
+                  disabled={!newAlbumId || isSaving}
+                  className="bg-indigo-500 hover:bg-indigo-600 disabled:bg-gray-300 text-white text-sm px-3 py-1 rounded-lg transition-colors"
+                >
+                  Keep 2 copies
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Overall compliance and progress */}
+          {status.policies.length > 0 && (
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-700 mb-2">
+                {status.compliantFiles} of {status.files} {status.files === 1 ? 'file has' : 'files have'} enough copies
+                {status.missingBytes > 0 && `, ${formatFileSize(status.missingBytes)} still to copy`}
+              </p>
+              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-indigo-500 transition-all"
+                  style={{ width: `${percent(status.compliantFiles, status.files)}%` }}
+                ></div>
+              </div>
+              {status.current && (
+                <p className="text-xs text-gray-500 mt-2 truncate" title={status.current.path}>
+                  Copying {status.current.path} to {status.current.targetProviderType.toUpperCase()} #{status.current.targetInstanceIndex}
+                </p>
+              )}
+              {status.copiedFiles > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Copied {status.copiedFiles} {status.copiedFiles === 1 ? 'file' : 'files'} ({formatFileSize(status.copiedBytes)}) since the server started.
+                </p>
+              )}
+              {status.pendingHashes > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Still comparing {status.pendingHashes} {status.pendingHashes === 1 ? 'file' : 'files'}, they are counted once their copies are known.
+                </p>
+              )}
+              {status.failures.length > 0 && (
+                <ul className="mt-3 space-y-1">
+                  {status.failures.map(failure => (
+                    <li key={`${failure.providerType}:${failure.instanceIndex}:${failure.path}`} className="text-xs text-red-600 truncate">
+                      {failure.path}: {failure.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* The files furthest short of copies */}
+          {files.length > 0 && (
+            <ul className="divide-y divide-gray-100 text-xs">
+              {files.map(file => {
+                const first = file.photos[0];
+                return (
+                  <li key={file.contentHash || (first && `${first.providerType}:${first.instanceIndex}:${first.path}`)} className="flex justify-between py-1 gap-4">
+                    <span className="truncate text-gray-900" title={first?.path}>{first?.path}</span>
+                    <span className="whitespace-nowrap text-gray-500">
+                      {formatFileSize(file.size)} · {file.copies} of {file.requiredCopies} copies ·{' '}
+                      {file.photos.map(photo => `${photo.providerType.toUpperCase()} #${photo.instanceIndex}`).join(', ')}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Replication;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { ProviderCredentials } from '../types';
+
+interface S3FormProps {
+  onSubmit: (formData: ProviderCredentials) => Promise<void>;
+  isLoading: boolean;
+}
+
+const S3_FIELDS = [
+  { name: 'endpoint', label: 'Endpoint:', type: 'text', required: false, placeholder: 'Leave empty for AWS, e.g. http://localhost:9000 for MinIO' },
+  { name: 'region', label: 'Region:', type: 'text', required: false, placeholder: 'us-east-1' },
+  { name: 'bucket', label: 'Bucket:', type: 'text', required: true, placeholder: 'Enter the bucket name' },
+  { name: 'prefix', label: 'Folder Prefix:', type: 'text', required: false, placeholder: 'Optional, e.g. photos/' },
+  { name: 'accessKeyId', label: 'Access Key ID:', type: 'text', required: true, placeholder: 'Enter your access key ID' },
+  { name: 'secretAccessKey', label: 'Secret Access Key:', type: 'password', required: true, placeholder: 'Enter your secret access key' },
+  { name: 'quotaBytes', label: 'Quota (bytes):', type: 'number', required: false, placeholder: 'Optional, caps the space used for uploads' }
+];
+
+const S3Form: React.FC<S3FormProps> = ({ onSubmit, isLoading }) => {
+  const [formData, setFormData] = useState<ProviderCredentials>({});
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev: ProviderCredentials) => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Only send the optional fields that were filled in
+    const credentials: ProviderCredentials = {};
+    for (const [key, value] of Object.entries(formData)) {
+      if (value.trim() !== '') {
+        credentials[key] = value.trim();
+      }
+    }
+    await onSubmit(credentials);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6 pb-4 border-b-2 border-blue-500">
+        S3-Compatible Storage Setup
+      </h2>
+
+      <form onSubmit={handleFormSubmit} className="space-y-6">
+        {S3_FIELDS.map(field => (
+          <div key={field.name} className="space-y-2">
+            <label htmlFor={`s3-${field.name}`} className="block text-sm font-semibold text-gray-700 uppercase tracking-wide">
+              {field.label}
+            </label>
+            <input
+              type={field.type}
+              id={`s3-${field.name}`}
+              name={field.name}
+              value={formData[field.name] || ''}
+              onChange={handleInputChange}
+              required={field.required}
+              placeholder={field.placeholder}
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-colors"
+            />
+          </div>
+        ))}
+
+        <div className="pt-4">
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 hover:shadow-lg disabled:cursor-not-allowed disabled:shadow-none"
+          >
+            {isLoading ? 'Adding Provider...' : 'Connect Bucket'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default S3Form;
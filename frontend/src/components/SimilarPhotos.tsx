@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DuplicatePhoto, SimilarGroup, SimilarPhotosResponse, DeleteFileRequest } from '../types';
+
+interface SimilarPhotosProps {
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+const photoKey = (photo: DuplicatePhoto) => `${photo.providerType}:${photo.instanceIndex}:${photo.path}`;
+
+const formatFileSize = (bytes: number) => {
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  if (bytes === 0) return '0 Bytes';
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+function SimilarPhotos({ onError, onSuccess }: SimilarPhotosProps) {
+  const [groups, setGroups] = useState<SimilarGroup[]>([]);
+  const [pendingHashes, setPendingHashes] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingKey, setDeletingKey] = useState<string | null>(null);
+
+  const loadGroups = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/library/similar');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load similar photos');
+      }
+      const data = await response.json() as SimilarPhotosResponse;
+      setGroups(data.groups);
+      setPendingHashes(data.pendingHashes);
+    } catch (error) {
+      onError(`Error loading similar photos: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  const deletePhoto = async (photo: DuplicatePhoto) => {
+    if (!confirm(`Delete ${photo.path}? This action cannot be undone.`)) {
+      return;
+    }
+
+    setDeletingKey(photoKey(photo));
+    try {
+      const response = await fetch('/provider/file', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          providerType: photo.providerType,
+          instanceIndex: photo.instanceIndex,
+          path: photo.path
+        } as DeleteFileRequest)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to delete ${photo.path}`);
+      }
+      onSuccess(`Deleted ${photo.name}.`);
+    } catch (error) {
+      onError(`Error deleting photo: ${(error as Error).message}`);
+    } finally {
+      setDeletingKey(null);
+      loadGroups();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8">
+      <div className="flex justify-between items-center mb-6 pb-4 border-b-2 border-purple-500">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Similar Photos
+        </h2>
+        <button
+          onClick={loadGroups}
+          className="text-purple-600 hover:text-purple-700 text-sm font-medium transition-colors"
+          title="Refresh similar photos"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {pendingHashes > 0 && (
+        <p className="text-sm text-gray-500 mb-4">
+          Still analysing {pendingHashes} {pendingHashes === 1 ? 'photo' : 'photos'}, more groups may appear.
+        </p>
+      )}
+
+      {isLoading && groups.length === 0 ? (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+          <span className="ml-2 text-gray-600">Looking for similar photos...</span>
+        </div>
+      ) : groups.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No similar photos found.</p>
+      ) : (
+        <div className="space-y-6">
+          {groups.map(group => (
+            <div key={photoKey(group.photos[group.best])} className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-700 mb-3">{group.photos.length} similar photos</p>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {group.photos.map((photo, index) => {
+                  const key = photoKey(photo);
+                  const isBest = index === group.best;
+                  return (
+                    <div
+                      key={key}
+                      className={`relative rounded-lg border-2 p-2 ${isBest ? 'border-green-500' : 'border-transparent'}`}
+                    >
+                      {isBest && (
+                        <span className="absolute top-3 left-3 px-2 py-0.5 rounded-full text-xs bg-green-500 text-white">
+                          Best
+                        </span>
+                      )}
+                      <img
+                        src={`/provider/thumbnail/${photo.providerType}/${photo.instanceIndex}?path=${encodeURIComponent(photo.path)}&size=w128h128`}
+                        alt={photo.name}
+                        className="w-full aspect-square object-cover rounded bg-gray-100"
+                        loading="lazy"
+                      />
+                      <p className="mt-2 text-xs font-medium text-gray-900 truncate" title={photo.path}>{photo.path}</p>
+                      <p className="text-xs text-gray-500">
+                        {photo.width && photo.height ? `${photo.width} × ${photo.height} · ` : ''}{formatFileSize(photo.size)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {photo.providerType.toUpperCase()} #{photo.instanceIndex}
+                      </p>
+                      {!isBest && photo.writable && (
+                        <button
+                          onClick={() => deletePhoto(photo)}
+                          disabled={deletingKey !== null}
+                          className="mt-2 w-full bg-red-500 hover:bg-red-600 disabled:bg-gray-300 text-white text-xs px-2 py-1 rounded transition-colors"
+                        >
+                          {deletingKey === key ? 'Deleting...' : 'Delete'}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SimilarPhotos;
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { PhotoMetadata, TagCount, TagPhotosRequest } from '../types';
+
+interface TagDialogProps {
+  photo: PhotoMetadata | null;
+  onClose: () => void;
+  onChange: (photo: PhotoMetadata) => void;
+  onError: (message: string) => void;
+}
+
+function TagDialog({ photo, onClose, onChange, onError }: TagDialogProps) {
+  const [knownTags, setKnownTags] = useState<TagCount[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!photo) {
+      return;
+    }
+
+    const loadTags = async () => {
+      try {
+        const response = await fetch('/library/tags');
+        if (response.ok) {
+          setKnownTags(await response.json() as TagCount[]);
+        }
+      } catch (error) {
+        // Suggestions are optional
+        console.error('Error loading tags:', error);
+      }
+    };
+
+    setNewTag('');
+    loadTags();
+  }, [photo]);
+
+  if (!photo) {
+    return null;
+  }
+
+  const tags = photo.tags || [];
+
+  const saveTags = async (method: 'POST' | 'DELETE', changed: string[]) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/library/tags', {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          photos: [{ providerType: photo.providerType, instanceIndex: photo.instanceIndex, path: photo.path }],
+          tags: changed
+        } as TagPhotosRequest)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update tags');
+      }
+
+      // Tags match case-insensitively, as on the server
+      const has = (list: string[], tag: string) => list.some(item => item.toLowerCase() === tag.toLowerCase());
+      onChange({
+        ...photo,
+        tags: method === 'POST'
+          ? [...tags, ...changed.filter(tag => !has(tags, tag))]
+          : tags.filter(tag => !has(changed, tag))
+      });
+    } catch (error) {
+      onError(`Error updating tags: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newTag.trim()) {
+      return;
+    }
+    await saveTags('POST', [newTag.trim()]);
+    setNewTag('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-50" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-lg p-6 w-full max-w-sm" onClick={(event) => event.stopPropagation()}>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Tags</h3>
+        <p className="text-sm text-gray-500 truncate mb-4" title={photo.path}>{photo.name}</p>
+
+        {tags.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-4">No tags yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {tags.map(tag => (
+              <span key={tag} className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800">
+                {tag}
+                <button
+                  onClick={() => saveTags('DELETE', [tag])}
+                  disabled={isSaving}
+                  className="ml-1 text-blue-500 hover:text-blue-700"
+                  title={`Remove ${tag}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            type="text"
+            value={newTag}
+            onChange={(event) => setNewTag(event.target.value)}
+            placeholder="Add a tag"
+            list="known-tags"
+            className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <datalist id="known-tags">
+            {knownTags.map(({ tag }) => <option key={tag} value={tag} />)}
+          </datalist>
+          <button
+            type="submit"
+            disabled={isSaving || !newTag.trim()}
+            className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white text-sm px-3 py-2 rounded transition-colors"
+          >
+            Add
+          </button>
+        </form>
+
+        <button
+          onClick={onClose}
+          className="mt-4 w-full text-sm text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default TagDialog;
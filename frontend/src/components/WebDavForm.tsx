@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { ProviderCredentials } from '../types';
+
+interface WebDavFormProps {
+  onSubmit: (formData: ProviderCredentials) => Promise<void>;
+  isLoading: boolean;
+}
+
+const WEBDAV_FIELDS = [
+  { name: 'serverUrl', label: 'Server URL:', type: 'url', placeholder: 'e.g. https://cloud.example.com/remote.php/dav/files/alice' },
+  { name: 'username', label: 'Username:', type: 'text', placeholder: 'Enter your username' },
+  { name: 'appPassword', label: 'App Password:', type: 'password', placeholder: 'Enter an app password' }
+];
+
+const WebDavForm: React.FC<WebDavFormProps> = ({ onSubmit, isLoading }) => {
+  const [formData, setFormData] = useState<ProviderCredentials>({
+    serverUrl: '',
+    username: '',
+    appPassword: ''
+  });
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev: ProviderCredentials) => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSubmit(formData);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6 pb-4 border-b-2 border-blue-500">
+        WebDAV / Nextcloud Setup
+      </h2>
+
+      <form onSubmit={handleFormSubmit} className="space-y-6">
+        {WEBDAV_FIELDS.map(field => (
+          <div key={field.name} className="space-y-2">
+            <label htmlFor={`webdav-${field.name}`} className="block text-sm font-semibold text-gray-700 uppercase tracking-wide">
+              {field.label}
+            </label>
+            <input
+              type={field.type}
+              id={`webdav-${field.name}`}
+              name={field.name}
+              value={formData[field.name]}
+              onChange={handleInputChange}
+              required
+              placeholder={field.placeholder}
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-colors"
+            />
+          </div>
+        ))}
+
+        <div className="pt-4">
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 hover:shadow-lg disabled:cursor-not-allowed disabled:shadow-none"
+          >
+            {isLoading ? 'Adding Provider...' : 'Connect WebDAV Server'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default WebDavForm;
@@ -1,10 +1,12 @@
+// App.tsx, components/ProviderForms.tsx
+export interface ProviderCredentials {
+    [key: string]: string;
+}
+
 // App.tsx
 export interface AddProviderRequest {
     providerType: string;
-    credentials: {
-        appKey: string;
-        appSecret: string;
-    };
+    credentials: ProviderCredentials;
 }
 
 export interface RemoveProviderRequest {
@@ -14,6 +16,8 @@ export interface RemoveProviderRequest {
 
 export interface AddProviderResponse {
     instanceIndex?: number;
+    usesOAuth?: boolean;
+    authenticated?: boolean;
 }
 
 // App.tsx, components/StatusAlert.tsx
@@ -24,6 +28,7 @@ export interface Provider {
     type: string;
     instanceIndex: number;
     authenticated: boolean;
+    usesOAuth: boolean;
     accountInfo?: {
         name: string;
         email: string;
@@ -40,10 +45,245 @@ export interface PhotoMetadata {
     providerType: string;
     instanceIndex: number;
     hash?: string;
-    thumbnail?: {
-        data: string;
-        mimeType: string;
-    } | {
-        error: string;
-    };
-}
\ No newline at end of file
+    mediaType?: 'image' | 'raw' | 'video';
+    // Playback length of a video in milliseconds
+    duration?: number;
+    cameraMake?: string;
+    cameraModel?: string;
+    width?: number;
+    height?: number;
+    orientation?: number;
+    favorite?: boolean;
+    rating?: number;
+    tags?: string[];
+}
+// components/DuplicateFinder.tsx
+export interface DuplicatePhoto extends PhotoMetadata {
+    writable: boolean;
+}
+
+export interface DuplicateGroup {
+    contentHash: string;
+    size: number;
+    wastedBytes: number;
+    photos: DuplicatePhoto[];
+}
+
+export interface DuplicatesResponse {
+    groups: DuplicateGroup[];
+    pendingHashes: number;
+}
+
+export interface DeleteFileRequest {
+    providerType: string;
+    instanceIndex: number;
+    path: string;
+}
+
+// components/SimilarPhotos.tsx
+export interface SimilarGroup {
+    photos: DuplicatePhoto[];
+    best: number;
+}
+
+export interface SimilarPhotosResponse {
+    groups: SimilarGroup[];
+    pendingHashes: number;
+}
+
+// components/MapView.tsx
+export interface GeoBounds {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+}
+
+export interface GeoCluster {
+    latitude: number;
+    longitude: number;
+    count: number;
+    bounds: GeoBounds;
+    photo: PhotoMetadata;
+}
+
+export interface MapConfig {
+    tileUrl: string;
+    attribution: string;
+    maxZoom: number;
+}
+
+// components/Albums.tsx, components/AddToAlbumDialog.tsx
+export type AlbumSortOrder = 'date_desc' | 'date_asc' | 'manual';
+
+export interface PhotoReference {
+    providerType: string;
+    instanceIndex: number;
+    path: string;
+}
+
+export interface Album {
+    id: number;
+    name: string;
+    sortOrder: AlbumSortOrder;
+    cover: PhotoMetadata | null;
+    photoCount: number;
+    createdAt: string;
+}
+
+export interface CreateAlbumRequest {
+    name: string;
+    sortOrder?: AlbumSortOrder;
+}
+
+export interface UpdateAlbumRequest {
+    name?: string;
+    sortOrder?: AlbumSortOrder;
+    cover?: PhotoReference | null;
+}
+
+export interface AlbumPhotosRequest {
+    photos: PhotoReference[];
+}
+
+// components/PhotoGallery.tsx, components/PhotoItem.tsx
+export interface PhotoAction {
+    label: string;
+    onClick: (photo: PhotoMetadata) => void;
+}
+
+// components/PhotoFilterBar.tsx, components/TagDialog.tsx
+export type PhotoSortField = 'date' | 'name' | 'size';
+
+export interface PhotoFilter {
+    name?: string;
+    folder?: string;
+    // Capture days as YYYY-MM-DD in local time, both inclusive
+    from?: string;
+    to?: string;
+    providerType?: string;
+    instanceIndex?: number;
+    // Size range in megabytes
+    minSizeMB?: number;
+    maxSizeMB?: number;
+    // Comma-separated extensions
+    extensions?: string;
+    favorite?: boolean;
+    minRating?: number;
+    tag?: string;
+    sort?: PhotoSortField;
+    order?: 'asc' | 'desc';
+}
+
+export interface TagCount {
+    tag: string;
+    count: number;
+}
+
+export interface UpdatePhotosRequest {
+    photos: PhotoReference[];
+    favorite?: boolean;
+    rating?: number;
+}
+
+export interface TagPhotosRequest {
+    photos: PhotoReference[];
+    tags: string[];
+}
+
+// components/PhotoGallery.tsx, components/DateScrubber.tsx
+export interface TimelineBucket {
+    year: number;
+    // 1-12
+    month: number;
+    count: number;
+    // Position of the month's first photo in the sorted library
+    offset: number;
+}
+
+export interface TimelineResponse {
+    buckets: TimelineBucket[];
+    total: number;
+}
+
+// components/Rebalance.tsx
+export interface RebalanceRequest {
+    // Only plan the moves, without making them
+    dryRun?: boolean;
+}
+
+export interface RebalanceInstance {
+    providerType: string;
+    instanceIndex: number;
+    freeBytes: number;
+    // Free space once every planned move is made
+    plannedFreeBytes: number;
+}
+
+export interface RebalanceMove {
+    providerType: string;
+    instanceIndex: number;
+    path: string;
+    size: number;
+    targetProviderType: string;
+    targetInstanceIndex: number;
+}
+
+export interface RebalancePlan {
+    instances: RebalanceInstance[];
+    moves: RebalanceMove[];
+    totalBytes: number;
+}
+
+export type RebalanceMoveStatus = 'pending' | 'copied' | 'done' | 'failed' | 'skipped' | 'cancelled';
+
+export interface RebalanceStatus {
+    running: boolean;
+    counts: Record<RebalanceMoveStatus, number>;
+    movedBytes: number;
+    totalBytes: number;
+    current?: RebalanceMove;
+    failures: (RebalanceMove & { status: RebalanceMoveStatus; error: string })[];
+}
+
+// components/Replication.tsx
+export interface ReplicationPolicy {
+    // null for the policy covering the whole library
+    albumId: number | null;
+    albumName?: string;
+    copies: number;
+    files: number;
+    compliantFiles: number;
+}
+
+export interface SetReplicationPolicyRequest {
+    albumId?: number | null;
+    // 1 removes the policy
+    copies: number;
+}
+
+export interface ReplicationFailure extends PhotoReference {
+    error: string;
+    failedAt: string;
+}
+
+export interface ReplicationStatus {
+    policies: ReplicationPolicy[];
+    files: number;
+    compliantFiles: number;
+    missingBytes: number;
+    pendingHashes: number;
+    running: boolean;
+    current?: PhotoReference & { targetProviderType: string; targetInstanceIndex: number };
+    copiedFiles: number;
+    copiedBytes: number;
+    failures: ReplicationFailure[];
+}
+
+export interface UnderReplicatedFile {
+    contentHash: string | null;
+    size: number;
+    copies: number;
+    requiredCopies: number;
+    photos: PhotoMetadata[];
+}
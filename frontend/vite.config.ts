@@ -13,6 +13,10 @@ export default defineConfig({
       '/oauth': {
         target: 'http://localhost:3000',
         changeOrigin: true,
+      },
+      '/library': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
       }
     }
   }